@@ -1,20 +1,159 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { Command, InvalidArgumentError } from 'commander';
+import { existsSync, statSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { stripVTControlCharacters } from 'util';
 import chalk from 'chalk';
 import { FileScanner } from '@/services/file-scanner';
+import { ProgressReporter } from '@/services/progress-reporter';
+import { ExtractorRegistry } from '@/services/extractor-registry';
 import { OutputFormatter } from '@/services/output-formatter';
 import { CsvExporter } from '@/services/csv-exporter';
+import { JsonExporter } from '@/services/json-exporter';
+import { HtmlExporter } from '@/services/html-exporter';
+import { MarkdownFormatter } from '@/services/markdown-formatter';
 import { ApiSpecFinder } from '@/services/api-spec-finder';
 import { CoverageAnalyzer } from '@/services/coverage-analyzer';
+import { ModuleDetector } from '@/services/module-detector';
+import { CoverageGate, type CheckThresholds } from '@/services/coverage-gate';
+import { ScanDiffer } from '@/services/scan-differ';
+import { GitRepository } from '@/services/git-repository';
+import { WorkingTreeReader, type SourceReader } from '@/services/source-reader';
+import { ProjectConfigLoader, type ProjectConfig } from '@/services/project-config';
+import { ScanCache } from '@/services/scan-cache';
+import { OpenApiGenerator, type OpenApiVersion, type SpecFormat } from '@/services/openapi-generator';
 import { InteractivePrompt, type InteractiveOptions } from '@/services/interactive-prompt';
-import type { ScanResultWithCoverage, ApiSpecInfo, EndpointWithCoverage } from '@/models/endpoint';
+import { HTTP_METHODS, type ScanResult, type ScanResultWithCoverage, type ApiSpecInfo, type EndpointWithCoverage, type HttpMethod } from '@/models/endpoint';
+import { OUTPUT_FORMATS, type OutputFormat, type ScanReport } from '@/models/scan-report';
+import { DIFF_FORMATS, type DiffFormat } from '@/models/scan-diff';
+
+interface ProjectScanOptions {
+  extractors: string[];
+  // Git revision to read instead of the working tree
+  ref?: string;
+  // Only extract endpoints from files changed since this git revision
+  changedSince?: string;
+  config?: ProjectConfig;
+  concurrency?: number;
+  workers?: number;
+  progress?: boolean;
+  // `false` for --no-cache
+  cache?: boolean;
+}
+
+// The reader and cache are handed on to the coverage analysis, so specs come from the same revision
+async function scanProject(
+  targetPath: string,
+  options: ProjectScanOptions,
+  log: (message: string) => void
+): Promise<{ result: ScanResult; reader: SourceReader; cache?: ScanCache }> {
+  const { config } = options;
+  const registry = await ExtractorRegistry.create(
+    [...(config?.extractors?.modules || []), ...options.extractors].map(modulePath => resolve(modulePath)),
+    config?.extractors?.enabled,
+    loaded => log(chalk.blue(`🧩 Loaded extractors: ${loaded.map(extractor => extractor.name).join(', ')}`))
+  );
+
+  let reader: SourceReader = new WorkingTreeReader();
+  let onlyFiles: string[] | undefined;
+  if (options.ref || options.changedSince) {
+    const repository = await GitRepository.open(targetPath);
+    if (options.ref) {
+      const commit = await repository.resolveCommit(options.ref);
+      reader = repository.createReader(commit);
+      log(chalk.blue(`🌿 Reading revision ${options.ref} (${commit.slice(0, 12)})`));
+    }
+    if (options.changedSince) {
+      onlyFiles = await repository.changedFiles(options.changedSince, options.ref);
+      log(chalk.blue(`🌿 ${onlyFiles.length} files changed since ${options.changedSince}`));
+    }
+  }
+
+  const workers = options.workers ?? config?.scan?.workers;
+  if (workers) {
+    log(chalk.blue(`🧵 Extracting with ${workers} worker threads`));
+  }
+
+  const cache = options.cache !== false && config?.cache?.enabled !== false
+    ? await ScanCache.open(targetPath, config?.cache?.directory)
+    : undefined;
+
+  const progress = options.progress ? new ProgressReporter() : undefined;
+  const result = await new FileScanner(registry, reader).scanDirectory(targetPath, {
+    onlyFiles,
+    include: config?.include,
+    exclude: config?.exclude,
+    concurrency: options.concurrency ?? config?.scan?.concurrency,
+    workers,
+    onProgress: progress && (update => progress.update(update)),
+    cache
+  });
+  progress?.clear();
+
+  if (cache) {
+    const { endpointHits, endpointMisses } = cache.stats;
+    if (endpointHits > 0) {
+      log(chalk.blue(`💾 Reused cached endpoints of ${endpointHits} of ${endpointHits + endpointMisses} files`));
+    }
+    await saveCache(cache, log);
+  }
+  return { result, reader, cache };
+}
+
+// A read-only cache directory should not fail the scan
+async function saveCache(cache: ScanCache, log: (message: string) => void): Promise<void> {
+  try {
+    await cache.save();
+  } catch (error) {
+    log(chalk.yellow(`⚠️  Could not write the scan cache: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  }
+}
+
+async function analyzeCoverage(
+  targetPath: string,
+  result: ScanResult,
+  options: { drift?: boolean; crossModule?: boolean; reader?: SourceReader; config?: ProjectConfig; cache?: ScanCache },
+  log: (message: string) => void
+): Promise<ScanResultWithCoverage> {
+  log(chalk.blue('🔍 Looking for API specifications...'));
+
+  const specFinder = new ApiSpecFinder(log, options.reader, options.cache);
+  const coverageAnalyzer = new CoverageAnalyzer();
+  const moduleDetector = new ModuleDetector(options.reader);
+
+  const apiSpecs = await specFinder.findApiSpecs(targetPath, {
+    files: options.config?.specs?.files,
+    exclude: [...(options.config?.exclude || []), ...(options.config?.specs?.exclude || [])]
+  });
+  if (options.cache) {
+    const { specHits, specMisses } = options.cache.stats;
+    if (specHits > 0) {
+      log(chalk.blue(`💾 Reused ${specHits} of ${specHits + specMisses} parsed spec files`));
+    }
+    await saveCache(options.cache, log);
+  }
+  const modules = await moduleDetector.findModules(targetPath);
+  const coverageOptions = { modules, crossModule: options.crossModule };
+  const endpointsWithCoverage = coverageAnalyzer.analyzeEndpointCoverage(result.endpoints, apiSpecs, coverageOptions);
+
+  return {
+    ...result,
+    endpoints: endpointsWithCoverage,
+    apiSpecs: apiSpecs.map(spec => ({
+      filePath: spec.filePath,
+      type: spec.type,
+      version: spec.version,
+      basePaths: spec.basePaths,
+      endpointCount: spec.endpoints.length,
+      module: moduleDetector.findModule(spec.filePath, modules)?.name
+    })),
+    ...(options.drift && { specDrift: coverageAnalyzer.analyzeSpecDrift(endpointsWithCoverage, apiSpecs, coverageOptions) })
+  };
+}
 
 async function runEndpointScan(options: InteractiveOptions): Promise<void> {
-  const { directory, summary, quiet, csv, apiSpec } = options;
-  
+  const { directory, summary, quiet, apiSpec, drift, crossModule, extractors, output, groupBy, details, baseline, ref, changedSince, concurrency, workers } = options;
   
   try {
     const targetPath = resolve(directory);
@@ -24,72 +163,125 @@ async function runEndpointScan(options: InteractiveOptions): Promise<void> {
       process.exit(1);
     }
 
-    console.log(chalk.blue(`🔍 Scanning directory: ${targetPath}`));
+    // Command-line flags win over the config file
+    const config = await new ProjectConfigLoader().load(targetPath, options.config);
+    const format = options.format ?? config?.output?.format ?? 'table';
+    const csv = options.csv && (config?.output?.csv ?? true);
+    // JSON, NDJSON and Markdown go to stdout unless a file is given; progress then moves to stderr
+    const toStdout = output === '-' || (output === undefined && (format === 'json' || format === 'ndjson' || format === 'markdown'));
+    const log = toStdout ? console.error : console.log;
+
+    log(chalk.blue(`🔍 Scanning directory: ${targetPath}`));
+    if (config) {
+      log(chalk.blue(`⚙️  Using config: ${config.filePath}`));
+    }
     
-    const scanner = new FileScanner();
     const formatter = new OutputFormatter();
-    const csvExporter = new CsvExporter();
+    const csvExporter = new CsvExporter(config?.output?.directory);
+    const jsonExporter = new JsonExporter();
     
-    const result = await scanner.scanDirectory(targetPath);
+    const { result, reader, cache } = await scanProject(targetPath, {
+      extractors: extractors || [],
+      ref,
+      changedSince,
+      config,
+      concurrency,
+      workers,
+      progress: options.progress ?? true,
+      cache: options.cache
+    }, log);
+    let report: ScanResult | ScanResultWithCoverage = result;
     
-    if (apiSpec) {
-      console.log(chalk.blue('🔍 Looking for API specifications...'));
-      
-      const specFinder = new ApiSpecFinder();
-      const coverageAnalyzer = new CoverageAnalyzer();
-      
-      const apiSpecs = await specFinder.findApiSpecs(targetPath);
-      const endpointsWithCoverage = coverageAnalyzer.analyzeEndpointCoverage(result.endpoints, apiSpecs);
-      
-      const resultWithCoverage: ScanResultWithCoverage = {
-        ...result,
-        endpoints: endpointsWithCoverage,
-        apiSpecs: apiSpecs.map(spec => ({
-          filePath: spec.filePath,
-          type: spec.type,
-          version: spec.version,
-          endpointCount: spec.endpoints.length
-        }))
-      };
+    if (apiSpec || drift) {
+      const resultWithCoverage = await analyzeCoverage(targetPath, result, { drift, crossModule, reader, config, cache }, log);
+      const endpointsWithCoverage = resultWithCoverage.endpoints;
+      report = resultWithCoverage;
 
-      if (apiSpecs.length > 0) {
-        console.log(formatter.formatApiSpecsInfo(resultWithCoverage.apiSpecs));
-      } else {
-        console.log(chalk.yellow('⚠️  No API specifications found'));
-      }
+      if (format === 'table') {
+        if (resultWithCoverage.apiSpecs.length > 0) {
+          console.log(formatter.formatApiSpecsInfo(resultWithCoverage.apiSpecs));
+        } else {
+          console.log(chalk.yellow('⚠️  No API specifications found'));
+        }
 
-      if (!quiet) {
-        console.log(formatter.formatResultsWithCoverage(resultWithCoverage));
-      }
-      
-      if (summary) {
-        console.log(formatter.formatSummary(result));
-        console.log(formatter.formatCoverageSummary(endpointsWithCoverage));
+        if (!quiet) {
+          console.log(formatter.formatResultsWithCoverage(resultWithCoverage));
+        }
+        
+        if (summary) {
+          console.log(formatter.formatSummary(result));
+          console.log(formatter.formatCoverageSummary(endpointsWithCoverage));
+        }
+
+        if (resultWithCoverage.specDrift) {
+          console.log(formatter.formatSpecDrift(resultWithCoverage.specDrift, !quiet));
+        }
       }
 
-      if (csv) {
-        const csvPath = csvExporter.generateOutputPath(targetPath);
+      if ((format === 'table' && csv) || (format === 'csv' && !toStdout)) {
+        const csvPath = output ? resolve(output) : csvExporter.generateOutputPath(targetPath);
         await csvExporter.exportToCsvWithCoverage(resultWithCoverage, csvPath);
-        console.log(chalk.green(`📄 CSV with coverage exported to: ${csvPath}`));
+        log(chalk.green(`📄 CSV with coverage exported to: ${csvPath}`));
+
+        if (resultWithCoverage.specDrift) {
+          // Next to the coverage CSV: `-o reports/api.csv` gives `reports/api-drift.csv`
+          const driftCsvPath = output
+            ? join(dirname(csvPath), `${basename(csvPath, extname(csvPath))}-drift.csv`)
+            : csvExporter.generateOutputPath(targetPath, 'drift');
+          const driftJsonPath = driftCsvPath.replace(/\.csv$/, '.json');
+          await csvExporter.exportSpecDriftToCsv(resultWithCoverage.specDrift, driftCsvPath);
+          await jsonExporter.exportSpecDrift(resultWithCoverage.specDrift, driftJsonPath);
+          log(chalk.green(`📄 Spec drift exported to: ${driftCsvPath} and ${driftJsonPath}`));
+        }
       }
     } else {
-      if (!quiet) {
-        console.log(formatter.formatResults(result));
-      }
-      
-      if (summary) {
-        console.log(formatter.formatSummary(result));
+      if (format === 'table') {
+        if (!quiet) {
+          console.log(formatter.formatResults(result));
+        }
+        
+        if (summary) {
+          console.log(formatter.formatSummary(result));
+        }
       }
 
-      if (csv) {
-        const csvPath = csvExporter.generateOutputPath(targetPath);
+      if ((format === 'table' && csv) || (format === 'csv' && !toStdout)) {
+        const csvPath = output ? resolve(output) : csvExporter.generateOutputPath(targetPath);
         await csvExporter.exportToCsv(result, csvPath);
-        console.log(chalk.green(`📄 CSV exported to: ${csvPath}`));
+        log(chalk.green(`📄 CSV exported to: ${csvPath}`));
+      }
+    }
+
+    if (baseline) {
+      const baselinePath = resolve(baseline);
+      await jsonExporter.writeReport(jsonExporter.toJson(jsonExporter.createScanReport(report, targetPath)), baselinePath);
+      log(chalk.green(`📌 Baseline saved to: ${baselinePath}`));
+    }
+
+    if (format !== 'table' && (format !== 'csv' || toStdout)) {
+      const scanReport = jsonExporter.createScanReport(report, targetPath);
+      let content: string;
+      switch (format) {
+        case 'json': content = jsonExporter.toJson(scanReport); break;
+        case 'ndjson': content = jsonExporter.toNdjson(scanReport); break;
+        case 'html': content = new HtmlExporter().render(report, targetPath); break;
+        case 'markdown': content = new MarkdownFormatter().format(report, { directory: targetPath, groupBy, details }); break;
+        default: content = `${csvExporter.toCsv(report)}\n`;
+      }
+
+      if (toStdout) {
+        process.stdout.write(content);
+      } else {
+        // HTML lands next to the CSV exports unless --output says otherwise
+        const reportPath = output ? resolve(output) : csvExporter.generateOutputPath(targetPath, 'report').replace(/\.csv$/, `.${format}`);
+        await jsonExporter.writeReport(content, reportPath);
+        const schemaText = format === 'json' || format === 'ndjson' ? ` (schema ${scanReport.schemaVersion})` : '';
+        log(chalk.green(`📄 ${format === 'markdown' ? 'Markdown' : format.toUpperCase()} report${schemaText} written to: ${reportPath}`));
       }
     }
     
     if (result.endpoints.length === 0 && result.errors.length === 0) {
-      console.log(chalk.yellow('⚠️  No Java or Scala files found in the specified directory'));
+      log(chalk.yellow('⚠️  No Java or Scala files found in the specified directory'));
       process.exit(0);
     }
     
@@ -103,6 +295,281 @@ async function runEndpointScan(options: InteractiveOptions): Promise<void> {
   }
 }
 
+interface CheckCommandOptions {
+  minCoverage?: number;
+  minMethodCoverage: Record<string, number>;
+  failOnUndocumented?: boolean;
+  failOnSpecDrift?: boolean;
+  crossModule?: boolean;
+  quiet?: boolean;
+  ref?: string;
+  changedSince?: string;
+  config?: string;
+  concurrency?: number;
+  workers?: number;
+  progress: boolean;
+  cache: boolean;
+  extractor: string[];
+}
+
+async function runCheck(directory: string, options: CheckCommandOptions): Promise<void> {
+  try {
+    const targetPath = resolve(directory);
+
+    if (!existsSync(targetPath)) {
+      console.error(chalk.red(`❌ Directory not found: ${targetPath}`));
+      process.exit(1);
+    }
+
+    // Command-line flags win over the config file's `check` section
+    const config = await new ProjectConfigLoader().load(targetPath, options.config);
+    const thresholds: CheckThresholds = {
+      minCoverage: options.minCoverage ?? config?.check?.minCoverage,
+      methodCoverage: { ...config?.check?.minMethodCoverage, ...options.minMethodCoverage },
+      failOnUndocumented: options.failOnUndocumented ?? config?.check?.failOnUndocumented ?? false,
+      failOnSpecDrift: options.failOnSpecDrift ?? config?.check?.failOnSpecDrift ?? false
+    };
+    // Progress is noise in CI logs; only the verdict is printed with --quiet
+    const log = options.quiet ? () => {} : console.log;
+
+    log(chalk.blue(`🔍 Scanning directory: ${targetPath}`));
+    if (config) {
+      log(chalk.blue(`⚙️  Using config: ${config.filePath}`));
+    }
+
+    if (options.changedSince && thresholds.failOnSpecDrift) {
+      console.error(chalk.red('❌ --fail-on-spec-drift needs the whole tree and cannot be combined with --changed-since'));
+      process.exit(1);
+    }
+
+    const { result, reader, cache } = await scanProject(targetPath, {
+      extractors: options.extractor,
+      ref: options.ref,
+      changedSince: options.changedSince,
+      config,
+      concurrency: options.concurrency,
+      workers: options.workers,
+      progress: options.progress && !options.quiet,
+      cache: options.cache
+    }, log);
+    if (result.errors.length > 0 && result.endpoints.length === 0) {
+      for (const error of result.errors) {
+        console.error(chalk.red(`  • ${error}`));
+      }
+      process.exit(1);
+    }
+
+    const resultWithCoverage = await analyzeCoverage(targetPath, result, {
+      drift: thresholds.failOnSpecDrift,
+      crossModule: options.crossModule,
+      reader,
+      config,
+      cache
+    }, log);
+    if (resultWithCoverage.apiSpecs.length === 0) {
+      log(chalk.yellow('⚠️  No API specifications found'));
+    }
+
+    const checkResult = new CoverageGate().evaluate(resultWithCoverage, thresholds, targetPath);
+    console.log(new OutputFormatter().formatCheckResult(checkResult));
+    process.exit(checkResult.exitCode);
+  } catch (error) {
+    console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    process.exit(1);
+  }
+}
+
+// `--min-method-coverage POST=90`, repeatable
+function parseMethodThreshold(value: string, previous: Record<string, number>): Record<string, number> {
+  const match = value.match(/^([A-Za-z]+)=(\d+(?:\.\d+)?)$/);
+  if (!match || Number(match[2]) > 100) {
+    throw new InvalidArgumentError('Expected METHOD=PERCENT, e.g. POST=90');
+  }
+  const method = match[1].toUpperCase();
+  if (!HTTP_METHODS.includes(method as HttpMethod)) {
+    throw new InvalidArgumentError(`Unknown HTTP method ${match[1]}; expected one of ${HTTP_METHODS.join(', ')}`);
+  }
+  return { ...previous, [method]: Number(match[2]) };
+}
+
+function parseCount(value: string, minimum: number): number {
+  const count = Number(value);
+  if (!/^\d+$/.test(value) || count < minimum) {
+    throw new InvalidArgumentError(`Expected a whole number of at least ${minimum}`);
+  }
+  return count;
+}
+
+function parsePercentage(value: string): number {
+  const percentage = Number(value);
+  if (value.trim() === '' || Number.isNaN(percentage) || percentage < 0 || percentage > 100) {
+    throw new InvalidArgumentError('Expected a percentage between 0 and 100');
+  }
+  return percentage;
+}
+
+interface DiffCommandOptions {
+  format: string;
+  output?: string;
+  quiet?: boolean;
+  crossModule?: boolean;
+  ref?: string;
+  config?: string;
+  concurrency?: number;
+  workers?: number;
+  progress: boolean;
+  cache: boolean;
+  extractor: string[];
+}
+
+async function runDiff(baselineFile: string, target: string, options: DiffCommandOptions): Promise<void> {
+  const format = options.format as DiffFormat;
+  const toStdout = options.output === '-' || (options.output === undefined && format !== 'table');
+  const log = toStdout ? console.error : console.log;
+
+  try {
+    if (!DIFF_FORMATS.includes(format)) {
+      console.error(chalk.red(`❌ Unsupported format: ${options.format} (use ${DIFF_FORMATS.join(', ')})`));
+      process.exit(1);
+    }
+
+    const targetPath = resolve(target);
+    if (!existsSync(targetPath)) {
+      console.error(chalk.red(`❌ Not found: ${targetPath}`));
+      process.exit(1);
+    }
+
+    const differ = new ScanDiffer();
+    const jsonExporter = new JsonExporter();
+    const baseline = await differ.loadReport(resolve(baselineFile));
+
+    let current: ScanReport;
+    if (statSync(targetPath).isFile()) {
+      current = await differ.loadReport(targetPath);
+    } else {
+      log(chalk.blue(`🔍 Scanning directory: ${targetPath}`));
+      const config = await new ProjectConfigLoader().load(targetPath, options.config);
+      const { result, reader, cache } = await scanProject(targetPath, {
+        extractors: options.extractor,
+        ref: options.ref,
+        config,
+        concurrency: options.concurrency,
+        workers: options.workers,
+        progress: options.progress,
+        cache: options.cache
+      }, log);
+      // Coverage is compared only when the baseline has it
+      const report = baseline.apiSpecs !== null
+        ? await analyzeCoverage(targetPath, result, { crossModule: options.crossModule, reader, config, cache }, log)
+        : result;
+      current = jsonExporter.createScanReport(report, targetPath);
+    }
+
+    const diff = differ.diff(baseline, current);
+    if (format === 'table' && !options.output) {
+      console.log(new OutputFormatter().formatScanDiff(diff, !options.quiet));
+      return;
+    }
+
+    const content = format === 'markdown'
+      ? new MarkdownFormatter().formatDiff(diff)
+      : format === 'json' ? jsonExporter.toJson(diff) : `${stripVTControlCharacters(new OutputFormatter().formatScanDiff(diff, !options.quiet))}\n`;
+    if (toStdout) {
+      process.stdout.write(content);
+    } else {
+      const outputPath = resolve(options.output!);
+      await jsonExporter.writeReport(content, outputPath);
+      log(chalk.green(`📄 Diff written to: ${outputPath}`));
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    process.exit(1);
+  }
+}
+
+interface GenerateSpecCommandOptions {
+  openapi: string;
+  format?: string;
+  output?: string;
+  title?: string;
+  config?: string;
+  cache: boolean;
+  extractor: string[];
+}
+
+async function runGenerateSpec(directory: string, options: GenerateSpecCommandOptions): Promise<void> {
+  try {
+    const targetPath = resolve(directory);
+
+    if (!existsSync(targetPath)) {
+      console.error(chalk.red(`❌ Directory not found: ${targetPath}`));
+      process.exit(1);
+    }
+
+    if (options.openapi !== '3.0' && options.openapi !== '3.1') {
+      console.error(chalk.red(`❌ Unsupported OpenAPI version: ${options.openapi} (use 3.0 or 3.1)`));
+      process.exit(1);
+    }
+
+    // Without --format the extension of --output decides, YAML otherwise
+    const format = options.format ?? (options.output?.toLowerCase().endsWith('.json') ? 'json' : 'yaml');
+    if (format !== 'yaml' && format !== 'json') {
+      console.error(chalk.red(`❌ Unsupported format: ${format} (use yaml or json)`));
+      process.exit(1);
+    }
+
+    console.log(chalk.blue(`🔍 Scanning directory: ${targetPath}`));
+    // Same source files and extractors as `scan`
+    const config = await new ProjectConfigLoader().load(targetPath, options.config);
+    if (config) {
+      console.log(chalk.blue(`⚙️  Using config: ${config.filePath}`));
+    }
+
+    const { result } = await scanProject(targetPath, {
+      extractors: options.extractor,
+      config,
+      cache: options.cache
+    }, console.log);
+    for (const error of result.errors) {
+      console.log(chalk.red(`  • ${error}`));
+    }
+
+    const generator = new OpenApiGenerator();
+    const document = generator.generate(result, {
+      version: options.openapi as OpenApiVersion,
+      sourceRoot: targetPath,
+      title: options.title
+    });
+    const outputPath = options.output ? resolve(options.output) : generator.generateOutputPath(targetPath, format as SpecFormat);
+
+    await generator.writeSpec(document, format as SpecFormat, outputPath);
+    const operations = generator.countOperations(document);
+    console.log(chalk.green(`📋 OpenAPI ${options.openapi} draft with ${operations} ${operations === 1 ? 'operation' : 'operations'} written to: ${outputPath}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    process.exit(1);
+  }
+}
+
+interface CacheClearCommandOptions {
+  config?: string;
+}
+
+// With a directory only that project's cache goes, from its configured cache directory
+async function runCacheClear(directory: string | undefined, options: CacheClearCommandOptions): Promise<void> {
+  try {
+    const targetPath = directory ? resolve(directory) : undefined;
+    const config = targetPath ? await new ProjectConfigLoader().load(targetPath, options.config) : undefined;
+    const cacheDirectory = config?.cache?.directory ?? ScanCache.defaultDirectory();
+
+    const removed = await ScanCache.clear(cacheDirectory, targetPath);
+    console.log(chalk.green(`🧹 Removed ${removed} cache ${removed === 1 ? 'file' : 'files'} from ${cacheDirectory}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    process.exit(1);
+  }
+}
+
 // Main CLI logic
 async function main(): Promise<void> {
   const program = new Command();
@@ -136,6 +603,21 @@ async function main(): Promise<void> {
     .option('-q, --quiet', 'Suppress detailed output')
     .option('--no-csv', 'Skip CSV export (exports by default)')
     .option('--api-spec', 'Look for API specifications and analyze coverage')
+    .option('--drift', 'Report spec operations missing from code and endpoints missing from specs (implies --api-spec)')
+    .option('--cross-module', 'Match endpoints against specs of every module, not just their own')
+    .option('--format <format>', `Output format: ${OUTPUT_FORMATS.join(', ')} (default: table)`)
+    .option('-o, --output <file>', 'Report file for json, ndjson, csv, html and markdown formats; - for stdout (default: stdout for json/ndjson/markdown)')
+    .option('--group-by <grouping>', 'Markdown tables per file or controller', 'file')
+    .option('--details', 'Add a collapsed endpoint details section to the Markdown report')
+    .option('--save-baseline <file>', 'Also save the scan as a JSON baseline for the diff command')
+    .option('--ref <revision>', 'Scan the files of a git revision instead of the working tree')
+    .option('--changed-since <revision>', 'Only extract endpoints from files changed since a git revision')
+    .option('--config <file>', 'Config file (default: .endpointscraper.yaml/.yml/.json in the directory)')
+    .option('--concurrency <files>', 'Files read at the same time (default: 16)', value => parseCount(value, 1))
+    .option('--workers <threads>', 'Worker threads for endpoint extraction; 0 extracts on the main thread (default: 0)', value => parseCount(value, 0))
+    .option('--no-progress', 'Hide the progress line on stderr')
+    .option('--no-cache', 'Extract every file and parse every spec again, without reading or writing the scan cache')
+    .option('--extractor <modulePath>', 'Load additional extractors from a local module (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
     .action(async (directory: string, options) => {
       const targetPath = resolve(directory);
       
@@ -144,17 +626,109 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
+      if (options.format !== undefined && !OUTPUT_FORMATS.includes(options.format)) {
+        console.error(chalk.red(`❌ Unsupported format: ${options.format} (use ${OUTPUT_FORMATS.join(', ')})`));
+        process.exit(1);
+      }
+
+      if (options.changedSince && options.drift) {
+        console.error(chalk.red('❌ --drift needs the whole tree and cannot be combined with --changed-since'));
+        process.exit(1);
+      }
+
+      if (options.groupBy !== 'file' && options.groupBy !== 'controller') {
+        console.error(chalk.red(`❌ Unsupported grouping: ${options.groupBy} (use file or controller)`));
+        process.exit(1);
+      }
+
       const scanOptions: InteractiveOptions = {
         directory: targetPath,
         summary: options.summary || false,
         quiet: options.quiet || false,
         csv: options.csv !== false,
-        apiSpec: options.apiSpec || false
+        apiSpec: options.apiSpec || options.drift || false,
+        drift: options.drift || false,
+        crossModule: options.crossModule || false,
+        extractors: options.extractor,
+        format: options.format as OutputFormat,
+        output: options.output,
+        groupBy: options.groupBy,
+        details: options.details || false,
+        baseline: options.saveBaseline,
+        ref: options.ref,
+        changedSince: options.changedSince,
+        config: options.config,
+        concurrency: options.concurrency,
+        workers: options.workers,
+        progress: options.progress,
+        cache: options.cache
       };
 
       await runEndpointScan(scanOptions);
     });
 
+  program
+    .command('check')
+    .description('Fail the build when API spec coverage is below the given thresholds')
+    .argument('<directory>', 'Directory path to scan for endpoints')
+    .option('--min-coverage <percent>', 'Minimum coverage of endpoints with a spec in scope (0-100)', parsePercentage)
+    .option('--min-method-coverage <method=percent>', 'Minimum coverage for one HTTP method, e.g. POST=90 (repeatable)', parseMethodThreshold, {})
+    .option('--fail-on-undocumented', 'Fail when any endpoint is missing from its spec')
+    .option('--fail-on-spec-drift', 'Fail when specs and code disagree in either direction')
+    .option('--cross-module', 'Match endpoints against specs of every module, not just their own')
+    .option('-q, --quiet', 'Print only the check summary')
+    .option('--ref <revision>', 'Check the files of a git revision instead of the working tree')
+    .option('--changed-since <revision>', 'Only check endpoints in files changed since a git revision')
+    .option('--config <file>', 'Config file (default: .endpointscraper.yaml/.yml/.json in the directory)')
+    .option('--concurrency <files>', 'Files read at the same time (default: 16)', value => parseCount(value, 1))
+    .option('--workers <threads>', 'Worker threads for endpoint extraction; 0 extracts on the main thread (default: 0)', value => parseCount(value, 0))
+    .option('--no-progress', 'Hide the progress line on stderr')
+    .option('--no-cache', 'Extract every file and parse every spec again, without reading or writing the scan cache')
+    .option('--extractor <modulePath>', 'Load additional extractors from a local module (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+    .action(runCheck);
+
+  program
+    .command('diff')
+    .description('Compare a saved baseline with the current scan of a directory, or with another saved scan')
+    .argument('<baseline>', 'Baseline file saved with --save-baseline or --format json')
+    .argument('[target]', 'Directory to scan, or a second saved scan', '.')
+    .option('--format <format>', `Output format: ${DIFF_FORMATS.join(', ')}`, 'table')
+    .option('-o, --output <file>', 'Write the diff to a file; - for stdout (default: stdout for json/markdown)')
+    .option('-q, --quiet', 'Show only the counts')
+    .option('--ref <revision>', 'Scan the target directory at a git revision')
+    .option('--config <file>', 'Config file (default: .endpointscraper.yaml/.yml/.json in the target directory)')
+    .option('--concurrency <files>', 'Files read at the same time (default: 16)', value => parseCount(value, 1))
+    .option('--workers <threads>', 'Worker threads for endpoint extraction; 0 extracts on the main thread (default: 0)', value => parseCount(value, 0))
+    .option('--no-progress', 'Hide the progress line on stderr')
+    .option('--no-cache', 'Extract every file and parse every spec again, without reading or writing the scan cache')
+    .option('--cross-module', 'Match endpoints against specs of every module, not just their own')
+    .option('--extractor <modulePath>', 'Load additional extractors from a local module (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+    .action(runDiff);
+
+  program
+    .command('generate-spec')
+    .description('Generate a draft OpenAPI document from the scanned endpoints')
+    .argument('<directory>', 'Directory path to scan for endpoints')
+    .option('--openapi <version>', 'OpenAPI version: 3.0 or 3.1', '3.0')
+    .option('--format <format>', 'Output format: yaml or json (default: from --output, else yaml)')
+    .option('-o, --output <file>', 'Output file (default: <directory>/openapi.generated.<format>)')
+    .option('--title <title>', 'API title (default: "<directory name> API")')
+    .option('--config <file>', 'Config file (default: .endpointscraper.yaml/.yml/.json in the directory)')
+    .option('--no-cache', 'Extract every file again, without reading or writing the scan cache')
+    .option('--extractor <modulePath>', 'Load additional extractors from a local module (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+    .action(runGenerateSpec);
+
+  const cache = program
+    .command('cache')
+    .description('Manage the scan cache of extracted endpoints and parsed specs');
+
+  cache
+    .command('clear')
+    .description('Remove cached scan results')
+    .argument('[directory]', 'Only clear the cache of this scanned directory (default: every project)')
+    .option('--config <file>', 'Config file with cache.directory (default: .endpointscraper.yaml/.yml/.json in the directory)')
+    .action(runCacheClear);
+
   // Quick mode - just ask for directory
   program
     .command('quick')
@@ -5,9 +5,27 @@ export interface Endpoint {
   lineNumber: number;
   className?: string;
   methodName?: string;
+  parameters?: EndpointParameter[];
+  // Type of the request body, e.g. `CreateUserRequest` for a `@RequestBody` parameter
+  requestBody?: string;
+  returnType?: string;
+  consumes?: string[];
+  produces?: string[];
 }
 
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export interface EndpointParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  type?: string;
+  required?: boolean;
+}
+
+// `ANY` marks routes that accept every method, e.g. a `@RequestMapping` without `method`
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'TRACE' | 'ANY';
+
+export const NAMED_HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE'];
+
+export const HTTP_METHODS: HttpMethod[] = [...NAMED_HTTP_METHODS, 'ANY'];
 
 export interface ScanResult {
   totalFiles: number;
@@ -22,10 +40,26 @@ export interface ScanResultWithCoverage {
   endpoints: EndpointWithCoverage[];
   errors: string[];
   apiSpecs: ApiSpecInfo[];
+  specDrift?: SpecDriftReport;
 }
 
 export interface EndpointWithCoverage extends Endpoint {
   apiSpecCoverage: ApiSpecCoverage;
+  // Name of the nearest Maven/Gradle/sbt module, when the project has any
+  module?: string;
+}
+
+// `exact`: same path; `parameterised`: parameters under other names or patterns; `fuzzy`: literals paired with parameters or wildcards
+export type PathMatchType = 'exact' | 'parameterised' | 'fuzzy';
+
+export interface PathMatch {
+  type: PathMatchType;
+  // Higher is more specific; used to choose between candidate spec operations
+  score: number;
+  // Every non-exact segment pairing, e.g. `"me" matched {id}`
+  reasons: string[];
+  // Server base path the spec path was prefixed with
+  basePath?: string;
 }
 
 export interface ApiSpecCoverage {
@@ -37,11 +71,38 @@ export interface ApiSpecCoverage {
     operationId?: string;
     summary?: string;
   };
+  // For `ANY` endpoints: every documented method on the matched path
+  matchedMethods?: string[];
+  // Path, query and header parameters of the endpoint that the matched operation does not document
+  undocumentedParameters?: string[];
+  // Not-covered endpoints whose path the spec documents with other methods
+  documentedMethods?: string[];
+  // How the endpoint path was paired with the spec path of `matchedEndpoint`. Not-covered
+  // endpoints keep their closest `fuzzy` candidate here, as a hint: fuzzy matches never cover
+  pathMatch?: PathMatch;
+}
+
+// Both directions of spec drift: documented but not implemented, implemented but not documented
+export interface SpecDriftReport {
+  missingInCode: SpecOperationDrift[];
+  missingInSpec: EndpointWithCoverage[];
+}
+
+export interface SpecOperationDrift {
+  specFile: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  // Methods the code implements on the same path when only the method differs
+  implementedMethods?: string[];
 }
 
 export interface ApiSpecInfo {
   filePath: string;
   type: 'openapi' | 'swagger';
   version: string;
+  basePaths: string[];
   endpointCount: number;
+  module?: string;
 }
\ No newline at end of file
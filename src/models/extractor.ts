@@ -0,0 +1,25 @@
+import type { Endpoint } from './endpoint';
+
+/**
+ * Contract for framework support. Built-in extractors implement it, and extra
+ * extractors can be loaded from local modules (see `ExtractorRegistry.loadModule`).
+ */
+export interface EndpointExtractor {
+  name: string;
+  // Bump when the extracted endpoints change; results of extractors without a version are not cached
+  version?: string;
+  // Glob patterns, relative to the scanned directory, of the files this extractor reads
+  filePatterns: string[];
+  canHandle(filePath: string, content: string): boolean;
+  // Cheap pre-filter: files containing none of these substrings are not extracted (still indexed)
+  routeTokens?: string[];
+  extract(filePath: string, content: string): Endpoint[] | Promise<Endpoint[]>;
+  // Optional pass over every handled file before extraction, for cross-file information
+  index?(filePath: string, content: string): void | Promise<void>;
+  // Split form of `index`, used instead when both are present: what one file contributes, as structured-cloneable
+  // data (`undefined` for nothing), and how to add it. The scanner indexes once and replays the data in worker threads
+  collectIndex?(filePath: string, content: string): unknown;
+  applyIndex?(data: unknown): void;
+  // Digest of the state `index` collected; without it, results of an extractor with `index` are not cached
+  indexFingerprint?(): string;
+}
@@ -0,0 +1,69 @@
+import type { ReportEndpoint } from './scan-report';
+
+export const SCAN_DIFF_SCHEMA_VERSION = '1.0';
+
+export type DiffFormat = 'table' | 'json' | 'markdown';
+
+export const DIFF_FORMATS: DiffFormat[] = ['table', 'json', 'markdown'];
+
+// Endpoints are paired by method and normalised path (`/users/{id}` equals `/users/:userId`)
+export interface ScanDiff {
+  schemaVersion: string;
+  generatedAt: string;
+  baseline: ScanDiffSource;
+  current: ScanDiffSource;
+  summary: ScanDiffSummary;
+  added: ReportEndpoint[];
+  removed: ReportEndpoint[];
+  // API changes: path spelling, parameters, bodies, media types, coverage
+  changed: EndpointChange[];
+  // Same API, different file, class or handler; line-only shifts are ignored
+  moved: EndpointMove[];
+}
+
+export interface ScanDiffSource {
+  directory: string;
+  generatedAt: string;
+  endpointCount: number;
+  // Covered share as in the report summary; `null` without coverage
+  coveragePercentage: number | null;
+}
+
+export interface ScanDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  moved: number;
+  unchanged: number;
+}
+
+export interface EndpointChange {
+  method: string;
+  path: string;
+  baseline: ReportEndpoint;
+  current: ReportEndpoint;
+  changes: FieldChange[];
+}
+
+export type DiffField = 'path' | 'parameters' | 'requestBody' | 'returnType' | 'consumes' | 'produces' | 'coverage';
+
+export interface FieldChange {
+  field: DiffField;
+  before: string | null;
+  after: string | null;
+}
+
+export interface EndpointMove {
+  method: string;
+  path: string;
+  from: SourceLocation;
+  to: SourceLocation;
+}
+
+// `filePath` is relative to the scanned directory, so checkouts in other places compare equal
+export interface SourceLocation {
+  filePath: string;
+  lineNumber: number;
+  className: string | null;
+  methodName: string | null;
+}
@@ -0,0 +1,98 @@
+import type { ApiSpecCoverage, EndpointParameter, PathMatch } from './endpoint';
+
+/**
+ * Version of the machine-readable report (`--format json|ndjson`), described by
+ * `schemas/scan-report.v1.json`. Adding fields is a minor bump; renaming or removing
+ * fields, or changing their meaning, is a major bump.
+ */
+export const SCAN_REPORT_SCHEMA_VERSION = '1.0';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv' | 'html' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv', 'html', 'markdown'];
+
+// Every key is always present; missing values are `null` or empty arrays
+export interface ScanReport {
+  schemaVersion: string;
+  generatedAt: string;
+  directory: string;
+  summary: ScanReportSummary;
+  // `null` when no API specification analysis ran
+  apiSpecs: ReportApiSpec[] | null;
+  endpoints: ReportEndpoint[];
+  errors: string[];
+  // `null` unless a drift report was requested
+  specDrift: ReportSpecDrift | null;
+}
+
+export interface ScanReportSummary {
+  totalFiles: number;
+  scannedFiles: number;
+  endpointCount: number;
+  errorCount: number;
+  methods: Record<string, number>;
+  coverage: ReportCoverageSummary | null;
+}
+
+export interface ReportCoverageSummary {
+  covered: number;
+  notCovered: number;
+  noSpecFound: number;
+  // Covered share of the endpoints with a spec in scope, 0-100 with one decimal
+  percentage: number | null;
+}
+
+export interface ReportApiSpec {
+  filePath: string;
+  type: 'openapi' | 'swagger';
+  version: string;
+  basePaths: string[];
+  endpointCount: number;
+  module: string | null;
+}
+
+export interface ReportEndpoint {
+  method: string;
+  path: string;
+  filePath: string;
+  lineNumber: number;
+  className: string | null;
+  methodName: string | null;
+  parameters: EndpointParameter[];
+  requestBody: string | null;
+  returnType: string | null;
+  consumes: string[];
+  produces: string[];
+  module: string | null;
+  coverage: ReportCoverage | null;
+}
+
+export interface ReportCoverage {
+  status: ApiSpecCoverage['status'];
+  specFile: string | null;
+  operation: ReportOperation | null;
+  matchedMethods: string[];
+  documentedMethods: string[];
+  undocumentedParameters: string[];
+  pathMatch: PathMatch | null;
+}
+
+export interface ReportOperation {
+  method: string;
+  path: string;
+  operationId: string | null;
+  summary: string | null;
+}
+
+export interface ReportSpecDrift {
+  missingInCode: Array<ReportOperation & { specFile: string; implementedMethods: string[] }>;
+  missingInSpec: Array<{
+    method: string;
+    path: string;
+    filePath: string;
+    lineNumber: number;
+    className: string | null;
+    methodName: string | null;
+    documentedMethods: string[];
+  }>;
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AkkaHttpRouteExtractor } from './akka-http-extractor';
+
+function extract(content: string): string[] {
+  return new AkkaHttpRouteExtractor().extract('/project/Routes.scala', content)
+    .map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.className}`);
+}
+
+test('nested path directives compose into one route per method', () => {
+  const content = `
+import akka.http.scaladsl.server.Directives._
+
+class UserRoutes {
+  val route = pathPrefix("api" / "v1") {
+    path("users" / Segment) { userId =>
+      get { complete(getUser(userId)) } ~
+      delete { complete(deleteUser(userId)) }
+    } ~
+    (post & path("users")) { complete(create()) }
+  }
+}
+`;
+
+  assert.deepEqual(extract(content), [
+    'GET /api/v1/users/{userId} UserRoutes',
+    'DELETE /api/v1/users/{userId} UserRoutes',
+    'POST /api/v1/users UserRoutes'
+  ]);
+});
+
+test('routes after a nested object belong to the enclosing class again', () => {
+  const content = `
+import akka.http.scaladsl.server.Directives._
+
+class OrderRoutes {
+  object Codecs {
+    val format = 1
+  }
+
+  val route = path("orders") { get { complete(list()) } }
+}
+`;
+
+  assert.deepEqual(extract(content), ['GET /orders OrderRoutes']);
+});
+
+test('a body-less object does not own the routes after it', () => {
+  const content = `
+import org.apache.pekko.http.scaladsl.server.Directives._
+
+object HealthRoutes {
+  case object Healthy extends Status(200)
+
+  val route = path("health") { get { complete(Healthy) } }
+}
+`;
+
+  assert.deepEqual(extract(content), ['GET /health HealthRoutes']);
+});
+
+test('Pekko routes in concat lists name extractions and fall back to ANY without a method', () => {
+  const content = `
+import org.apache.pekko.http.scaladsl.server.Directives._
+
+object OrderRoutes {
+  val route: Route = pathPrefix("orders") {
+    concat(
+      pathEnd {
+        concat(
+          get { complete(list()) },
+          post { entity(as[CreateOrder]) { order => complete(create(order)) } }
+        )
+      },
+      path(IntNumber / "items" / JavaUUID) { (orderId, itemId) =>
+        method(HttpMethods.PATCH) { complete(update(orderId, itemId)) }
+      },
+      path("export") { complete(exportAll()) }
+    )
+  }
+}
+`;
+
+  assert.deepEqual(extract(content), [
+    'GET /orders OrderRoutes',
+    'POST /orders OrderRoutes',
+    'PATCH /orders/{orderId}/items/{itemId} OrderRoutes',
+    'ANY /orders/export OrderRoutes'
+  ]);
+});
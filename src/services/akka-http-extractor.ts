@@ -0,0 +1,297 @@
+import { NAMED_HTTP_METHODS, type Endpoint, type HttpMethod } from '@/models/endpoint';
+import { JavaSourceParser, type JavaToken } from './java-source-parser';
+
+const METHOD_DIRECTIVES: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS'
+};
+
+const PATH_DIRECTIVES = ['path', 'pathPrefix', 'rawPathPrefix', 'pathPrefixTest', 'rawPathPrefixTest'];
+
+const PATH_END_DIRECTIVES = ['pathEnd', 'pathEndOrSingleSlash', 'pathSingleSlash'];
+
+// Statements that end a body-less `object X extends Y` before any `{` could open its body
+const STATEMENT_KEYWORDS = ['val', 'var', 'def', 'class', 'object', 'trait', 'type', 'import'];
+
+// Built-in path matchers that extract a value, with the placeholder used when the value is not named
+const EXTRACTING_MATCHERS: Record<string, string> = {
+  Segment: 'segment',
+  Segments: 'segments',
+  IntNumber: 'int',
+  LongNumber: 'long',
+  HexIntNumber: 'hexInt',
+  HexLongNumber: 'hexLong',
+  DoubleNumber: 'double',
+  JavaUUID: 'uuid',
+  Remaining: 'remaining',
+  RemainingPath: 'remaining'
+};
+
+// Directives that complete a request, marking a route that is served where it is declared
+const COMPLETING_DIRECTIVES = [
+  'complete', 'redirect', 'reject', 'failWith', 'handleWith',
+  'getFromFile', 'getFromResource', 'getFromDirectory', 'getFromResourceDirectory'
+];
+
+type PathElement = { type: 'literal'; value: string } | { type: 'extraction'; kind: string };
+
+interface DirectiveNode {
+  elements: PathElement[];
+  method?: HttpMethod;
+  line: number;
+  className?: string;
+  extractionNames: string[];
+  children: DirectiveNode[];
+  completes?: boolean;
+}
+
+interface RouteContext {
+  segments: string[];
+  method?: HttpMethod;
+}
+
+export class AkkaHttpRouteExtractor {
+  private parser = new JavaSourceParser();
+
+  canHandle(content: string): boolean {
+    return content.includes('akka.http') || content.includes('pekko.http');
+  }
+
+  extract(filePath: string, content: string): Endpoint[] {
+    const root = this.buildDirectiveTree(this.parser.tokenize(content));
+    const endpoints: Endpoint[] = [];
+
+    for (const child of root.children) {
+      this.collectEndpoints(child, { segments: [] }, filePath, endpoints);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Builds a tree of the path and method directives applied to each block.
+   * Brackets that do not follow a directive (`concat(...)`, `entity(as[T]) { ... }`,
+   * plain blocks) are transparent and keep the directive they are nested in.
+   */
+  private buildDirectiveTree(tokens: JavaToken[]): DirectiveNode {
+    const root: DirectiveNode = { elements: [], line: 0, extractionNames: [], children: [] };
+    const stack: DirectiveNode[] = [root];
+    let pending: DirectiveNode | null = null;
+    // One entry per open brace: a class body carries its name, any other block keeps the enclosing one.
+    // A declaration claims the next `{` at its own bracket depth, so one without a body never does
+    const classScopes: Array<string | undefined> = [];
+    let pendingClass: { name: string; depth: number } | undefined;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const current = stack[stack.length - 1];
+      const currentClassName = classScopes[classScopes.length - 1];
+
+      if (token.value === '{' && pendingClass?.depth === stack.length) {
+        classScopes.push(pendingClass.name);
+        pendingClass = undefined;
+      } else if (token.value === '{') {
+        classScopes.push(currentClassName);
+      } else if (token.value === '}') {
+        classScopes.pop();
+      }
+
+      if (token.value === '{' || token.value === '(') {
+        if (pending) {
+          if (token.value === '{') {
+            pending.extractionNames = this.readLambdaParameters(tokens, i + 1);
+          }
+          current.children.push(pending);
+          stack.push(pending);
+          pending = null;
+        } else {
+          stack.push(current);
+        }
+        continue;
+      }
+
+      if (token.value === '}' || token.value === ')') {
+        if (stack.length > 1) stack.pop();
+        continue;
+      }
+
+      if (token.type !== 'identifier' || tokens[i - 1]?.value === '.') {
+        continue;
+      }
+
+      if (COMPLETING_DIRECTIVES.includes(token.value)) {
+        current.completes = true;
+        continue;
+      }
+
+      if (pendingClass?.depth === stack.length && STATEMENT_KEYWORDS.includes(token.value)) {
+        pendingClass = undefined;
+      }
+
+      if (['class', 'object', 'trait'].includes(token.value) && tokens[i + 1]?.type === 'identifier') {
+        pendingClass = { name: tokens[i + 1].value, depth: stack.length };
+        continue;
+      }
+
+      const chain = this.readDirectiveChain(tokens, i);
+      if (!chain) {
+        continue;
+      }
+
+      const opener = tokens[chain.nextIndex]?.value;
+      const isParenthesized = tokens[i - 1]?.value === '(' && opener === ')' && tokens[chain.nextIndex + 1]?.value === '{';
+      if (opener === '{' || opener === '(' || isParenthesized) {
+        pending = { ...chain.node, className: currentClassName };
+      }
+      i = chain.nextIndex - 1;
+    }
+
+    return root;
+  }
+
+  // Reads `get`, `path("a" / Segment)` or combinations such as `get & path("a")`
+  private readDirectiveChain(tokens: JavaToken[], index: number): { node: DirectiveNode; nextIndex: number } | undefined {
+    const node: DirectiveNode = { elements: [], line: tokens[index].line, extractionNames: [], children: [] };
+    let matched = false;
+    let matchesPath = false;
+    let i = index;
+
+    while (i < tokens.length && tokens[i].type === 'identifier') {
+      const name = tokens[i].value;
+
+      if (METHOD_DIRECTIVES[name]) {
+        node.method = METHOD_DIRECTIVES[name];
+        i++;
+      } else if (name === 'method' && tokens[i + 1]?.value === '(') {
+        const end = this.findClosing(tokens, i + 1);
+        const methodName = tokens[end - 1]?.value.toUpperCase() as HttpMethod;
+        if (NAMED_HTTP_METHODS.includes(methodName)) {
+          node.method = methodName;
+        }
+        i = end + 1;
+      } else if (PATH_DIRECTIVES.includes(name) && tokens[i + 1]?.value === '(') {
+        const end = this.findClosing(tokens, i + 1);
+        node.elements.push(...this.parsePathMatcher(tokens.slice(i + 2, end)));
+        matchesPath = true;
+        i = end + 1;
+      } else if (PATH_END_DIRECTIVES.includes(name)) {
+        matchesPath = true;
+        i++;
+      } else {
+        break;
+      }
+
+      matched = true;
+      if (tokens[i]?.value === '&' && tokens[i + 1]?.type === 'identifier') {
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    // A bare `delete(id)` is a method call, not a directive applied to a route
+    if (!matchesPath && tokens[i]?.value === '(') {
+      return undefined;
+    }
+
+    return matched ? { node, nextIndex: i } : undefined;
+  }
+
+  private parsePathMatcher(tokens: JavaToken[]): PathElement[] {
+    const elements: PathElement[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'string') {
+        elements.push({ type: 'literal', value: token.value });
+      } else if (token.type === 'identifier' && EXTRACTING_MATCHERS[token.value] && tokens[i - 1]?.value !== '.') {
+        elements.push({ type: 'extraction', kind: EXTRACTING_MATCHERS[token.value] });
+      }
+    }
+
+    return elements;
+  }
+
+  // `{ id =>`, `{ (id, name) =>` and `{ case (id, name) =>` name the values extracted by the directive
+  private readLambdaParameters(tokens: JavaToken[], index: number): string[] {
+    let i = index;
+    if (tokens[i]?.value === 'case') i++;
+
+    if (tokens[i]?.type === 'identifier' && tokens[i + 1]?.value === '=' && tokens[i + 2]?.value === '>') {
+      return [tokens[i].value];
+    }
+
+    if (tokens[i]?.value !== '(') {
+      return [];
+    }
+
+    const names: string[] = [];
+    const end = this.findClosing(tokens, i);
+    let expectName = true;
+    for (let j = i + 1; j < end; j++) {
+      if (expectName && tokens[j].type === 'identifier') {
+        names.push(tokens[j].value);
+        expectName = false;
+      } else if (tokens[j].value === ',') {
+        expectName = true;
+      }
+    }
+
+    return tokens[end + 1]?.value === '=' && tokens[end + 2]?.value === '>' ? names : [];
+  }
+
+  private collectEndpoints(node: DirectiveNode, context: RouteContext, filePath: string, endpoints: Endpoint[]): void {
+    const names = [...node.extractionNames];
+    const segments = [
+      ...context.segments,
+      ...node.elements.map(element =>
+        element.type === 'literal' ? element.value : `{${names.shift() || element.kind}}`
+      )
+    ];
+    const next: RouteContext = { segments, method: node.method ?? context.method };
+
+    if (node.children.length > 0) {
+      for (const child of node.children) {
+        this.collectEndpoints(child, next, filePath, endpoints);
+      }
+      return;
+    }
+
+    // A completing route without a method directive accepts every method; other leaves
+    // delegate to routes defined elsewhere
+    if (!next.method && !node.completes) {
+      return;
+    }
+
+    endpoints.push({
+      method: next.method ?? 'ANY',
+      path: this.buildPath(segments),
+      filePath,
+      lineNumber: node.line,
+      className: node.className
+    });
+  }
+
+  private buildPath(segments: string[]): string {
+    const path = segments
+      .flatMap(segment => segment.split('/'))
+      .filter(Boolean)
+      .join('/');
+    return `/${path}`;
+  }
+
+  private findClosing(tokens: JavaToken[], openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < tokens.length; i++) {
+      if (tokens[i].value === '(' || tokens[i].value === '{' || tokens[i].value === '[') depth++;
+      if (tokens[i].value === ')' || tokens[i].value === '}' || tokens[i].value === ']') depth--;
+      if (depth === 0) return i;
+    }
+    return tokens.length - 1;
+  }
+}
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { ApiSpecFinder, type ApiSpec } from './api-spec-finder';
+
+async function withSpecs(files: Record<string, string>, run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-specs-'));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(dirname(join(directory, name)), { recursive: true });
+      await writeFile(join(directory, name), content);
+    }
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function findSpec(directory: string, file: string): Promise<ApiSpec> {
+  const specs = await new ApiSpecFinder(() => {}).findApiSpecs(directory, { files: [join(directory, file)] });
+  assert.equal(specs.length, 1);
+  return specs[0];
+}
+
+const OPENAPI = `
+openapi: 3.0.3
+info: { title: Users, version: '1' }
+servers:
+  - url: '{scheme}://api.example.com/{basePath}'
+    variables:
+      scheme: { default: https }
+      basePath: { default: api/v1 }
+  - url: /internal
+paths:
+  /users/{id}:
+    $ref: './paths/users.yaml'
+  /orders:
+    $ref: './paths/shared.yaml#/orders'
+components:
+  parameters:
+    Page: { name: page, in: query }
+`;
+
+const USERS = `
+parameters:
+  - name: id
+    in: path
+get:
+  operationId: getUser
+  parameters:
+    - $ref: '../openapi.yaml#/components/parameters/Page'
+delete:
+  operationId: deleteUser
+`;
+
+const SHARED = `
+orders:
+  post:
+    operationId: createOrder
+`;
+
+test('path items and parameters are resolved from referenced files', async () => {
+  await withSpecs({ 'openapi.yaml': OPENAPI, 'paths/users.yaml': USERS, 'paths/shared.yaml': SHARED }, async directory => {
+    const spec = await findSpec(directory, 'openapi.yaml');
+
+    assert.deepEqual(spec.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.operationId}`), [
+      'GET /users/{id} getUser',
+      'DELETE /users/{id} deleteUser',
+      'POST /orders createOrder'
+    ]);
+    assert.deepEqual(spec.endpoints[0].parameters, [{ name: 'id', in: 'path' }, { name: 'page', in: 'query' }]);
+  });
+});
+
+test('server URLs and the Swagger base path give the base paths', async () => {
+  const swagger = `
+swagger: '2.0'
+info: { title: Legacy, version: '1' }
+basePath: /legacy/
+paths:
+  /ping:
+    get: {}
+`;
+  await withSpecs({ 'openapi.yaml': OPENAPI, 'paths/users.yaml': USERS, 'paths/shared.yaml': SHARED, 'swagger.yaml': swagger }, async directory => {
+    assert.deepEqual((await findSpec(directory, 'openapi.yaml')).basePaths, ['/api/v1', '/internal']);
+    assert.deepEqual((await findSpec(directory, 'swagger.yaml')).basePaths, ['/legacy']);
+  });
+});
+
+test('paths with circular or unreadable references are skipped with a warning', async t => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const spec = `
+openapi: 3.1.0
+info: { title: Broken, version: '1' }
+paths:
+  /loop:
+    $ref: '#/paths/~1loop'
+  /missing:
+    $ref: './paths/missing.yaml'
+  /ping:
+    get: { operationId: ping }
+`;
+  await withSpecs({ 'openapi.yaml': spec }, async directory => {
+    const { endpoints } = await findSpec(directory, 'openapi.yaml');
+
+    assert.deepEqual(endpoints.map(endpoint => endpoint.path), ['/ping']);
+    assert.deepEqual(warn.mock.calls.map(call => call.arguments[0]), [
+      `⚠️  Skipping path /loop in ${join(directory, 'openapi.yaml')}:`,
+      `⚠️  Skipping path /missing in ${join(directory, 'openapi.yaml')}:`
+    ]);
+  });
+});
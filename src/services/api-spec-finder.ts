@@ -1,11 +1,14 @@
-import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
-import glob from 'fast-glob';
+import { SpecRefResolver } from './spec-ref-resolver';
+import type { ScanCache } from './scan-cache';
+import { WorkingTreeReader, type SourceReader } from './source-reader';
 
 export interface ApiSpec {
   filePath: string;
   type: 'openapi' | 'swagger';
   version: string;
+  // Path prefixes from `servers[].url` (OpenAPI 3) or `basePath` (Swagger 2), e.g. `/api/v1`
+  basePaths: string[];
   endpoints: ApiEndpoint[];
 }
 
@@ -14,8 +17,19 @@ export interface ApiEndpoint {
   path: string;
   operationId?: string;
   summary?: string;
+  // Path-level and operation-level parameters
+  parameters: Array<{ name: string; in: string }>;
 }
 
+export interface SpecDiscoveryOptions {
+  // Parse exactly these files instead of searching the project
+  files?: string[];
+  // Globs added to the built-in exclusions
+  exclude?: string[];
+}
+
+type ResolvedPathItem = { value: any; filePath: string };
+
 export class ApiSpecFinder {
   private readonly filePatterns = [
     '**/*.yaml',
@@ -23,22 +37,34 @@ export class ApiSpecFinder {
     '**/*.json'
   ];
 
-  async findApiSpecs(projectPath: string): Promise<ApiSpec[]> {
-    const potentialFiles = await this.findPotentialSpecFiles(projectPath);
+  // Progress goes to stderr when stdout carries a machine-readable report
+  constructor(
+    private log: (message: string) => void = console.log,
+    private reader: SourceReader = new WorkingTreeReader(),
+    private cache?: ScanCache
+  ) {}
+
+  async findApiSpecs(projectPath: string, options: SpecDiscoveryOptions = {}): Promise<ApiSpec[]> {
+    const potentialFiles = options.files ?? await this.findPotentialSpecFiles(projectPath, options.exclude || []);
+    this.cache?.retainSpecs(potentialFiles);
     const specs: ApiSpec[] = [];
 
-    console.log(`🔍 Scanning ${potentialFiles.length} YAML/JSON files for API specifications...`);
+    this.log(options.files
+      ? `🔍 Reading ${potentialFiles.length} configured API specification files...`
+      : `🔍 Scanning ${potentialFiles.length} YAML/JSON files for API specifications...`);
 
     for (const filePath of potentialFiles) {
       try {
         const spec = await this.parseAndValidateSpecFile(filePath);
         if (spec) {
           specs.push(spec);
+        } else if (options.files) {
+          console.warn(`⚠️  Configured spec file ${filePath} is not an OpenAPI/Swagger document`);
         }
       } catch (error) {
         // Silently skip files that aren't valid specs - this is expected
         // Only log if it's a parsing error on what looks like a spec file
-        if (this.looksLikeSpecFile(filePath)) {
+        if (options.files || this.looksLikeSpecFile(filePath)) {
           console.warn(`⚠️  Could not parse potential spec file ${filePath}:`, error instanceof Error ? error.message : error);
         }
       }
@@ -47,30 +73,27 @@ export class ApiSpecFinder {
     return specs;
   }
 
-  private async findPotentialSpecFiles(projectPath: string): Promise<string[]> {
+  private async findPotentialSpecFiles(projectPath: string, exclude: string[]): Promise<string[]> {
     const allFiles: string[] = [];
 
     for (const pattern of this.filePatterns) {
-      const files = await glob(pattern, {
-        cwd: projectPath,
-        absolute: true,
-        ignore: [
-          '**/node_modules/**', 
-          '**/target/**', 
-          '**/build/**', 
-          '**/dist/**',
-          '**/.git/**',
-          '**/coverage/**',
-          '**/test/**',
-          '**/tests/**',
-          '**/*.test.*',
-          '**/*.spec.*',
-          '**/package*.json',
-          '**/tsconfig*.json',
-          '**/jest*.json',
-          '**/eslint*.json'
-        ]
-      });
+      const files = await this.reader.glob([pattern], projectPath, [
+        '**/node_modules/**', 
+        '**/target/**', 
+        '**/build/**', 
+        '**/dist/**',
+        '**/.git/**',
+        '**/coverage/**',
+        '**/test/**',
+        '**/tests/**',
+        '**/*.test.*',
+        '**/*.spec.*',
+        '**/package*.json',
+        '**/tsconfig*.json',
+        '**/jest*.json',
+        '**/eslint*.json',
+        ...exclude
+      ]);
       allFiles.push(...files);
     }
 
@@ -87,10 +110,15 @@ export class ApiSpecFinder {
     return specIndicators.some(indicator => fileName.includes(indicator));
   }
 
+  // Unchanged files, whose `$ref` targets are unchanged too, come from the cache without parsing
   private async parseAndValidateSpecFile(filePath: string): Promise<ApiSpec | null> {
-    const content = await readFile(filePath, 'utf-8');
-    let specData: any;
+    const content = await this.reader.readFile(filePath);
+    const cached = await this.cache?.getSpec(filePath, content, this.reader);
+    if (cached !== undefined) {
+      return cached;
+    }
 
+    let specData: any;
     try {
       if (filePath.endsWith('.json')) {
         specData = JSON.parse(content);
@@ -99,23 +127,33 @@ export class ApiSpecFinder {
         specData = yaml.parse(content);
       }
     } catch (error) {
+      await this.cache?.setSpec(filePath, content, null, [], this.reader);
       return null;
     }
 
     if (!this.isValidApiSpec(specData)) {
+      await this.cache?.setSpec(filePath, content, null, [], this.reader);
       return null;
     }
 
     const type = specData.openapi ? 'openapi' : 'swagger';
     const version = specData.openapi || specData.swagger || '2.0';
-    const endpoints = this.extractEndpoints(specData);
+    const resolver = new SpecRefResolver(filePath, specData, this.reader);
+    const skippedPaths: string[] = [];
+    const endpoints = await this.extractEndpoints(specData, resolver, filePath, skippedPaths);
 
-    return {
+    const spec: ApiSpec = {
       filePath,
       type,
       version,
+      basePaths: this.extractBasePaths(specData),
       endpoints
     };
+    // Specs with skipped paths are parsed again, so their warnings show on every run
+    if (skippedPaths.length === 0) {
+      await this.cache?.setSpec(filePath, content, spec, resolver.getReferencedFiles(), this.reader);
+    }
+    return spec;
   }
 
   private isValidApiSpec(data: any): boolean {
@@ -157,23 +195,34 @@ export class ApiSpecFinder {
     return true;
   }
 
-  private extractEndpoints(specData: any): ApiEndpoint[] {
+  private async extractEndpoints(specData: any, resolver: SpecRefResolver, filePath: string, skippedPaths: string[]): Promise<ApiEndpoint[]> {
     const endpoints: ApiEndpoint[] = [];
     const paths = specData.paths || {};
 
-    for (const [path, pathItem] of Object.entries(paths)) {
-      if (typeof pathItem !== 'object' || pathItem === null) continue;
+    for (const [path, rawPathItem] of Object.entries(paths)) {
+      // Path items may live in other files: `/users: { $ref: './paths/users.yaml' }`
+      let pathItem: ResolvedPathItem;
+      try {
+        pathItem = await resolver.resolve(rawPathItem, filePath);
+      } catch (error) {
+        console.warn(`⚠️  Skipping path ${path} in ${filePath}:`, error instanceof Error ? error.message : error);
+        skippedPaths.push(path);
+        continue;
+      }
+      if (typeof pathItem.value !== 'object' || pathItem.value === null) continue;
 
-      const methods = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+      const methods = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'];
+      const sharedParameters = await this.extractParameters(pathItem.value.parameters, resolver, pathItem.filePath);
       
       for (const method of methods) {
-        const operation = (pathItem as any)[method];
+        const operation = pathItem.value[method];
         if (operation) {
           endpoints.push({
             method: method.toUpperCase(),
             path,
             operationId: operation.operationId,
-            summary: operation.summary
+            summary: operation.summary,
+            parameters: [...sharedParameters, ...await this.extractParameters(operation.parameters, resolver, pathItem.filePath)]
           });
         }
       }
@@ -181,4 +230,60 @@ export class ApiSpecFinder {
 
     return endpoints;
   }
+
+  private async extractParameters(
+    parameters: unknown,
+    resolver: SpecRefResolver,
+    filePath: string
+  ): Promise<Array<{ name: string; in: string }>> {
+    if (!Array.isArray(parameters)) {
+      return [];
+    }
+
+    const resolved: Array<{ name: string; in: string }> = [];
+    for (const parameter of parameters) {
+      const { value } = await resolver.resolve(parameter, filePath).catch(() => ({ value: undefined }));
+      if (typeof value?.name === 'string' && typeof value?.in === 'string') {
+        resolved.push({ name: value.name, in: value.in });
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * `servers[].url` may be absolute (`https://api.example.com/api/v1`), relative (`/api/v1`)
+   * or templated (`{scheme}://host/{basePath}` with variable defaults); only the path is kept.
+   */
+  private extractBasePaths(specData: any): string[] {
+    const urls: string[] = [];
+
+    if (typeof specData.basePath === 'string') {
+      urls.push(specData.basePath);
+    }
+
+    for (const server of Array.isArray(specData.servers) ? specData.servers : []) {
+      if (typeof server?.url !== 'string') continue;
+
+      const variables = server.variables || {};
+      urls.push(server.url.replace(/\{(\w+)\}/g, (match: string, name: string) =>
+        variables[name]?.default !== undefined ? String(variables[name].default) : match
+      ));
+    }
+
+    const basePaths = urls.map(url => {
+      let path = url;
+      if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+        try {
+          path = decodeURI(new URL(url).pathname);
+        } catch {
+          path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+        }
+      }
+      const normalized = `/${path.split('/').filter(Boolean).join('/')}`;
+      return normalized === '/' ? '' : normalized;
+    });
+
+    return [...new Set(basePaths.filter(Boolean))];
+  }
 }
\ No newline at end of file
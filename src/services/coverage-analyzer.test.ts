@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Endpoint } from '@/models/endpoint';
+import type { ApiSpec } from './api-spec-finder';
+import { CoverageAnalyzer } from './coverage-analyzer';
+
+const spec: ApiSpec = {
+  filePath: '/project/openapi.yaml',
+  type: 'openapi',
+  version: '3.0.3',
+  basePaths: ['/api/v1'],
+  endpoints: [{ method: 'get', path: '/users/{userId}', operationId: 'getUser', parameters: [] }]
+};
+
+function endpoint(path: string): Endpoint {
+  return { method: 'GET', path, filePath: '/project/UserController.java', lineNumber: 1 };
+}
+
+test('a literal segment does not cover a spec parameter under a base path', () => {
+  const [me] = new CoverageAnalyzer().analyzeEndpointCoverage([endpoint('/api/v1/users/me')], [spec]);
+
+  assert.equal(me.apiSpecCoverage.status, 'not-covered');
+  assert.equal(me.apiSpecCoverage.pathMatch?.type, 'fuzzy');
+  assert.deepEqual(me.apiSpecCoverage.pathMatch?.reasons, ['"me" matched {userId}']);
+});
+
+test('a parameter covers a spec parameter with another name under a base path', () => {
+  const [byId] = new CoverageAnalyzer().analyzeEndpointCoverage([endpoint('/api/v1/users/{id}')], [spec]);
+
+  assert.equal(byId.apiSpecCoverage.status, 'covered');
+  assert.equal(byId.apiSpecCoverage.pathMatch?.type, 'parameterised');
+  assert.equal(byId.apiSpecCoverage.pathMatch?.basePath, '/api/v1');
+});
+
+test('fuzzy matches leave the spec operation missing in the drift report', () => {
+  const analyzer = new CoverageAnalyzer();
+  const endpoints = analyzer.analyzeEndpointCoverage([endpoint('/api/v1/users/me')], [spec]);
+
+  const drift = analyzer.analyzeSpecDrift(endpoints, [spec]);
+  assert.deepEqual(drift.missingInCode.map(operation => operation.path), ['/users/{userId}']);
+});
+
+test('an ANY endpoint is covered by every method documented on its path', () => {
+  const multiMethod: ApiSpec = {
+    ...spec,
+    endpoints: [
+      { method: 'get', path: '/users/{userId}', parameters: [] },
+      { method: 'head', path: '/users/{userId}', parameters: [] }
+    ]
+  };
+
+  const [any] = new CoverageAnalyzer().analyzeEndpointCoverage([{ ...endpoint('/api/v1/users/{id}'), method: 'ANY' }], [multiMethod]);
+
+  assert.equal(any.apiSpecCoverage.status, 'covered');
+  assert.deepEqual(any.apiSpecCoverage.matchedMethods, ['GET', 'HEAD']);
+});
+
+test('a HEAD endpoint is not covered by a GET operation', () => {
+  const [head] = new CoverageAnalyzer().analyzeEndpointCoverage([{ ...endpoint('/api/v1/users/{id}'), method: 'HEAD' }], [spec]);
+
+  assert.equal(head.apiSpecCoverage.status, 'not-covered');
+  assert.deepEqual(head.apiSpecCoverage.documentedMethods, ['GET']);
+});
+
+test('spec operations implemented with another method report the implemented ones', () => {
+  const analyzer = new CoverageAnalyzer();
+  const endpoints = analyzer.analyzeEndpointCoverage([{ ...endpoint('/api/v1/users/{id}'), method: 'PUT' }], [spec]);
+
+  const drift = analyzer.analyzeSpecDrift(endpoints, [spec]);
+
+  assert.deepEqual(drift.missingInCode, [{
+    specFile: '/project/openapi.yaml',
+    method: 'get',
+    path: '/users/{userId}',
+    operationId: 'getUser',
+    summary: undefined,
+    implementedMethods: ['PUT']
+  }]);
+  assert.deepEqual(drift.missingInSpec.map(missing => `${missing.method} ${missing.path}`), ['PUT /api/v1/users/{id}']);
+});
@@ -1,102 +1,206 @@
-import type { Endpoint, EndpointWithCoverage, ApiSpecCoverage } from '@/models/endpoint';
+import type { Endpoint, EndpointWithCoverage, ApiSpecCoverage, PathMatch, SpecDriftReport, SpecOperationDrift } from '@/models/endpoint';
 import type { ApiSpec, ApiEndpoint } from '@/services/api-spec-finder';
+import { PathMatcher } from './path-matcher';
+import { ModuleDetector, type ProjectModule } from './module-detector';
+
+export interface CoverageOptions {
+  // Module roots from `ModuleDetector`; without them every endpoint is matched against every spec
+  modules?: ProjectModule[];
+  // Match endpoints against the specs of all modules instead of their own
+  crossModule?: boolean;
+}
+
+interface SpecMatch {
+  spec: ApiSpec;
+  specEndpoint: ApiEndpoint;
+  pathMatch: PathMatch;
+}
 
 export class CoverageAnalyzer {
+  private pathMatcher = new PathMatcher();
+  private moduleDetector = new ModuleDetector();
+
   analyzeEndpointCoverage(
     endpoints: Endpoint[],
-    apiSpecs: ApiSpec[]
+    apiSpecs: ApiSpec[],
+    options: CoverageOptions = {}
   ): EndpointWithCoverage[] {
-    if (apiSpecs.length === 0) {
-      return endpoints.map(endpoint => ({
-        ...endpoint,
-        apiSpecCoverage: { status: 'no-spec-found' }
-      }));
-    }
-
     return endpoints.map(endpoint => {
-      const coverage = this.findEndpointCoverage(endpoint, apiSpecs);
+      const module = this.moduleDetector.findModule(endpoint.filePath, options.modules || []);
+      const specs = this.findSpecsInScope(endpoint, apiSpecs, options);
+      const coverage: ApiSpecCoverage = specs.length === 0
+        ? { status: 'no-spec-found' }
+        : this.findEndpointCoverage(endpoint, specs);
       return {
         ...endpoint,
-        apiSpecCoverage: coverage
+        apiSpecCoverage: coverage,
+        ...(module && { module: module.name })
       };
     });
   }
 
+  /**
+   * Specs of the endpoint's own module, else of the nearest enclosing module that has
+   * any, so one service's spec never covers another service's endpoints.
+   */
+  private findSpecsInScope(endpoint: Endpoint, apiSpecs: ApiSpec[], options: CoverageOptions = {}): ApiSpec[] {
+    const modules = options.modules || [];
+    const module = this.moduleDetector.findModule(endpoint.filePath, modules);
+    if (!module || options.crossModule) {
+      return apiSpecs;
+    }
+
+    for (const ancestor of this.moduleDetector.findAncestors(module, modules)) {
+      const specs = apiSpecs.filter(spec => this.moduleDetector.findModule(spec.filePath, modules)?.path === ancestor.path);
+      if (specs.length > 0) {
+        return specs;
+      }
+    }
+
+    // Specs outside every module, e.g. a shared docs folder next to the services
+    return apiSpecs.filter(spec => !this.moduleDetector.findModule(spec.filePath, modules));
+  }
+
   private findEndpointCoverage(
     endpoint: Endpoint,
     apiSpecs: ApiSpec[]
   ): ApiSpecCoverage {
+    const match = this.findMatchingEndpoint(endpoint, apiSpecs);
+    if (match && match.pathMatch.type !== 'fuzzy') {
+      const { spec, specEndpoint: matchedEndpoint, pathMatch } = match;
+      const undocumentedParameters = this.findUndocumentedParameters(endpoint, matchedEndpoint);
+      return {
+        status: 'covered',
+        specFile: spec.filePath,
+        matchedEndpoint,
+        pathMatch,
+        ...(endpoint.method === 'ANY' && { matchedMethods: this.findDocumentedMethods(spec, matchedEndpoint.path) }),
+        ...(undocumentedParameters.length > 0 && { undocumentedParameters })
+      };
+    }
+
+    // A fuzzy match pairs a literal with a parameter (`/users/me` with `/users/{userId}`): a different route, shown as a hint only
+    const documentedMethods = apiSpecs.flatMap(spec => this.findMatchingMethods(endpoint, spec));
+    return {
+      status: 'not-covered',
+      ...(match && { specFile: match.spec.filePath, matchedEndpoint: match.specEndpoint, pathMatch: match.pathMatch }),
+      ...(documentedMethods.length > 0 && { documentedMethods: [...new Set(documentedMethods)] })
+    };
+  }
+
+  /**
+   * The reverse direction of coverage: spec operations that no endpoint implements,
+   * next to the endpoints that no spec documents. An operation counts as implemented
+   * only when it is the best match of some endpoint, so `/users/me` stays missing when
+   * the code only maps `/users/{id}`.
+   */
+  analyzeSpecDrift(endpoints: EndpointWithCoverage[], apiSpecs: ApiSpec[], options: CoverageOptions = {}): SpecDriftReport {
+    const missingInCode: SpecOperationDrift[] = [];
+
     for (const spec of apiSpecs) {
-      const matchedEndpoint = this.findMatchingEndpoint(endpoint, spec.endpoints);
-      if (matchedEndpoint) {
-        return {
-          status: 'covered',
+      for (const specEndpoint of spec.endpoints) {
+        if (endpoints.some(endpoint => this.implements(endpoint, spec, specEndpoint))) {
+          continue;
+        }
+
+        // Method mismatches only; a fuzzy path match is a different route
+        const samePath = endpoints.filter(endpoint => {
+          if (!this.findSpecsInScope(endpoint, apiSpecs, options).includes(spec)) return false;
+          const pathMatch = this.matchSpecPath(endpoint.path, spec, specEndpoint);
+          return pathMatch !== undefined && pathMatch.type !== 'fuzzy';
+        });
+        const implementedMethods = [...new Set(samePath.map(endpoint => endpoint.method))];
+        missingInCode.push({
           specFile: spec.filePath,
-          matchedEndpoint
-        };
+          method: specEndpoint.method,
+          path: specEndpoint.path,
+          operationId: specEndpoint.operationId,
+          summary: specEndpoint.summary,
+          ...(implementedMethods.length > 0 && { implementedMethods })
+        });
       }
     }
 
-    return { status: 'not-covered' };
-  }
-
-  private findMatchingEndpoint(
-    endpoint: Endpoint,
-    specEndpoints: ApiEndpoint[]
-  ): ApiEndpoint | undefined {
-    return specEndpoints.find(specEndpoint => 
-      this.methodsMatch(endpoint.method, specEndpoint.method) &&
-      this.pathsMatch(endpoint.path, specEndpoint.path)
-    );
+    return {
+      missingInCode,
+      missingInSpec: endpoints.filter(endpoint => endpoint.apiSpecCoverage.status === 'not-covered')
+    };
   }
 
-  private methodsMatch(endpointMethod: string, specMethod: string): boolean {
-    return endpointMethod.toUpperCase() === specMethod.toUpperCase();
-  }
+  // The most specific operation across all specs; on a tie the first one found wins
+  private findMatchingEndpoint(endpoint: Endpoint, apiSpecs: ApiSpec[]): SpecMatch | undefined {
+    let best: SpecMatch | undefined;
 
-  private pathsMatch(endpointPath: string, specPath: string): boolean {
-    const normalizedEndpointPath = this.normalizePath(endpointPath);
-    const normalizedSpecPath = this.normalizePath(specPath);
+    for (const spec of apiSpecs) {
+      for (const specEndpoint of spec.endpoints) {
+        if (!this.methodsMatch(endpoint.method, specEndpoint.method)) continue;
 
-    if (normalizedEndpointPath === normalizedSpecPath) {
-      return true;
+        const pathMatch = this.matchSpecPath(endpoint.path, spec, specEndpoint);
+        if (pathMatch && this.pathMatcher.isBetter(pathMatch, best?.pathMatch)) {
+          best = { spec, specEndpoint, pathMatch };
+        }
+      }
     }
 
-    return this.pathsMatchWithParameters(normalizedEndpointPath, normalizedSpecPath);
+    return best;
   }
 
-  private normalizePath(path: string): string {
-    return path.replace(/\/+/g, '/').replace(/\/$/, '') || '/';
+  private findMatchingMethods(endpoint: Endpoint, spec: ApiSpec): string[] {
+    const methods = spec.endpoints
+      .filter(specEndpoint => {
+        const pathMatch = this.matchSpecPath(endpoint.path, spec, specEndpoint);
+        return pathMatch !== undefined && pathMatch.type !== 'fuzzy';
+      })
+      .map(specEndpoint => specEndpoint.method.toUpperCase());
+    return [...new Set(methods)];
   }
 
-  private pathsMatchWithParameters(endpointPath: string, specPath: string): boolean {
-    const endpointSegments = endpointPath.split('/');
-    const specSegments = specPath.split('/');
+  private findDocumentedMethods(spec: ApiSpec, specPath: string): string[] {
+    const methods = spec.endpoints
+      .filter(specEndpoint => specEndpoint.path === specPath)
+      .map(specEndpoint => specEndpoint.method.toUpperCase());
+    return [...new Set(methods)];
+  }
 
-    if (endpointSegments.length !== specSegments.length) {
+  private implements(endpoint: EndpointWithCoverage, spec: ApiSpec, specEndpoint: ApiEndpoint): boolean {
+    const coverage = endpoint.apiSpecCoverage;
+    if (coverage.status !== 'covered' || coverage.specFile !== spec.filePath || coverage.matchedEndpoint?.path !== specEndpoint.path) {
       return false;
     }
 
-    for (let i = 0; i < endpointSegments.length; i++) {
-      const endpointSegment = endpointSegments[i];
-      const specSegment = specSegments[i];
+    return coverage.matchedEndpoint.method.toUpperCase() === specEndpoint.method.toUpperCase() ||
+      (coverage.matchedMethods || []).includes(specEndpoint.method.toUpperCase());
+  }
 
-      if (this.isParameterSegment(endpointSegment) || this.isParameterSegment(specSegment)) {
-        continue;
-      }
+  // Code may map `/api/v1/users` for a spec that documents `/users` under `servers: [{ url: /api/v1 }]`
+  private matchSpecPath(endpointPath: string, spec: ApiSpec, specEndpoint: ApiEndpoint): PathMatch | undefined {
+    let best = this.pathMatcher.match(endpointPath, specEndpoint.path);
 
-      if (endpointSegment !== specSegment) {
-        return false;
+    for (const basePath of spec.basePaths) {
+      const match = this.pathMatcher.match(endpointPath, `${basePath}/${specEndpoint.path}`);
+      if (match && this.pathMatcher.isBetter(match, best)) {
+        best = { ...match, basePath };
       }
     }
 
-    return true;
+    return best;
+  }
+
+  /**
+   * Query and header parameters read by the handler but missing from the operation.
+   * Path parameters are already matched by the path itself, whatever their names.
+   */
+  private findUndocumentedParameters(endpoint: Endpoint, specEndpoint: ApiEndpoint): string[] {
+    const documented = new Set(specEndpoint.parameters.map(parameter => `${parameter.in}:${parameter.name.toLowerCase()}`));
+
+    return (endpoint.parameters || [])
+      .filter(parameter => parameter.in !== 'path')
+      .filter(parameter => !documented.has(`${parameter.in}:${parameter.name.toLowerCase()}`))
+      .map(parameter => `${parameter.name} (${parameter.in})`);
   }
 
-  private isParameterSegment(segment: string): boolean {
-    return segment.startsWith('{') && segment.endsWith('}') ||
-           segment.startsWith(':') ||
-           segment.includes('*') ||
-           /\{[^}]+\}/.test(segment);
+  // An `ANY` endpoint serves whatever method the spec documents for its path
+  private methodsMatch(endpointMethod: string, specMethod: string): boolean {
+    return endpointMethod.toUpperCase() === 'ANY' || endpointMethod.toUpperCase() === specMethod.toUpperCase();
   }
-}
\ No newline at end of file
+}
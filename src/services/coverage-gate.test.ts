@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EndpointWithCoverage, ScanResultWithCoverage } from '@/models/endpoint';
+import { CoverageGate } from './coverage-gate';
+
+function result(covered: number, notCovered: number): ScanResultWithCoverage {
+  const endpoint = (index: number, status: 'covered' | 'not-covered'): EndpointWithCoverage => ({
+    method: 'GET',
+    path: `/items/${index}`,
+    filePath: '/project/ItemController.java',
+    lineNumber: index + 1,
+    apiSpecCoverage: { status, specFile: '/project/openapi.yaml' }
+  });
+
+  const endpoints = [
+    ...Array.from({ length: covered }, (_, index) => endpoint(index, 'covered')),
+    ...Array.from({ length: notCovered }, (_, index) => endpoint(covered + index, 'not-covered'))
+  ];
+  return { totalFiles: 1, scannedFiles: 1, endpoints, errors: [], apiSpecs: [] };
+}
+
+test('coverage just below the threshold fails even when it rounds up to it', () => {
+  // 2249/2250 = 99.956%, shown as 100%
+  const check = new CoverageGate().evaluate(result(2249, 1), { minCoverage: 100 }, '/project');
+
+  assert.equal(check.passed, false);
+  assert.equal(check.exitCode, 2);
+  assert.match(check.rules[0].message, /^Coverage 100% \(2249\/2250\) < 100%$/);
+});
+
+test('coverage exactly at the threshold passes', () => {
+  const check = new CoverageGate().evaluate(result(9, 1), { minCoverage: 90 }, '/project');
+
+  assert.equal(check.passed, true);
+  assert.equal(check.rules[0].message, 'Coverage 90% (9/10) ≥ 90%');
+});
@@ -0,0 +1,115 @@
+import { relative } from 'path';
+import type { ScanResultWithCoverage, EndpointWithCoverage } from '@/models/endpoint';
+
+export interface CheckThresholds {
+  // Minimum covered share (0-100) of the endpoints that have a spec in scope
+  minCoverage?: number;
+  // Same, per HTTP method (`{ POST: 90 }`)
+  methodCoverage?: Record<string, number>;
+  failOnUndocumented?: boolean;
+  failOnSpecDrift?: boolean;
+}
+
+export type CheckRuleKind = 'coverage' | 'undocumented' | 'drift';
+
+export interface CheckRuleResult {
+  kind: CheckRuleKind;
+  passed: boolean;
+  message: string;
+  // Offending endpoints or operations, `METHOD /path (location)`
+  violations: string[];
+}
+
+export interface CheckResult {
+  passed: boolean;
+  exitCode: number;
+  rules: CheckRuleResult[];
+}
+
+/**
+ * Exit codes of `check`. Failed rules are OR-ed together, so a build failing on
+ * coverage and drift exits with 10; 1 stays reserved for usage and scan errors.
+ */
+export const CHECK_EXIT_CODES: Record<CheckRuleKind, number> = {
+  coverage: 2,
+  undocumented: 4,
+  drift: 8
+};
+
+export class CoverageGate {
+  // `directory` is the scanned root; violations show paths relative to it
+  evaluate(result: ScanResultWithCoverage, thresholds: CheckThresholds, directory: string): CheckResult {
+    const rules: CheckRuleResult[] = [];
+
+    if (thresholds.minCoverage !== undefined) {
+      rules.push(this.checkCoverage(result.endpoints, thresholds.minCoverage, 'Coverage', directory));
+    }
+
+    for (const [method, minimum] of Object.entries(thresholds.methodCoverage || {})) {
+      const endpoints = result.endpoints.filter(endpoint => endpoint.method === method);
+      rules.push(this.checkCoverage(endpoints, minimum, `${method} coverage`, directory));
+    }
+
+    if (thresholds.failOnUndocumented) {
+      const undocumented = result.endpoints.filter(endpoint => endpoint.apiSpecCoverage.status === 'not-covered');
+      rules.push({
+        kind: 'undocumented',
+        passed: undocumented.length === 0,
+        message: undocumented.length === 0 ? 'No undocumented endpoints' : `${undocumented.length} undocumented endpoints`,
+        violations: undocumented.map(endpoint => this.describeEndpoint(endpoint, directory))
+      });
+    }
+
+    if (thresholds.failOnSpecDrift && result.specDrift) {
+      const { missingInCode, missingInSpec } = result.specDrift;
+      const count = missingInCode.length + missingInSpec.length;
+      rules.push({
+        kind: 'drift',
+        passed: count === 0,
+        message: count === 0
+          ? 'No spec drift'
+          : `Spec drift: ${missingInCode.length} in spec but not in code, ${missingInSpec.length} in code but not in spec`,
+        violations: [
+          ...missingInCode.map(operation => `${operation.method} ${operation.path} (${relative(directory, operation.specFile)}, not implemented)`),
+          ...missingInSpec.map(endpoint => `${this.describeEndpoint(endpoint, directory)}, not documented`)
+        ]
+      });
+    }
+
+    const exitCode = rules
+      .filter(rule => !rule.passed)
+      .reduce((code, rule) => code | CHECK_EXIT_CODES[rule.kind], 0);
+
+    return { passed: exitCode === 0, exitCode, rules };
+  }
+
+  private checkCoverage(endpoints: EndpointWithCoverage[], minimum: number, label: string, directory: string): CheckRuleResult {
+    const covered = endpoints.filter(endpoint => endpoint.apiSpecCoverage.status === 'covered');
+    const withSpec = endpoints.filter(endpoint => endpoint.apiSpecCoverage.status !== 'no-spec-found');
+
+    if (endpoints.length === 0) {
+      return { kind: 'coverage', passed: true, message: `${label}: no endpoints`, violations: [] };
+    }
+
+    // Endpoints exist but no spec covers their module: nothing is documented
+    const ratio = withSpec.length > 0 ? covered.length / withSpec.length : 0;
+    // Compare unrounded, so 89.96% does not pass a 90% gate; round only for the message
+    const passed = ratio * 100 >= minimum;
+    const percentage = Math.round(ratio * 1000) / 10;
+
+    return {
+      kind: 'coverage',
+      passed,
+      message: `${label} ${percentage}% (${covered.length}/${withSpec.length}) ${passed ? '≥' : '<'} ${minimum}%`,
+      violations: passed
+        ? []
+        : withSpec
+          .filter(endpoint => endpoint.apiSpecCoverage.status === 'not-covered')
+          .map(endpoint => this.describeEndpoint(endpoint, directory))
+    };
+  }
+
+  private describeEndpoint(endpoint: EndpointWithCoverage, directory: string): string {
+    return `${endpoint.method} ${endpoint.path} (${relative(directory, endpoint.filePath)}:${endpoint.lineNumber})`;
+  }
+}
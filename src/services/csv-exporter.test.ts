@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { EndpointWithCoverage } from '@/models/endpoint';
+import { CsvExporter } from './csv-exporter';
+
+const updateUser: EndpointWithCoverage = {
+  method: 'PUT',
+  path: '/users/{id}',
+  filePath: '/project/UserController.java',
+  lineNumber: 7,
+  className: 'UserController',
+  methodName: 'update',
+  parameters: [
+    { name: 'id', in: 'path', type: 'Long', required: true },
+    { name: 'dryRun', in: 'query', type: 'Boolean', required: false }
+  ],
+  requestBody: 'Map<String, String>',
+  apiSpecCoverage: { status: 'not-covered', documentedMethods: ['GET', 'DELETE'] }
+};
+
+test('endpoint rows carry metadata cells, quoting cells with commas', () => {
+  const [header, row] = new CsvExporter().toCsv({ totalFiles: 1, scannedFiles: 1, endpoints: [updateUser], errors: [] }).split('\n');
+
+  assert.equal(header, 'Method,Path,File Path,Line Number,Class Name,Method Name,Parameters,Request Body,Return Type,Consumes,Produces');
+  assert.equal(row, 'PUT,/users/{id},/project/UserController.java,7,UserController,update,id: Long (path); dryRun?: Boolean (query),"Map<String, String>",,,');
+});
+
+test('the spec drift export lists both directions with the methods of the other side', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-csv-'));
+  try {
+    const outputPath = join(directory, 'drift.csv');
+    await new CsvExporter(directory).exportSpecDriftToCsv({
+      missingInCode: [{ specFile: '/specs/openapi.yaml', method: 'get', path: '/users/{id}', operationId: 'getUser', implementedMethods: ['PUT'] }],
+      missingInSpec: [updateUser]
+    }, outputPath);
+
+    assert.deepEqual((await readFile(outputPath, 'utf-8')).split('\n'), [
+      'Direction,Method,Path,Spec File,Operation,File Path,Line Number,Class Name,Method Name,Other Methods',
+      'missing-in-code,get,/users/{id},/specs/openapi.yaml,getUser,,,,,PUT',
+      'missing-in-spec,PUT,/users/{id},,,/project/UserController.java,7,UserController,update,GET DELETE'
+    ]);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -1,8 +1,13 @@
 import { writeFile, mkdir } from 'fs/promises';
 import { dirname, join } from 'path';
-import type { ScanResult, Endpoint, ScanResultWithCoverage, EndpointWithCoverage } from '@/models/endpoint';
+import type { ScanResult, Endpoint, ScanResultWithCoverage, EndpointWithCoverage, SpecDriftReport } from '@/models/endpoint';
+
+const METADATA_HEADERS = ['Parameters', 'Request Body', 'Return Type', 'Consumes', 'Produces'];
 
 export class CsvExporter {
+  // Reports land in `output/` below the working directory unless a config sets `output.directory`
+  constructor(private outputDirectory: string = join(process.cwd(), 'output')) {}
+
   async exportToCsv(result: ScanResult, outputPath: string): Promise<void> {
     await this.ensureDirectoryExists(outputPath);
     
@@ -17,6 +22,20 @@ export class CsvExporter {
     await writeFile(outputPath, csvContent, 'utf-8');
   }
 
+  // The CSV text alone, e.g. for `--format csv --output -`
+  toCsv(result: ScanResult | ScanResultWithCoverage): string {
+    return 'apiSpecs' in result
+      ? this.generateCsvContentWithCoverage(result.endpoints)
+      : this.generateCsvContent(result.endpoints);
+  }
+
+  async exportSpecDriftToCsv(report: SpecDriftReport, outputPath: string): Promise<void> {
+    await this.ensureDirectoryExists(outputPath);
+
+    const csvContent = this.generateSpecDriftCsvContent(report);
+    await writeFile(outputPath, csvContent, 'utf-8');
+  }
+
   private async ensureDirectoryExists(filePath: string): Promise<void> {
     const dir = dirname(filePath);
     await mkdir(dir, { recursive: true });
@@ -29,7 +48,8 @@ export class CsvExporter {
       'File Path',
       'Line Number',
       'Class Name',
-      'Method Name'
+      'Method Name',
+      ...METADATA_HEADERS
     ];
 
     const rows = endpoints.map(endpoint => [
@@ -38,7 +58,8 @@ export class CsvExporter {
       endpoint.filePath,
       endpoint.lineNumber.toString(),
       endpoint.className || '',
-      endpoint.methodName || ''
+      endpoint.methodName || '',
+      ...this.getMetadataCells(endpoint)
     ]);
 
     const csvRows = [headers, ...rows];
@@ -56,9 +77,15 @@ export class CsvExporter {
       'Line Number',
       'Class Name',
       'Method Name',
+      ...METADATA_HEADERS,
+      'Module',
       'API Spec Coverage',
       'Spec File',
-      'Matched Operation'
+      'Matched Operation',
+      'Matched Methods',
+      'Path Match',
+      'Match Reasons',
+      'Undocumented Parameters'
     ];
 
     const rows = endpoints.map(endpoint => [
@@ -68,9 +95,15 @@ export class CsvExporter {
       endpoint.lineNumber.toString(),
       endpoint.className || '',
       endpoint.methodName || '',
+      ...this.getMetadataCells(endpoint),
+      endpoint.module || '',
       endpoint.apiSpecCoverage.status,
       endpoint.apiSpecCoverage.specFile ? this.getRelativeSpecPath(endpoint.apiSpecCoverage.specFile) : '',
-      endpoint.apiSpecCoverage.matchedEndpoint?.operationId || endpoint.apiSpecCoverage.matchedEndpoint?.summary || ''
+      endpoint.apiSpecCoverage.matchedEndpoint?.operationId || endpoint.apiSpecCoverage.matchedEndpoint?.summary || '',
+      (endpoint.apiSpecCoverage.matchedMethods || (endpoint.apiSpecCoverage.status === 'covered' && endpoint.apiSpecCoverage.matchedEndpoint ? [endpoint.apiSpecCoverage.matchedEndpoint.method] : [])).join(' '),
+      endpoint.apiSpecCoverage.pathMatch?.type || '',
+      (endpoint.apiSpecCoverage.pathMatch?.reasons || []).join('; '),
+      (endpoint.apiSpecCoverage.undocumentedParameters || []).join('; ')
     ]);
 
     const csvRows = [headers, ...rows];
@@ -80,6 +113,69 @@ export class CsvExporter {
       .join('\n');
   }
 
+  // One row per drifting operation or endpoint; `Direction` tells which side is missing it
+  private generateSpecDriftCsvContent(report: SpecDriftReport): string {
+    const headers = [
+      'Direction',
+      'Method',
+      'Path',
+      'Spec File',
+      'Operation',
+      'File Path',
+      'Line Number',
+      'Class Name',
+      'Method Name',
+      'Other Methods'
+    ];
+
+    const rows = [
+      ...report.missingInCode.map(operation => [
+        'missing-in-code',
+        operation.method,
+        operation.path,
+        this.getRelativeSpecPath(operation.specFile),
+        operation.operationId || operation.summary || '',
+        '',
+        '',
+        '',
+        '',
+        (operation.implementedMethods || []).join(' ')
+      ]),
+      ...report.missingInSpec.map(endpoint => [
+        'missing-in-spec',
+        endpoint.method,
+        endpoint.path,
+        '',
+        '',
+        endpoint.filePath,
+        endpoint.lineNumber.toString(),
+        endpoint.className || '',
+        endpoint.methodName || '',
+        (endpoint.apiSpecCoverage.documentedMethods || []).join(' ')
+      ])
+    ];
+
+    return [headers, ...rows]
+      .map(row => row.map(cell => this.escapeCsvCell(cell)).join(','))
+      .join('\n');
+  }
+
+  // `id: Long (path); page?: Int (query)`, then body, return type and media types
+  private getMetadataCells(endpoint: Endpoint): string[] {
+    const parameters = (endpoint.parameters || []).map(parameter => {
+      const name = parameter.required === false ? `${parameter.name}?` : parameter.name;
+      return `${name}${parameter.type ? `: ${parameter.type}` : ''} (${parameter.in})`;
+    });
+
+    return [
+      parameters.join('; '),
+      endpoint.requestBody || '',
+      endpoint.returnType || '',
+      (endpoint.consumes || []).join(' '),
+      (endpoint.produces || []).join(' ')
+    ];
+  }
+
   private getRelativeSpecPath(specPath: string): string {
     const cwd = process.cwd();
     return specPath.startsWith(cwd) ? specPath.substring(cwd.length + 1) : specPath;
@@ -92,11 +188,11 @@ export class CsvExporter {
     return cell;
   }
 
-  generateOutputPath(targetDirectory: string): string {
+  generateOutputPath(targetDirectory: string, reportName: string = 'endpoints'): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const projectName = this.extractProjectName(targetDirectory);
-    const filename = `${projectName}-endpoints-${timestamp}.csv`;
-    return join(process.cwd(), 'output', filename);
+    const filename = `${projectName}-${reportName}-${timestamp}.csv`;
+    return join(this.outputDirectory, filename);
   }
 
   private extractProjectName(directoryPath: string): string {
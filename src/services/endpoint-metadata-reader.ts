@@ -0,0 +1,135 @@
+import type { EndpointParameter } from '@/models/endpoint';
+import type { AnnotationValue, ConstantScope, JavaAnnotation, JavaParameter } from './java-source-parser';
+import { JavaConstantIndex } from './java-constant-index';
+
+export interface HandlerMetadata {
+  parameters: EndpointParameter[];
+  requestBody?: string;
+}
+
+const SPRING_PARAMETER_ANNOTATIONS: Record<string, EndpointParameter['in']> = {
+  PathVariable: 'path',
+  RequestParam: 'query',
+  RequestHeader: 'header'
+};
+
+const JAXRS_PARAMETER_ANNOTATIONS: Record<string, EndpointParameter['in']> = {
+  PathParam: 'path',
+  QueryParam: 'query',
+  HeaderParam: 'header'
+};
+
+// Injected by the JAX-RS runtime rather than read from the request
+const JAXRS_CONTEXT_ANNOTATIONS = ['Context', 'Suspended', 'BeanParam', 'FormParam', 'MatrixParam', 'CookieParam'];
+
+/**
+ * Turns handler method signatures and mapping annotations of the JVM extractors
+ * into endpoint parameters, request body types and media types.
+ */
+export class EndpointMetadataReader {
+  constructor(private constantIndex: JavaConstantIndex = new JavaConstantIndex()) {}
+
+  // `@PathVariable Long id`, `@RequestParam(required = false) String q`, `@RequestBody User user`
+  readSpringHandler(parameters: JavaParameter[], constants: ConstantScope): HandlerMetadata {
+    const metadata: HandlerMetadata = { parameters: [] };
+
+    for (const parameter of parameters) {
+      if (parameter.annotations.some(annotation => annotation.name === 'RequestBody')) {
+        metadata.requestBody = parameter.type;
+        continue;
+      }
+
+      const annotation = parameter.annotations.find(candidate => candidate.name in SPRING_PARAMETER_ANNOTATIONS);
+      if (!annotation) {
+        continue;
+      }
+
+      const location = SPRING_PARAMETER_ANNOTATIONS[annotation.name];
+      const declared = annotation.args.get('name') || annotation.args.get('value');
+      const explicitlyOptional = this.readFlag(annotation, 'required') === false || annotation.args.has('defaultValue');
+
+      metadata.parameters.push({
+        name: declared?.[0] ? this.constantIndex.toText(declared[0], constants) : parameter.name,
+        in: location,
+        type: parameter.type,
+        required: location === 'path' || !(explicitlyOptional || parameter.hasDefault || this.isOptionalType(parameter.type))
+      });
+    }
+
+    return metadata;
+  }
+
+  // `@PathParam("id") long id`, `@QueryParam("q") String q`; the single unannotated parameter is the entity
+  readJaxRsHandler(parameters: JavaParameter[], constants: ConstantScope): HandlerMetadata {
+    const metadata: HandlerMetadata = { parameters: [] };
+
+    for (const parameter of parameters) {
+      const annotation = parameter.annotations.find(candidate => candidate.name in JAXRS_PARAMETER_ANNOTATIONS);
+      if (annotation) {
+        const declared = annotation.args.get('value')?.[0];
+        const location = JAXRS_PARAMETER_ANNOTATIONS[annotation.name];
+        metadata.parameters.push({
+          name: declared ? this.constantIndex.toText(declared, constants) : parameter.name,
+          in: location,
+          type: parameter.type,
+          required: location === 'path' ||
+            !(parameter.annotations.some(candidate => candidate.name === 'DefaultValue') || this.isOptionalType(parameter.type))
+        });
+        continue;
+      }
+
+      if (!parameter.annotations.some(candidate => JAXRS_CONTEXT_ANNOTATIONS.includes(candidate.name))) {
+        metadata.requestBody = parameter.type;
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Reads `consumes`/`produces` style values. Well-known media type constants such
+   * as `MediaType.APPLICATION_JSON_VALUE` are spelled out, unknown references are kept.
+   */
+  readMediaTypes(values: AnnotationValue[] | undefined, constants: ConstantScope): string[] {
+    return (values || []).map(value => {
+      const onlyPart = value.parts.length === 1 ? value.parts[0] : undefined;
+      if (onlyPart?.type === 'reference') {
+        const mediaType = this.mediaTypeConstant(onlyPart.name);
+        if (mediaType) return mediaType;
+      }
+      return this.constantIndex.toText(value, constants);
+    });
+  }
+
+  // `MediaType.APPLICATION_JSON_VALUE` → `application/json`
+  private mediaTypeConstant(reference: string): string | undefined {
+    const [owner, constant] = reference.split('.').slice(-2);
+    if (owner !== 'MediaType' || !constant) {
+      return undefined;
+    }
+
+    const name = constant.replace(/_VALUE$/, '').replace(/_TYPE$/, '').replace(/_UTF8$/, '');
+    if (name === 'APPLICATION_FORM_URLENCODED') {
+      return 'application/x-www-form-urlencoded';
+    }
+    if (name === 'WILDCARD' || name === 'ALL') {
+      return '*/*';
+    }
+
+    const [type, ...subtype] = name.toLowerCase().split('_');
+    return subtype.length > 0 ? `${type}/${subtype.join('-')}` : undefined;
+  }
+
+  private readFlag(annotation: JavaAnnotation, key: string): boolean | undefined {
+    const part = annotation.args.get(key)?.[0]?.parts[0];
+    if (part?.type !== 'reference') return undefined;
+    if (part.name === 'true') return true;
+    if (part.name === 'false') return false;
+    return undefined;
+  }
+
+  // `Optional<String>` in Java, `String?` in Kotlin
+  private isOptionalType(type: string): boolean {
+    return type.startsWith('Optional<') || type.endsWith('?');
+  }
+}
@@ -0,0 +1,129 @@
+import { Worker } from 'worker_threads';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import type { Endpoint } from '@/models/endpoint';
+import type { IndexContribution, RegistrySetup } from './extractor-registry';
+
+export type WorkerRequest =
+  | { id: number; type: 'index'; filePath: string; content: string }
+  | { id: number; type: 'apply-index'; contributions: IndexContribution[] }
+  | { id: number; type: 'extract'; filePath: string; content: string };
+
+export type WorkerResponse =
+  | { id: number; endpoints: Endpoint[] }
+  | { id: number; error: string };
+
+type WorkerResult = Exclude<WorkerResponse, { error: string }>;
+
+interface PendingRequest {
+  worker: Worker;
+  resolve: (response: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+// Indexed files the workers may fall behind by before `index` waits
+const MAX_QUEUED_INDEX = 64;
+
+/**
+ * Runs the extractors in worker threads. Each worker rebuilds the registry from its
+ * setup and replays the index built on the main thread, so cross-file lookups see
+ * the whole project; extraction requests go to the least busy worker.
+ */
+export class ExtractionWorkerPool {
+  private workers: Worker[];
+  private busy = new Map<Worker, number>();
+  private pending = new Map<number, PendingRequest>();
+  private indexing: Promise<void>[] = [];
+  private nextId = 0;
+  private failure?: Error;
+
+  constructor(setup: RegistrySetup, size: number) {
+    this.workers = Array.from({ length: size }, () => this.startWorker(setup));
+  }
+
+  // For extractors with a plain `index`, which every worker runs on the file itself
+  async index(filePath: string, content: string): Promise<void> {
+    const acknowledged = Promise.all(this.workers.map(worker => this.request(worker, { type: 'index', filePath, content })));
+    // A failed worker also fails the extraction requests, which report it
+    this.indexing.push(acknowledged.then(() => undefined, () => undefined));
+    if (this.indexing.length > MAX_QUEUED_INDEX) {
+      await this.indexing.shift();
+    }
+  }
+
+  // Sends the split-form index data of every file, in file order, to every worker
+  async applyIndex(contributions: IndexContribution[]): Promise<void> {
+    if (contributions.length > 0) {
+      await Promise.all(this.workers.map(worker => this.request(worker, { type: 'apply-index', contributions })));
+    }
+  }
+
+  async extract(filePath: string, content: string): Promise<Endpoint[]> {
+    const worker = this.workers.reduce((idlest, candidate) => this.busy.get(candidate)! < this.busy.get(idlest)! ? candidate : idlest);
+    const response = await this.request(worker, { type: 'extract', filePath, content });
+    return 'endpoints' in response ? response.endpoints : [];
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+
+  private request(worker: Worker, message: DistributiveOmit<WorkerRequest, 'id'>): Promise<WorkerResult> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { worker, resolve, reject });
+      this.busy.set(worker, this.busy.get(worker)! + 1);
+      worker.postMessage({ ...message, id });
+    });
+  }
+
+  private settle(response: WorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(response.id);
+    this.busy.set(request.worker, this.busy.get(request.worker)! - 1);
+
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= new Error(`Extraction worker failed: ${error.message}`);
+    for (const [id, request] of this.pending) {
+      this.pending.delete(id);
+      request.reject(this.failure);
+    }
+  }
+
+  private startWorker(setup: RegistrySetup): Worker {
+    const entry = new URL(`./extraction-worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+    // Under tsx, worker threads do not inherit the TypeScript loader; register it before loading the entry
+    const worker = entry.pathname.endsWith('.ts')
+      ? new Worker(
+        `import(${JSON.stringify(import.meta.resolve('tsx/esm/api'))}).then(tsx => { tsx.register(); return import(${JSON.stringify(entry.href)}); });`,
+        { eval: true, workerData: setup }
+      )
+      : new Worker(entry, { workerData: setup });
+
+    this.busy.set(worker, 0);
+    worker.on('message', (response: WorkerResponse) => this.settle(response));
+    worker.on('error', error => this.fail(error));
+    worker.on('exit', code => {
+      if (code !== 0) {
+        this.fail(new Error(`exited with code ${code}`));
+      }
+    });
+    return worker;
+  }
+}
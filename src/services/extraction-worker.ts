@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'worker_threads';
+import { ExtractorRegistry, type RegistrySetup } from './extractor-registry';
+import type { WorkerRequest, WorkerResponse } from './extraction-worker-pool';
+
+// Entry point of the threads started by `ExtractionWorkerPool`
+const setup = workerData as RegistrySetup;
+
+const registry = ExtractorRegistry.create(setup.modules, setup.extractors);
+
+// Requests are handled strictly in arrival order, so the whole index is in place before any extraction
+let queue = Promise.resolve();
+parentPort!.on('message', (request: WorkerRequest) => {
+  queue = queue.then(() => handle(request));
+});
+
+async function handle(request: WorkerRequest): Promise<void> {
+  let response: WorkerResponse;
+  try {
+    const extractors = await registry;
+    if (request.type === 'index') {
+      await extractors.indexDirectly(request.filePath, request.content);
+      response = { id: request.id, endpoints: [] };
+    } else if (request.type === 'apply-index') {
+      extractors.applyIndex(request.contributions);
+      response = { id: request.id, endpoints: [] };
+    } else {
+      response = { id: request.id, endpoints: await extractors.extract(request.filePath, request.content) };
+    }
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  parentPort!.postMessage(response);
+}
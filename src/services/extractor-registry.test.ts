@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExtractorRegistry } from './extractor-registry';
+
+const MODULE = `
+export default {
+  name: 'grpc',
+  filePatterns: ['**/*.proto'],
+  canHandle: filePath => filePath.endsWith('.proto'),
+  extract: () => []
+};
+`;
+
+async function withModule(run: (modulePath: string) => Promise<void>, source = MODULE): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-extractor-'));
+  try {
+    const modulePath = join(directory, 'extractor.mjs');
+    await writeFile(modulePath, source);
+    await run(modulePath);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+function names(registry: ExtractorRegistry): string[] {
+  return registry.getExtractors().map(extractor => extractor.name);
+}
+
+test('the enabled list can name extractors loaded from modules', () => withModule(async modulePath => {
+  const registry = await ExtractorRegistry.create([modulePath], ['spring', 'grpc']);
+
+  assert.deepEqual(names(registry), ['spring', 'grpc']);
+  assert.deepEqual(registry.getSetup(), { modules: [modulePath], extractors: ['spring', 'grpc'] });
+}));
+
+test('module extractors left out of the enabled list are not run', () => withModule(async modulePath => {
+  const registry = await ExtractorRegistry.create([modulePath], ['kotlin']);
+
+  assert.deepEqual(names(registry), ['kotlin']);
+}));
+
+test('without an enabled list every built-in and module extractor runs', () => withModule(async modulePath => {
+  const registry = await ExtractorRegistry.create([modulePath]);
+
+  assert.deepEqual(names(registry), ['spring', 'jax-rs', 'kotlin', 'scala', 'grpc']);
+}));
+
+test('unknown enabled names are an error listing the loaded extractors', () => withModule(async modulePath => {
+  await assert.rejects(
+    ExtractorRegistry.create([modulePath], ['spring', 'graphql']),
+    { message: 'Unknown extractors: graphql (available: spring, jax-rs, kotlin, scala, grpc)' }
+  );
+}));
+
+test('modules may export extractor classes and arrays of extractors', () => withModule(async modulePath => {
+  const registry = await ExtractorRegistry.create([modulePath], ['flask', 'noop']);
+
+  assert.deepEqual(await registry.extract('/project/app.py', '@app.route("/hello")'), [
+    { method: 'GET', path: '/hello', filePath: '/project/app.py', lineNumber: 1 }
+  ]);
+  assert.deepEqual(registry.getFilePatterns(), ['**/*.py']);
+}, `
+class FlaskExtractor {
+  name = 'flask';
+  filePatterns = ['**/*.py'];
+  canHandle(filePath) { return filePath.endsWith('.py'); }
+  extract(filePath) { return [{ method: 'GET', path: '/hello', filePath, lineNumber: 1 }]; }
+}
+export const extractors = [FlaskExtractor, { name: 'noop', filePatterns: [], canHandle: () => false, extract: () => [] }];
+`));
+
+test('modules exporting something other than extractors are rejected', () => withModule(async modulePath => {
+  await assert.rejects(
+    ExtractorRegistry.create([modulePath]),
+    { message: `Extractor module ${modulePath} exports an object that does not implement EndpointExtractor` }
+  );
+}, `export default { name: 'broken', filePatterns: '**/*.py', extract: () => [] };`));
+
+test('a module extractor may not reuse the name of a built-in one', () => withModule(async modulePath => {
+  await assert.rejects(ExtractorRegistry.create([modulePath]), { message: 'An extractor named "spring" is already registered' });
+}, `export default { name: 'spring', filePatterns: [], canHandle: () => false, extract: () => [] };`));
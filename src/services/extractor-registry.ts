@@ -0,0 +1,204 @@
+import { pathToFileURL } from 'url';
+import type { Endpoint } from '@/models/endpoint';
+import type { EndpointExtractor } from '@/models/extractor';
+import { JavaEndpointExtractor } from './java-extractor';
+import { JaxRsEndpointExtractor } from './jaxrs-extractor';
+import { KotlinEndpointExtractor } from './kotlin-extractor';
+import { JavaConstantIndex } from './java-constant-index';
+import { ScalaEndpointExtractor } from './scala-extractor';
+
+// What a worker thread needs to rebuild a registry: the default one, plus modules, narrowed to `extractors`
+export interface RegistrySetup {
+  modules: string[];
+  extractors: string[];
+}
+
+// One extractor's `collectIndex` data for one file
+export interface IndexContribution {
+  extractor: string;
+  data: unknown;
+}
+
+export class ExtractorRegistry {
+  private extractors: EndpointExtractor[] = [];
+  private modulePaths: string[] = [];
+  // Extractors registered in code cannot be rebuilt in a worker thread
+  private registeredInCode = false;
+
+  /**
+   * Registry with the built-in extractors. The JVM extractors share one constant
+   * index so that Java and Kotlin mappings can reference each other's constants;
+   * each fills it from the files it handles, so any enabled subset resolves them.
+   */
+  static createDefault(): ExtractorRegistry {
+    const registry = new ExtractorRegistry();
+    const javaConstants = new JavaConstantIndex();
+
+    registry.add(new JavaEndpointExtractor(javaConstants));
+    registry.add(new JaxRsEndpointExtractor(javaConstants));
+    registry.add(new KotlinEndpointExtractor(javaConstants));
+    registry.add(new ScalaEndpointExtractor());
+
+    return registry;
+  }
+
+  /**
+   * The default registry plus the extractors of `modules`, narrowed to the `enabled` names,
+   * built-in or loaded. Worker threads rebuild theirs from `getSetup()` the same way.
+   */
+  static async create(
+    modules: string[],
+    enabled?: string[],
+    onLoad?: (loaded: EndpointExtractor[]) => void
+  ): Promise<ExtractorRegistry> {
+    const registry = ExtractorRegistry.createDefault();
+    for (const modulePath of modules) {
+      const loaded = await registry.loadModule(modulePath);
+      onLoad?.(loaded);
+    }
+    if (enabled) {
+      registry.retain(enabled);
+    }
+    return registry;
+  }
+
+  register(extractor: EndpointExtractor): void {
+    this.add(extractor);
+    this.registeredInCode = true;
+  }
+
+  private add(extractor: EndpointExtractor): void {
+    if (this.extractors.some(existing => existing.name === extractor.name)) {
+      throw new Error(`An extractor named "${extractor.name}" is already registered`);
+    }
+    this.extractors.push(extractor);
+  }
+
+  // Keeps only the named extractors, e.g. the `extractors.enabled` list of a config file
+  retain(names: string[]): void {
+    const unknown = names.filter(name => !this.extractors.some(extractor => extractor.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown extractors: ${unknown.join(', ')} (available: ${this.extractors.map(extractor => extractor.name).join(', ')})`);
+    }
+    this.extractors = this.extractors.filter(extractor => names.includes(extractor.name));
+  }
+
+  getExtractors(): EndpointExtractor[] {
+    return [...this.extractors];
+  }
+
+  getFilePatterns(): string[] {
+    return [...new Set(this.extractors.flatMap(extractor => extractor.filePatterns))];
+  }
+
+  findExtractors(filePath: string, content: string): EndpointExtractor[] {
+    return this.extractors.filter(extractor => extractor.canHandle(filePath, content));
+  }
+
+  // Like `findExtractors`, minus the extractors whose route tokens do not occur in the file
+  findRouteExtractors(filePath: string, content: string): EndpointExtractor[] {
+    return this.extractors.filter(extractor =>
+      (!extractor.routeTokens || extractor.routeTokens.some(token => content.includes(token))) &&
+      extractor.canHandle(filePath, content)
+    );
+  }
+
+  async extract(filePath: string, content: string): Promise<Endpoint[]> {
+    const endpoints: Endpoint[] = [];
+    for (const extractor of this.findRouteExtractors(filePath, content)) {
+      endpoints.push(...await extractor.extract(filePath, content));
+    }
+    return endpoints;
+  }
+
+  // Extractors handling the file with a split-form index (`collectIndex` and `applyIndex`)
+  findIndexExtractors(filePath: string, content: string): EndpointExtractor[] {
+    return this.findExtractors(filePath, content).filter(extractor => this.hasSplitIndex(extractor));
+  }
+
+  // What the file contributes to the split-form indexes of the extractors handling it
+  collectIndex(filePath: string, content: string): IndexContribution[] {
+    return this.findIndexExtractors(filePath, content)
+      .map(extractor => ({ extractor: extractor.name, data: extractor.collectIndex!(filePath, content) }))
+      .filter(contribution => contribution.data !== undefined);
+  }
+
+  // Adds contributions collected by `collectIndex`, here or in another thread, in file order
+  applyIndex(contributions: IndexContribution[]): void {
+    for (const { extractor: name, data } of contributions) {
+      this.extractors.find(extractor => extractor.name === name)?.applyIndex!(data);
+    }
+  }
+
+  // Runs `index` of the extractors without the split form; false when none of them handles the file
+  async indexDirectly(filePath: string, content: string): Promise<boolean> {
+    const extractors = this.findExtractors(filePath, content).filter(extractor => extractor.index && !this.hasSplitIndex(extractor));
+    for (const extractor of extractors) {
+      await extractor.index!(filePath, content);
+    }
+    return extractors.length > 0;
+  }
+
+  // Per extractor: its index digest, '' without an index, `null` when the index cannot be fingerprinted
+  indexFingerprints(): Record<string, string | null> {
+    return Object.fromEntries(this.extractors.map(extractor =>
+      [extractor.name, extractor.index || this.hasSplitIndex(extractor) ? extractor.indexFingerprint?.() ?? null : '']
+    ));
+  }
+
+  private hasSplitIndex(extractor: EndpointExtractor): boolean {
+    return extractor.collectIndex !== undefined && extractor.applyIndex !== undefined;
+  }
+
+  getSetup(): RegistrySetup {
+    if (this.registeredInCode) {
+      throw new Error('Extractors registered in code cannot run in worker threads; load them with loadModule instead');
+    }
+    return { modules: [...this.modulePaths], extractors: this.extractors.map(extractor => extractor.name) };
+  }
+
+  /**
+   * Loads extra extractors from a local module. The module's default export (or an
+   * `extractors` export) may be an extractor, an extractor class, or an array of either.
+   */
+  async loadModule(modulePath: string): Promise<EndpointExtractor[]> {
+    let module: Record<string, unknown>;
+    try {
+      module = await import(pathToFileURL(modulePath).href);
+    } catch (error) {
+      throw new Error(`Failed to load extractor module ${modulePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const exported = module.default ?? module.extractors;
+    if (exported === undefined) {
+      throw new Error(`Extractor module ${modulePath} has no default or "extractors" export`);
+    }
+
+    const loaded = (Array.isArray(exported) ? exported : [exported]).map(candidate => {
+      const extractor = typeof candidate === 'function' ? new (candidate as new () => unknown)() : candidate;
+      if (!this.isExtractor(extractor)) {
+        throw new Error(`Extractor module ${modulePath} exports an object that does not implement EndpointExtractor`);
+      }
+      return extractor;
+    });
+
+    loaded.forEach(extractor => this.add(extractor));
+    this.modulePaths.push(modulePath);
+    return loaded;
+  }
+
+  private isExtractor(candidate: unknown): candidate is EndpointExtractor {
+    const extractor = candidate as Partial<EndpointExtractor> | null;
+    return typeof extractor === 'object' && extractor !== null &&
+      typeof extractor.name === 'string' &&
+      Array.isArray(extractor.filePatterns) &&
+      typeof extractor.canHandle === 'function' &&
+      typeof extractor.extract === 'function' &&
+      (extractor.routeTokens === undefined || Array.isArray(extractor.routeTokens)) &&
+      (extractor.version === undefined || typeof extractor.version === 'string') &&
+      (extractor.indexFingerprint === undefined || typeof extractor.indexFingerprint === 'function') &&
+      (extractor.index === undefined || typeof extractor.index === 'function') &&
+      (extractor.collectIndex === undefined || typeof extractor.collectIndex === 'function') &&
+      (extractor.applyIndex === undefined || typeof extractor.applyIndex === 'function');
+  }
+}
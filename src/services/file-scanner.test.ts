@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { FileScanner, type ScanProgress } from './file-scanner';
+import { WorkingTreeReader, type SourceReader } from './source-reader';
+
+const FILES = {
+  'src/Urls.java': 'public final class Urls {\n    public static final String USERS = "/api/users";\n}\n',
+  'src/UserController.java': '@RestController\n@RequestMapping(Urls.USERS)\npublic class UserController {\n    @GetMapping("/{id}")\n    public User get(@PathVariable Long id) { return null; }\n}\n',
+  'src/OrderController.java': '@RestController\npublic class OrderController {\n    @PostMapping("/orders")\n    public void create() {}\n}\n'
+};
+
+async function withProject(run: (directory: string) => Promise<void>, files: Record<string, string> = FILES): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-scan-'));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(dirname(join(directory, name)), { recursive: true });
+      await writeFile(join(directory, name), content);
+    }
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('only the given files are extracted, with constants of the other files', () => withProject(async directory => {
+  const result = await new FileScanner().scanDirectory(directory, { onlyFiles: [join(directory, 'src/UserController.java')] });
+
+  assert.equal(result.totalFiles, 3);
+  assert.equal(result.scannedFiles, 1);
+  assert.deepEqual(result.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['GET /api/users/{id}']);
+}));
+
+test('changed files outside the scanned files are ignored', () => withProject(async directory => {
+  const result = await new FileScanner().scanDirectory(directory, {
+    onlyFiles: [join(directory, 'README.md'), join(directory, 'src/OrderController.java')],
+    exclude: ['**/UserController.java']
+  });
+
+  assert.deepEqual(result.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['POST /orders']);
+  assert.deepEqual(result.errors, []);
+}));
+
+const SCALA_FILES = {
+  'src/BaseEndpoints.scala': 'import sttp.tapir._\n\nobject BaseEndpoints {\n  val api = endpoint.in("api")\n}\n',
+  'src/UserEndpoints.scala': 'import sttp.tapir._\nimport BaseEndpoints._\n\nobject UserEndpoints {\n  val listUsers = api.get.in("users")\n}\n'
+};
+
+test('results and cross-file lookups do not depend on concurrency or worker threads', () => withProject(async directory => {
+  const scanner = new FileScanner();
+
+  const sequential = await scanner.scanDirectory(directory, { concurrency: 1 });
+  const concurrent = await scanner.scanDirectory(directory, { concurrency: 16 });
+  const inWorkers = await new FileScanner().scanDirectory(directory, { concurrency: 4, workers: 2 });
+
+  assert.deepEqual(sequential.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), [
+    'POST /orders',
+    'GET /api/users/{id}',
+    'GET /api/users'
+  ]);
+  assert.deepEqual(concurrent, sequential);
+  assert.deepEqual(inWorkers, sequential);
+}, { ...FILES, ...SCALA_FILES }));
+
+test('files without route tokens are only read for the index', () => withProject(async directory => {
+  const reads: string[] = [];
+  const workingTree = new WorkingTreeReader();
+  const reader: SourceReader = {
+    glob: (patterns, root, ignore) => workingTree.glob(patterns, root, ignore),
+    readFile: filePath => {
+      reads.push(relative(directory, filePath));
+      return workingTree.readFile(filePath);
+    }
+  };
+  const progress: ScanProgress[] = [];
+
+  await new FileScanner(undefined, reader).scanDirectory(directory, { onProgress: update => progress.push(update) });
+
+  assert.deepEqual(reads.sort(), [
+    'src/OrderController.java',
+    'src/OrderController.java',
+    'src/Urls.java',
+    'src/UserController.java',
+    'src/UserController.java'
+  ]);
+  assert.deepEqual(progress.map(update => `${update.phase} ${update.processed}/${update.total}`), [
+    'index 1/3', 'index 2/3', 'index 3/3', 'extract 1/3', 'extract 2/3', 'extract 3/3'
+  ]);
+}));
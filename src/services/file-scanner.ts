@@ -1,14 +1,60 @@
-import { readFile } from 'fs/promises';
-import glob from 'fast-glob';
+import { relative, sep } from 'path';
 import type { Endpoint, ScanResult } from '@/models/endpoint';
-import { JavaEndpointExtractor } from './java-extractor';
-import { ScalaEndpointExtractor } from './scala-extractor';
+import type { EndpointExtractor } from '@/models/extractor';
+import { ExtractorRegistry, type IndexContribution } from './extractor-registry';
+import { ExtractionWorkerPool } from './extraction-worker-pool';
+import { contentHash } from './hashing';
+import type { ScanCache } from './scan-cache';
+import { WorkingTreeReader, globToRegExp, type SourceReader } from './source-reader';
+
+export const DEFAULT_SCAN_CONCURRENCY = 16;
+
+export interface ScanOptions {
+  // Extract endpoints from these absolute paths only; every file is still indexed for cross-file lookups
+  onlyFiles?: string[];
+  // Globs relative to the scanned directory: keep only matching files, then drop excluded ones
+  include?: string[];
+  exclude?: string[];
+  // Files read at the same time (default 16)
+  concurrency?: number;
+  // Worker threads running the extractors; 0 extracts on the main thread
+  workers?: number;
+  onProgress?: (progress: ScanProgress) => void;
+  // Reuses endpoints of unchanged files; saving it is up to the caller
+  cache?: ScanCache;
+}
+
+// The indexing pass reads every file; extraction only the files endpoints are taken from
+export interface ScanProgress {
+  phase: 'index' | 'extract';
+  processed: number;
+  total: number;
+}
+
+type Outcome<T> = { value: T } | { error: unknown };
+
+// Kept from the indexing pass, so extraction only reads files it cannot answer otherwise
+interface IndexedFile {
+  // Extractors whose route tokens occur in the file
+  extractors: EndpointExtractor[];
+  // Content hash, with a cache
+  hash?: string;
+}
+
+interface ExtractionContext {
+  pool?: ExtractionWorkerPool;
+  cache?: ScanCache;
+  indexed: Map<string, IndexedFile>;
+  fingerprints: Record<string, string | null>;
+}
 
 export class FileScanner {
-  private javaExtractor = new JavaEndpointExtractor();
-  private scalaExtractor = new ScalaEndpointExtractor();
+  constructor(
+    private registry: ExtractorRegistry = ExtractorRegistry.createDefault(),
+    private reader: SourceReader = new WorkingTreeReader()
+  ) {}
 
-  async scanDirectory(directoryPath: string): Promise<ScanResult> {
+  async scanDirectory(directoryPath: string, options: ScanOptions = {}): Promise<ScanResult> {
     const result: ScanResult = {
       totalFiles: 0,
       scannedFiles: 0,
@@ -16,61 +62,248 @@ export class FileScanner {
       errors: []
     };
 
+    let pool: ExtractionWorkerPool | undefined;
     try {
-      const files = await this.findRelevantFiles(directoryPath);
+      // Sorted, so results come in the same order whatever the concurrency
+      const files = (await this.findRelevantFiles(directoryPath, options)).sort();
       result.totalFiles = files.length;
+      options.cache?.retainSources(files);
+      const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SCAN_CONCURRENCY);
+      if (options.workers) {
+        pool = new ExtractionWorkerPool(this.registry.getSetup(), options.workers);
+      }
 
-      for (const filePath of files) {
+      const indexed = await this.indexSources(files, concurrency, pool, options);
+
+      const onlyFiles = options.onlyFiles && new Set(options.onlyFiles);
+      const targets = onlyFiles ? files.filter(filePath => onlyFiles.has(filePath)) : files;
+      const context: ExtractionContext = {
+        pool,
+        cache: options.cache,
+        indexed,
+        // Cached endpoints are only valid for the same cross-file index
+        fingerprints: options.cache ? this.registry.indexFingerprints() : {}
+      };
+
+      // Files are read (and, with workers, extracted) concurrently but consumed in order
+      await this.forEachInOrder(targets, concurrency, filePath => this.readAndExtract(filePath, context), async (outcome, filePath, index) => {
         try {
-          const content = await readFile(filePath, 'utf-8');
-          const endpoints = await this.extractEndpoints(filePath, content);
-          result.endpoints.push(...endpoints);
+          if ('error' in outcome) {
+            throw outcome.error;
+          }
+          const read = outcome.value;
+          let extracted: Endpoint[];
+          if ('endpoints' in read) {
+            extracted = read.endpoints;
+          } else {
+            extracted = await this.registry.extract(filePath, read.content);
+            if (read.cacheKey) {
+              context.cache!.setEndpoints(filePath, read.cacheKey, extracted);
+            }
+          }
+          result.endpoints.push(...extracted.map(endpoint => this.completePathParameters(endpoint)));
           result.scannedFiles++;
         } catch (error) {
           result.errors.push(`Failed to process ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-      }
+        options.onProgress?.({ phase: 'extract', processed: index + 1, total: targets.length });
+      });
     } catch (error) {
       result.errors.push(`Failed to scan directory: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await pool?.close();
     }
 
     return result;
   }
 
-  private async findRelevantFiles(directoryPath: string): Promise<string[]> {
-    const patterns = [
-      '**/*.java',
-      '**/*.scala',
-      '**/routes'
-    ];
-
-    const files = await glob(patterns, {
-      cwd: directoryPath,
-      absolute: true,
-      ignore: [
-        '**/node_modules/**',
-        '**/target/**',
-        '**/build/**',
-        '**/.git/**',
-        '**/*Test.scala',
-        '**/*Test.java',
-        '**/*Spec.scala',
-        '**/*IT.scala',
-        '**/*IntegrationTest.scala',
-        '**/src/test/**'
-      ]
+  /**
+   * Lets extractors collect cross-file information (constants, mounts, includes) before
+   * extraction. The index is built once on the main thread; worker threads replay it.
+   */
+  private async indexSources(
+    files: string[],
+    concurrency: number,
+    pool: ExtractionWorkerPool | undefined,
+    options: ScanOptions
+  ): Promise<Map<string, IndexedFile>> {
+    const indexed = new Map<string, IndexedFile>();
+    const snapshot: IndexContribution[] = [];
+
+    await this.forEachInOrder(files, concurrency, filePath => this.reader.readFile(filePath), async (outcome, filePath, index) => {
+      // Unreadable files and failing extractors are reported by the extraction pass
+      if ('value' in outcome) {
+        const file = this.describeFile(filePath, outcome.value, options.cache !== undefined);
+        indexed.set(filePath, file);
+        await this.indexFile(filePath, outcome.value, { pool, cache: options.cache, hash: file.hash, snapshot }).catch(() => {});
+      }
+      options.onProgress?.({ phase: 'index', processed: index + 1, total: files.length });
     });
 
+    // A failed worker also fails the extraction requests, which report it
+    await pool?.applyIndex(snapshot).catch(() => {});
+    return indexed;
+  }
+
+  private async indexFile(
+    filePath: string,
+    content: string,
+    { pool, cache, hash, snapshot }: { pool?: ExtractionWorkerPool; cache?: ScanCache; hash?: string; snapshot: IndexContribution[] }
+  ): Promise<void> {
+    // Unchanged files replay their cached index data instead of being parsed again
+    const key = cache && hash !== undefined ? this.indexKey(hash, this.registry.findIndexExtractors(filePath, content)) : undefined;
+    let contributions = key ? cache!.getIndex(filePath, key) : undefined;
+    if (!contributions) {
+      contributions = this.registry.collectIndex(filePath, content);
+      if (key) {
+        contributions = cache!.setIndex(filePath, key, contributions);
+      }
+    }
+    this.registry.applyIndex(contributions);
+    if (pool) {
+      snapshot.push(...contributions);
+    }
+
+    // Extractors with a plain `index` cannot be replayed, so every worker reads the file too
+    if (await this.registry.indexDirectly(filePath, content) && pool) {
+      await pool.index(filePath, content);
+    }
+  }
+
+  private describeFile(filePath: string, content: string, hashed: boolean): IndexedFile {
+    return { extractors: this.registry.findRouteExtractors(filePath, content), hash: hashed ? contentHash(content) : undefined };
+  }
+
+  /**
+   * Files without any route token and cached endpoints are answered without reading
+   * the file again. Otherwise it is read and extracted by the worker pool, or its
+   * content is returned for extraction on the main thread, in file order.
+   */
+  private async readAndExtract(
+    filePath: string,
+    context: ExtractionContext
+  ): Promise<{ content: string; cacheKey?: string } | { endpoints: Endpoint[] }> {
+    // Files that could not be read while indexing are read again, which reports the error
+    const { extractors, hash } = context.indexed.get(filePath) ??
+      this.describeFile(filePath, await this.reader.readFile(filePath), context.cache !== undefined);
+    if (extractors.length === 0) {
+      return { endpoints: [] };
+    }
+
+    const cacheKey = hash !== undefined ? this.cacheKey(filePath, hash, extractors, context.fingerprints) : undefined;
+    const cached = cacheKey && context.cache!.getEndpoints(filePath, cacheKey);
+    if (cached) {
+      return { endpoints: cached };
+    }
+
+    const content = await this.reader.readFile(filePath);
+    if (!context.pool) {
+      return { content, cacheKey };
+    }
+    const endpoints = await context.pool.extract(filePath, content);
+    if (cacheKey) {
+      context.cache!.setEndpoints(filePath, cacheKey, endpoints);
+    }
+    return { endpoints };
+  }
+
+  // Path, content hash and the version and index state of each extractor; undefined when one of them cannot be cached
+  private cacheKey(
+    filePath: string,
+    hash: string,
+    extractors: EndpointExtractor[],
+    fingerprints: Record<string, string | null>
+  ): string | undefined {
+    const parts = [filePath, hash];
+    for (const extractor of extractors) {
+      const fingerprint = fingerprints[extractor.name];
+      if (!extractor.version || fingerprint === null || fingerprint === undefined) {
+        return undefined;
+      }
+      parts.push(`${extractor.name}@${extractor.version}:${fingerprint}`);
+    }
+    return contentHash(parts.join('\n'));
+  }
+
+  // Content hash and the version of each extractor collecting index data; undefined when one has no version
+  private indexKey(hash: string, extractors: EndpointExtractor[]): string | undefined {
+    if (extractors.length === 0 || extractors.some(extractor => !extractor.version)) {
+      return undefined;
+    }
+    return contentHash([hash, ...extractors.map(extractor => `${extractor.name}@${extractor.version}`)].join('\n'));
+  }
+
+  /**
+   * Runs `load` for up to `concurrency` items at a time and hands the results to
+   * `consume` strictly in item order. At most `concurrency` results are held at once.
+   */
+  private async forEachInOrder<T>(
+    items: string[],
+    concurrency: number,
+    load: (item: string) => Promise<T>,
+    consume: (outcome: Outcome<T>, item: string, index: number) => Promise<void>
+  ): Promise<void> {
+    const loading: Promise<Outcome<T>>[] = [];
+    let next = 0;
+    const startNext = () => {
+      if (next < items.length) {
+        loading.push(load(items[next++]).then(value => ({ value }), error => ({ error })));
+      }
+    };
+
+    for (let i = 0; i < concurrency; i++) {
+      startNext();
+    }
+    for (let index = 0; index < items.length; index++) {
+      const outcome = await loading.shift()!;
+      startNext();
+      await consume(outcome, items[index], index);
+    }
+  }
+
+  private async findRelevantFiles(directoryPath: string, options: ScanOptions): Promise<string[]> {
+    const patterns = this.registry.getFilePatterns();
+
+    const files = await this.reader.glob(patterns, directoryPath, [
+      '**/node_modules/**',
+      '**/target/**',
+      '**/build/**',
+      '**/.git/**',
+      '**/*Test.scala',
+      '**/*Test.java',
+      '**/*Test.kt',
+      '**/*Spec.scala',
+      '**/*IT.scala',
+      '**/*IntegrationTest.scala',
+      '**/src/test/**',
+      ...(options.exclude || [])
+    ]);
+
+    if (options.include?.length) {
+      const included = options.include.map(globToRegExp);
+      return files.filter(file => included.some(regex => regex.test(relative(directoryPath, file).split(sep).join('/'))));
+    }
 
     return files;
   }
 
-  private async extractEndpoints(filePath: string, content: string): Promise<Endpoint[]> {
-    if (filePath.endsWith('.java')) {
-      return this.javaExtractor.extract(filePath, content);
-    } else if (filePath.endsWith('.scala') || filePath.endsWith('/routes')) {
-      return this.scalaExtractor.extract(filePath, content);
+  // Every `{name}` template is a path parameter, also for frameworks whose handlers do not declare them
+  private completePathParameters(endpoint: Endpoint): Endpoint {
+    const declared = new Set((endpoint.parameters || []).filter(parameter => parameter.in === 'path').map(parameter => parameter.name));
+    const missing = [...endpoint.path.matchAll(/\{(\w+)(?::[^}]*)?\}/g)]
+      .map(match => match[1])
+      .filter(name => !declared.has(name));
+
+    if (missing.length === 0) {
+      return endpoint;
     }
-    return [];
+
+    return {
+      ...endpoint,
+      parameters: [
+        ...(endpoint.parameters || []),
+        ...[...new Set(missing)].map(name => ({ name, in: 'path' as const, required: true }))
+      ]
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+import { GitRepository } from './git-repository';
+
+function git(directory: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: directory }).toString().trim();
+}
+
+async function writeFiles(directory: string, files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(directory, path)), { recursive: true });
+    await writeFile(join(directory, path), content);
+  }
+}
+
+async function withRepository(files: Record<string, string>, run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-git-'));
+  try {
+    git(directory, 'init', '-q');
+    await writeFiles(directory, files);
+    git(directory, 'add', '-A');
+    git(directory, 'commit', '-q', '-m', 'initial');
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('a revision reader serves the committed content of many files read at once', () => {
+  const files = Object.fromEntries(Array.from({ length: 100 }, (_, index) => [`src/File${index}.java`, `class File${index} {}\n`]));
+
+  return withRepository(files, async directory => {
+    const repository = await GitRepository.open(directory);
+    const reader = repository.createReader(await repository.resolveCommit('HEAD'));
+    await writeFile(join(directory, 'src/File0.java'), 'changed in the working tree');
+
+    const found = await reader.glob(['**/*.java'], directory, []);
+    const contents = await Promise.all(found.map(file => reader.readFile(file)));
+
+    assert.equal(found.length, 100);
+    assert.deepEqual(contents, found.map(file => `class ${basename(file, '.java')} {}\n`));
+  });
+});
+
+test('a revision reader rejects files that are not in the revision', () => withRepository({ 'src/App.java': 'class App {}' }, async directory => {
+  const repository = await GitRepository.open(directory);
+  const reader = repository.createReader(await repository.resolveCommit('HEAD'));
+
+  const [app, missing, tree] = await Promise.allSettled([
+    reader.readFile(join(directory, 'src/App.java')),
+    reader.readFile(join(directory, 'src/Missing.java')),
+    reader.readFile(join(directory, 'src'))
+  ]);
+
+  assert.deepEqual(app, { status: 'fulfilled', value: 'class App {}' });
+  assert.match((missing as PromiseRejectedResult).reason.message, /^ENOENT: no such file in revision [0-9a-f]{12}, open '.*Missing\.java'$/);
+  assert.equal(tree.status, 'rejected');
+}));
+
+test('globbing a revision skips dot directories and excluded files', () => withRepository({
+  'src/App.java': '',
+  'src/AppTest.java': '',
+  '.idea/Tool.java': '',
+  'docs/readme.md': ''
+}, async directory => {
+  const repository = await GitRepository.open(directory);
+  const reader = repository.createReader(await repository.resolveCommit('HEAD'));
+
+  const found = await reader.glob(['**/*.java'], directory, ['**/*Test.java']);
+
+  assert.deepEqual(found, [join(directory, 'src/App.java')]);
+}));
+
+test('changed files are those of the branch since its merge base, plus uncommitted and untracked ones', () => withRepository({
+  'src/Kept.java': 'class Kept {}',
+  'src/Edited.java': 'class Edited {}',
+  'src/Deleted.java': 'class Deleted {}'
+}, async directory => {
+  const mainBranch = git(directory, 'rev-parse', '--abbrev-ref', 'HEAD');
+  git(directory, 'checkout', '-q', '-b', 'feature');
+  await writeFiles(directory, { 'src/Added.java': 'class Added {}' });
+  git(directory, 'add', '-A');
+  git(directory, 'commit', '-q', '-m', 'feature');
+  git(directory, 'checkout', '-q', mainBranch);
+  await writeFiles(directory, { 'src/OnMain.java': 'class OnMain {}' });
+  git(directory, 'add', '-A');
+  git(directory, 'commit', '-q', '-m', 'main');
+  git(directory, 'checkout', '-q', 'feature');
+
+  await writeFiles(directory, { 'src/Edited.java': 'class Edited { int x; }', 'src/Untracked.java': 'class Untracked {}' });
+  await rm(join(directory, 'src/Deleted.java'));
+  const repository = await GitRepository.open(directory);
+
+  assert.deepEqual(await repository.changedFiles(mainBranch), ['Added', 'Edited', 'Untracked'].map(name => join(directory, `src/${name}.java`)));
+  assert.deepEqual(await repository.changedFiles(mainBranch, 'feature'), [join(directory, 'src/Added.java')]);
+}));
+
+test('changed files of a subdirectory are rooted at it', () => withRepository({
+  'service/src/App.java': 'class App {}',
+  'other/Other.java': 'class Other {}'
+}, async directory => {
+  await writeFiles(directory, { 'service/src/App.java': 'class App { }', 'other/Other.java': 'class Other { }' });
+  const repository = await GitRepository.open(join(directory, 'service'));
+
+  assert.deepEqual(await repository.changedFiles('HEAD'), [join(directory, 'service/src/App.java')]);
+  await assert.rejects(repository.changedFiles('no-such-branch'), { message: 'Unknown git revision: no-such-branch' });
+}));
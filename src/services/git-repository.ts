@@ -0,0 +1,183 @@
+import { spawn } from 'child_process';
+import { join, relative, sep } from 'path';
+import { globToRegExp, type SourceReader } from './source-reader';
+
+/**
+ * Git access for revision scans and changed-files mode, through the `git` executable.
+ * All paths are absolute and rooted at the scanned directory, which may be a
+ * subdirectory of the repository.
+ */
+export class GitRepository {
+  private constructor(private directory: string) {}
+
+  static async open(directory: string): Promise<GitRepository> {
+    try {
+      await runGit(['rev-parse', '--show-prefix'], directory);
+    } catch {
+      throw new Error(`Not inside a git repository: ${directory}`);
+    }
+    return new GitRepository(directory);
+  }
+
+  // Full commit hash of a branch, tag or other revision
+  async resolveCommit(ref: string): Promise<string> {
+    try {
+      return (await runGit(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`], this.directory)).toString().trim();
+    } catch {
+      throw new Error(`Unknown git revision: ${ref}`);
+    }
+  }
+
+  /**
+   * Files added or modified since the merge base of `since` and `ref`, like the
+   * changes of a pull request. Without `ref` the working tree counts, including
+   * uncommitted and untracked files. Deleted files are left out.
+   */
+  async changedFiles(since: string, ref?: string): Promise<string[]> {
+    const target = ref ? await this.resolveCommit(ref) : 'HEAD';
+    const sinceCommit = await this.resolveCommit(since);
+    let base = sinceCommit;
+    try {
+      base = (await runGit(['merge-base', sinceCommit, target], this.directory)).toString().trim();
+    } catch {
+      // Unrelated histories: compare with `since` itself
+    }
+
+    const diffArgs = ['diff', '--name-only', '-z', '--no-renames', '--diff-filter=d', '--relative', base, ...(ref ? [target] : []), '--'];
+    const files = splitNul(await runGit(diffArgs, this.directory));
+    if (!ref) {
+      files.push(...splitNul(await runGit(['ls-files', '--others', '--exclude-standard', '-z'], this.directory)));
+    }
+
+    return [...new Set(files)].map(file => join(this.directory, file)).sort();
+  }
+
+  createReader(commit: string): GitRevisionReader {
+    return new GitRevisionReader(this.directory, commit);
+  }
+}
+
+// Most files one `git cat-file --batch` call reads, so a revision scan never holds more blobs than this
+const BATCH_SIZE = 64;
+
+interface PendingRead {
+  filePath: string;
+  resolve: (content: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Serves the files of one commit without checking it out. Blobs are read when asked
+ * for and not kept: reads requested while another batch is running are served
+ * together by one `git cat-file --batch` call.
+ */
+export class GitRevisionReader implements SourceReader {
+  private pending: PendingRead[] = [];
+  private reading = false;
+  private files?: string[];
+
+  constructor(private directory: string, private commit: string) {}
+
+  async glob(patterns: string[], directory: string, ignore: string[]): Promise<string[]> {
+    const included = patterns.map(globToRegExp);
+    const excluded = ignore.map(globToRegExp);
+
+    return (await this.listFiles())
+      .filter(file => file === directory || file.startsWith(`${directory}${sep}`))
+      .filter(file => {
+        const path = relative(directory, file).split(sep).join('/');
+        // Like fast-glob, `*` and `**` skip dot files and directories
+        return !path.split('/').some(segment => segment.startsWith('.'))
+          && included.some(regex => regex.test(path))
+          && !excluded.some(regex => regex.test(path));
+      });
+  }
+
+  readFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ filePath, resolve, reject });
+      if (!this.reading) {
+        this.reading = true;
+        setImmediate(() => this.readPending());
+      }
+    });
+  }
+
+  private async listFiles(): Promise<string[]> {
+    // ls-tree lists the tree of the current directory, with paths relative to it
+    this.files ??= splitNul(await runGit(['ls-tree', '-r', '-z', '--name-only', this.commit], this.directory))
+      .map(file => join(this.directory, file));
+    return this.files;
+  }
+
+  private async readPending(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, BATCH_SIZE);
+      try {
+        const blobs = await this.readBlobs(batch.map(read => read.filePath));
+        batch.forEach((read, index) => {
+          const content = blobs[index];
+          if (content === undefined) {
+            read.reject(new Error(`ENOENT: no such file in revision ${this.commit.slice(0, 12)}, open '${read.filePath}'`));
+          } else {
+            read.resolve(content);
+          }
+        });
+      } catch (error) {
+        batch.forEach(read => read.reject(error instanceof Error ? error : new Error(String(error))));
+      }
+    }
+    this.reading = false;
+  }
+
+  // Contents in the order of `files`, `undefined` for files that are not blobs of the commit
+  private async readBlobs(files: string[]): Promise<Array<string | undefined>> {
+    const input = files.map(file => `${this.commit}:./${this.toGitPath(file)}\n`).join('');
+    const output = await runGit(['cat-file', '--batch'], this.directory, input);
+
+    // Each entry: `<oid> <type> <size>\n<content>\n`, or `<name> missing\n` without content
+    let offset = 0;
+    return files.map(() => {
+      const headerEnd = output.indexOf(0x0a, offset);
+      const header = output.subarray(offset, headerEnd).toString().match(/^[0-9a-f]+ (\w+) (\d+)$/);
+      offset = headerEnd + 1;
+      if (!header) {
+        return undefined;
+      }
+
+      const [, type, size] = header;
+      const content = output.subarray(offset, offset + Number(size));
+      offset += Number(size) + 1;
+      return type === 'blob' ? content.toString('utf-8') : undefined;
+    });
+  }
+
+  private toGitPath(filePath: string): string {
+    return relative(this.directory, filePath).split(sep).join('/');
+  }
+}
+
+function splitNul(output: Buffer): string[] {
+  return output.toString('utf-8').split('\0').filter(Boolean);
+}
+
+function runGit(args: string[], cwd: string, input?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(Buffer.concat(stderr).toString().trim() || `git ${args[0]} exited with code ${code}`));
+      }
+    });
+
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+
+// Hex SHA-256, for file contents and cache keys
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Digest of extractor index state (maps, sets, arrays and plain objects). Objects
+ * reached more than once, like the constant scope shared by a file's constants, are
+ * hashed once and referenced by position afterwards.
+ */
+export function fingerprintState(...values: unknown[]): string {
+  const hash = createHash('sha256');
+  const seen = new Map<object, number>();
+
+  const visit = (value: unknown): void => {
+    if (value === null || typeof value !== 'object') {
+      hash.update(`${value === undefined ? 'undefined' : JSON.stringify(value)};`);
+      return;
+    }
+    const position = seen.get(value);
+    if (position !== undefined) {
+      hash.update(`@${position};`);
+      return;
+    }
+    seen.set(value, seen.size);
+
+    if (value instanceof Map) {
+      hash.update(`map(${value.size})`);
+      value.forEach((entry, key) => { visit(key); visit(entry); });
+    } else if (value instanceof Set) {
+      hash.update(`set(${value.size})`);
+      value.forEach(visit);
+    } else if (Array.isArray(value)) {
+      hash.update(`array(${value.length})`);
+      value.forEach(visit);
+    } else {
+      const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+      hash.update(`object(${entries.length})`);
+      entries.forEach(([key, entry]) => { hash.update(`${JSON.stringify(key)}=`); visit(entry); });
+    }
+  };
+
+  values.forEach(visit);
+  return hash.digest('hex');
+}
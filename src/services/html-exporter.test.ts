@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EndpointWithCoverage, ScanResultWithCoverage } from '@/models/endpoint';
+import { HtmlExporter } from './html-exporter';
+
+function endpoint(className: string, path: string, status: 'covered' | 'not-covered'): EndpointWithCoverage {
+  return { method: 'GET', path, filePath: `/project/src/${className}.java`, lineNumber: 7, className, apiSpecCoverage: { status } };
+}
+
+const result: ScanResultWithCoverage = {
+  totalFiles: 2,
+  scannedFiles: 2,
+  endpoints: [
+    endpoint('UserController', '/users', 'covered'),
+    endpoint('UserController', '/users/{id}', 'not-covered'),
+    endpoint('AdminController', '/admin/<script>', 'covered')
+  ],
+  errors: ['Error scanning "Broken.java": <unexpected>'],
+  apiSpecs: [{ filePath: '/project/openapi.yaml', type: 'openapi', version: '3.0.3', basePaths: ['/api'], endpointCount: 2 }]
+};
+
+test('the report is a single file without network resources', () => {
+  const html = new HtmlExporter().render(result, '/project');
+
+  assert.match(html, /^<!DOCTYPE html>/);
+  assert.doesNotMatch(html, /<link\b|\bsrc=|https?:\/\//);
+  assert.match(html, /<style>[^]+<\/style>/);
+  assert.match(html, /<script>[^]+<\/script>/);
+});
+
+test('endpoints are grouped per controller with a coverage bar and a link to their source line', () => {
+  const html = new HtmlExporter().render(result, '/project');
+
+  assert.deepEqual([...html.matchAll(/<summary>(\w+)<small>(\d+) endpoints<\/small>(?:.*?<small>(\d+)%)?/g)].map(match => match.slice(1)), [
+    ['AdminController', '1', '100'],
+    ['UserController', '2', '50']
+  ]);
+  assert.match(html, /<a href="file:\/\/\/project\/src\/UserController\.java" title="line 7"><code>src\/UserController\.java:7<\/code><\/a>/);
+  assert.match(html, /<code>openapi\.yaml<\/code>/);
+});
+
+test('scanned text is escaped', () => {
+  const html = new HtmlExporter().render(result, '/project');
+
+  assert.match(html, /<code>\/admin\/&lt;script&gt;<\/code>/);
+  assert.match(html, /<li>Error scanning &quot;Broken\.java&quot;: &lt;unexpected&gt;<\/li>/);
+  assert.doesNotMatch(html, /<unexpected>|\/admin\/<script>/);
+});
@@ -0,0 +1,318 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname, relative } from 'path';
+import { pathToFileURL } from 'url';
+import type { ScanResult, ScanResultWithCoverage, Endpoint, EndpointWithCoverage, ApiSpecInfo, SpecDriftReport } from '@/models/endpoint';
+
+interface EndpointGroup {
+  name: string;
+  endpoints: Array<Endpoint | EndpointWithCoverage>;
+}
+
+const STYLES = `
+*{box-sizing:border-box}
+body{font:14px/1.45 -apple-system,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;margin:0;color:#1f2328;background:#f6f8fa}
+header{background:#24292f;color:#fff;padding:20px 32px}
+header h1{margin:0 0 4px;font-size:22px}
+header p{margin:0;color:#afb8c1}
+main{padding:24px 32px;max-width:1400px}
+section{background:#fff;border:1px solid #d0d7de;border-radius:6px;padding:16px 20px;margin-bottom:20px}
+h2{font-size:17px;margin:0 0 12px}
+.cards{display:flex;flex-wrap:wrap;gap:12px}
+.card{border:1px solid #d0d7de;border-radius:6px;padding:10px 16px;min-width:130px}
+.card b{display:block;font-size:22px}
+.bar{display:inline-block;width:200px;height:12px;background:#eaeef2;border-radius:6px;overflow:hidden;vertical-align:middle}
+.bar span{display:block;height:100%;background:#2da44e}
+.bar.mid span{background:#d4a72c}
+.bar.low span{background:#cf222e}
+.filters{display:flex;flex-wrap:wrap;gap:8px;margin-bottom:12px}
+.filters input,.filters select{padding:5px 8px;border:1px solid #d0d7de;border-radius:6px;font:inherit}
+.filters input{flex:1;min-width:220px}
+details{border-top:1px solid #d0d7de;padding:8px 0}
+summary{cursor:pointer;font-weight:600}
+summary .bar{width:120px;margin-left:8px}
+summary small{font-weight:normal;color:#57606a;margin-left:8px}
+table{border-collapse:collapse;width:100%;margin-top:8px}
+th,td{text-align:left;padding:5px 8px;border-bottom:1px solid #eaeef2;vertical-align:top}
+th{background:#f6f8fa;cursor:pointer;user-select:none;white-space:nowrap}
+th[data-order=asc]::after{content:" \\25B2"}
+th[data-order=desc]::after{content:" \\25BC"}
+code{font:12px ui-monospace,SFMono-Regular,Menlo,monospace}
+.method{font-weight:700;font-family:ui-monospace,monospace}
+.GET{color:#1a7f37}.POST{color:#0969da}.PUT{color:#9a6700}.PATCH{color:#8250df}.DELETE{color:#cf222e}.ANY{color:#57606a}
+.badge{display:inline-block;padding:1px 8px;border-radius:10px;font-size:12px;white-space:nowrap}
+.covered{background:#dafbe1;color:#1a7f37}
+.not-covered{background:#ffebe9;color:#cf222e}
+.no-spec-found{background:#fff8c5;color:#9a6700}
+.muted{color:#57606a;font-size:12px}
+.hidden{display:none}
+ul{margin:0;padding-left:20px}
+`;
+
+// Text filter, method and status selects, and click-to-sort headers; no external resources
+const SCRIPT = `
+(function () {
+  var search = document.getElementById('filter-text');
+  var method = document.getElementById('filter-method');
+  var status = document.getElementById('filter-status');
+  function applyFilters() {
+    var text = search.value.toLowerCase();
+    document.querySelectorAll('details.group').forEach(function (group) {
+      var visible = 0;
+      group.querySelectorAll('tbody tr').forEach(function (row) {
+        var show = row.textContent.toLowerCase().indexOf(text) !== -1 &&
+          (!method.value || row.dataset.method === method.value) &&
+          (!status || !status.value || row.dataset.status === status.value);
+        row.classList.toggle('hidden', !show);
+        if (show) visible++;
+      });
+      group.classList.toggle('hidden', visible === 0);
+    });
+  }
+  [search, method, status].forEach(function (input) { if (input) input.addEventListener('input', applyFilters); });
+  document.querySelectorAll('th').forEach(function (header) {
+    header.addEventListener('click', function () {
+      var table = header.closest('table');
+      var index = Array.prototype.indexOf.call(header.parentNode.children, header);
+      var order = header.dataset.order === 'asc' ? 'desc' : 'asc';
+      table.querySelectorAll('th').forEach(function (other) { delete other.dataset.order; });
+      header.dataset.order = order;
+      var body = table.querySelector('tbody');
+      Array.prototype.slice.call(body.rows).sort(function (a, b) {
+        var x = a.cells[index].dataset.sort || a.cells[index].textContent;
+        var y = b.cells[index].dataset.sort || b.cells[index].textContent;
+        var result = x.localeCompare(y, undefined, { numeric: true });
+        return order === 'asc' ? result : -result;
+      }).forEach(function (row) { body.appendChild(row); });
+    });
+  });
+})();
+`;
+
+/**
+ * Renders a single offline HTML file: summary cards with coverage bars, the specs
+ * found, one sortable and filterable table per controller, spec drift and errors.
+ */
+export class HtmlExporter {
+  render(result: ScanResult | ScanResultWithCoverage, directory: string): string {
+    const withCoverage = 'apiSpecs' in result ? result : undefined;
+    const title = `Endpoint report: ${this.projectName(directory)}`;
+
+    const sections = [
+      this.renderSummary(result, withCoverage),
+      withCoverage ? this.renderApiSpecs(withCoverage.apiSpecs, directory) : '',
+      this.renderEndpoints(result.endpoints, directory, Boolean(withCoverage)),
+      withCoverage?.specDrift ? this.renderSpecDrift(withCoverage.specDrift, directory) : '',
+      result.errors.length > 0
+        ? `<section><h2>Errors (${result.errors.length})</h2><ul>${result.errors.map(error => `<li>${this.escape(error)}</li>`).join('')}</ul></section>`
+        : ''
+    ];
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${this.escape(title)}</title>`,
+      `<style>${STYLES}</style>`,
+      '</head>',
+      '<body>',
+      `<header><h1>${this.escape(title)}</h1><p>${this.escape(directory)} · generated ${this.escape(new Date().toISOString())}</p></header>`,
+      `<main>${sections.filter(Boolean).join('\n')}</main>`,
+      `<script>${SCRIPT}</script>`,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  async exportToHtml(result: ScanResult | ScanResultWithCoverage, directory: string, outputPath: string): Promise<void> {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, this.render(result, directory), 'utf-8');
+  }
+
+  private renderSummary(result: ScanResult, withCoverage: ScanResultWithCoverage | undefined): string {
+    const methods = new Map<string, number>();
+    for (const endpoint of result.endpoints) {
+      methods.set(endpoint.method, (methods.get(endpoint.method) || 0) + 1);
+    }
+
+    const cards = [
+      this.card('Endpoints', String(result.endpoints.length)),
+      this.card('Files scanned', `${result.scannedFiles} / ${result.totalFiles}`),
+      ...[...methods.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([method, count]) => this.card(method, String(count)))
+    ];
+
+    let coverage = '';
+    if (withCoverage) {
+      const stats = this.coverageStats(withCoverage.endpoints);
+      cards.push(this.card('Covered', String(stats.covered)), this.card('Not covered', String(stats.notCovered)));
+      if (stats.noSpec > 0) cards.push(this.card('No spec found', String(stats.noSpec)));
+      coverage = stats.percentage === undefined
+        ? '<p>No API specifications found.</p>'
+        : `<p>Coverage ${this.progressBar(stats.percentage)} <b>${stats.percentage}%</b></p>`;
+    }
+
+    return `<section><h2>Summary</h2><div class="cards">${cards.join('')}</div>${coverage}</section>`;
+  }
+
+  private renderApiSpecs(apiSpecs: ApiSpecInfo[], directory: string): string {
+    if (apiSpecs.length === 0) {
+      return '<section><h2>API Specifications</h2><p>No API specifications found.</p></section>';
+    }
+
+    const rows = apiSpecs.map(spec => `<tr>
+<td><a href="${this.fileLink(spec.filePath)}"><code>${this.escape(relative(directory, spec.filePath) || spec.filePath)}</code></a></td>
+<td>${this.escape(spec.type.toUpperCase())} v${this.escape(spec.version)}</td>
+<td data-sort="${String(spec.endpointCount).padStart(6, '0')}">${spec.endpointCount}</td>
+<td>${this.escape(spec.basePaths.join(', '))}</td>
+<td>${this.escape(spec.module || '')}</td>
+</tr>`);
+
+    return `<section><h2>API Specifications (${apiSpecs.length})</h2>
+<table><thead><tr><th>File</th><th>Type</th><th>Endpoints</th><th>Base paths</th><th>Module</th></tr></thead>
+<tbody>${rows.join('')}</tbody></table></section>`;
+  }
+
+  private renderEndpoints(endpoints: Array<Endpoint | EndpointWithCoverage>, directory: string, withCoverage: boolean): string {
+    const methods = [...new Set(endpoints.map(endpoint => endpoint.method))].sort();
+    const filters = [
+      '<div class="filters">',
+      '<input id="filter-text" type="search" placeholder="Filter by path, controller, handler or file">',
+      `<select id="filter-method"><option value="">All methods</option>${methods.map(method => `<option>${method}</option>`).join('')}</select>`,
+      withCoverage
+        ? '<select id="filter-status"><option value="">All statuses</option><option value="covered">Covered</option><option value="not-covered">Not covered</option><option value="no-spec-found">No spec found</option></select>'
+        : '',
+      '</div>'
+    ].join('');
+
+    const headers = ['Method', 'Path', 'Handler', 'Source', ...(withCoverage ? ['Coverage', 'Spec operation'] : [])];
+    const groups = this.groupByController(endpoints, directory).map(group => {
+      let bar = '';
+      if (withCoverage) {
+        const stats = this.coverageStats(group.endpoints as EndpointWithCoverage[]);
+        if (stats.percentage !== undefined) bar = `${this.progressBar(stats.percentage)}<small>${stats.percentage}%</small>`;
+      }
+
+      const rows = group.endpoints.map(endpoint => this.renderEndpointRow(endpoint, directory, withCoverage));
+      return `<details class="group" open><summary>${this.escape(group.name)}<small>${group.endpoints.length} endpoints</small>${bar}</summary>
+<table><thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>
+<tbody>${rows.join('')}</tbody></table></details>`;
+    });
+
+    return `<section><h2>Endpoints by controller (${endpoints.length})</h2>${filters}${groups.join('\n') || '<p>No endpoints found.</p>'}</section>`;
+  }
+
+  private renderEndpointRow(endpoint: Endpoint | EndpointWithCoverage, directory: string, withCoverage: boolean): string {
+    const coverage = 'apiSpecCoverage' in endpoint ? endpoint.apiSpecCoverage : undefined;
+    const source = `${relative(directory, endpoint.filePath) || endpoint.filePath}:${endpoint.lineNumber}`;
+    const cells = [
+      `<td class="method ${this.escape(endpoint.method)}">${this.escape(endpoint.method)}</td>`,
+      `<td><code>${this.escape(endpoint.path)}</code>${this.renderParameters(endpoint)}</td>`,
+      `<td>${this.escape(endpoint.methodName || '')}</td>`,
+      `<td data-sort="${this.escape(source)}"><a href="${this.fileLink(endpoint.filePath)}" title="line ${endpoint.lineNumber}"><code>${this.escape(source)}</code></a></td>`
+    ];
+
+    if (withCoverage && coverage) {
+      const match = coverage.pathMatch && coverage.pathMatch.type !== 'exact'
+        ? `<div class="muted">${this.escape(coverage.pathMatch.type)}: ${this.escape(coverage.pathMatch.reasons.join(', '))}</div>`
+        : '';
+      const notes = [
+        coverage.documentedMethods ? `spec documents ${coverage.documentedMethods.join(', ')}` : '',
+        coverage.undocumentedParameters?.length ? `undocumented: ${coverage.undocumentedParameters.join(', ')}` : ''
+      ].filter(Boolean).map(note => `<div class="muted">${this.escape(note)}</div>`).join('');
+      const operation = coverage.matchedEndpoint
+        ? `${this.escape(coverage.matchedEndpoint.operationId || coverage.matchedEndpoint.summary || '')} <code>${this.escape(`${coverage.matchedEndpoint.method} ${coverage.matchedEndpoint.path}`)}</code>`
+        : '';
+
+      cells.push(
+        `<td><span class="badge ${coverage.status}">${this.statusText(coverage.status)}</span>${notes}</td>`,
+        `<td>${operation}${match}</td>`
+      );
+    }
+
+    return `<tr data-method="${this.escape(endpoint.method)}" data-status="${coverage?.status || ''}">${cells.join('')}</tr>`;
+  }
+
+  private renderParameters(endpoint: Endpoint): string {
+    const details = [
+      endpoint.parameters?.length
+        ? `Params: ${endpoint.parameters.map(parameter => `${parameter.name}${parameter.required === false ? '?' : ''} (${parameter.in})`).join(', ')}`
+        : '',
+      endpoint.requestBody ? `Body: ${endpoint.requestBody}` : '',
+      endpoint.returnType ? `Returns: ${endpoint.returnType}` : ''
+    ].filter(Boolean);
+
+    return details.length > 0 ? `<div class="muted">${this.escape(details.join(' · '))}</div>` : '';
+  }
+
+  private renderSpecDrift(report: SpecDriftReport, directory: string): string {
+    const missingInCode = report.missingInCode.map(operation => `<tr>
+<td class="method ${this.escape(operation.method)}">${this.escape(operation.method)}</td>
+<td><code>${this.escape(operation.path)}</code></td>
+<td>${this.escape(operation.operationId || operation.summary || '')}</td>
+<td><code>${this.escape(relative(directory, operation.specFile) || operation.specFile)}</code></td>
+<td>${this.escape(operation.implementedMethods ? `code implements ${operation.implementedMethods.join(', ')}` : '')}</td>
+</tr>`);
+
+    return `<section><h2>Spec drift</h2>
+<p>${report.missingInCode.length} documented operations are not implemented; ${report.missingInSpec.length} endpoints are not documented (filter the endpoint tables by "Not covered").</p>
+${missingInCode.length > 0 ? `<table><thead><tr><th>Method</th><th>Path</th><th>Operation</th><th>Spec file</th><th>Note</th></tr></thead><tbody>${missingInCode.join('')}</tbody></table>` : ''}
+</section>`;
+  }
+
+  // Endpoints grouped by class name, or by file for routes without one (Play routes, DSL routes)
+  private groupByController(endpoints: Array<Endpoint | EndpointWithCoverage>, directory: string): EndpointGroup[] {
+    const groups = new Map<string, EndpointGroup>();
+    for (const endpoint of endpoints) {
+      const name = endpoint.className || relative(directory, endpoint.filePath) || endpoint.filePath;
+      const group = groups.get(name) ?? { name, endpoints: [] };
+      group.endpoints.push(endpoint);
+      groups.set(name, group);
+    }
+    return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private coverageStats(endpoints: EndpointWithCoverage[]): { covered: number; notCovered: number; noSpec: number; percentage?: number } {
+    const covered = endpoints.filter(e => e.apiSpecCoverage.status === 'covered').length;
+    const notCovered = endpoints.filter(e => e.apiSpecCoverage.status === 'not-covered').length;
+    const noSpec = endpoints.filter(e => e.apiSpecCoverage.status === 'no-spec-found').length;
+    const withSpec = covered + notCovered;
+    return { covered, notCovered, noSpec, percentage: withSpec > 0 ? Math.round((covered / withSpec) * 100) : undefined };
+  }
+
+  // Same thresholds as the console bar: green from 80%, yellow from 60%
+  private progressBar(percentage: number): string {
+    const level = percentage >= 80 ? '' : percentage >= 60 ? ' mid' : ' low';
+    return `<span class="bar${level}" title="${percentage}%"><span style="width:${percentage}%"></span></span>`;
+  }
+
+  private card(label: string, value: string): string {
+    return `<div class="card"><b>${this.escape(value)}</b>${this.escape(label)}</div>`;
+  }
+
+  private statusText(status: string): string {
+    switch (status) {
+      case 'covered': return 'Covered';
+      case 'not-covered': return 'Not covered';
+      default: return 'No spec found';
+    }
+  }
+
+  private fileLink(filePath: string): string {
+    return this.escape(pathToFileURL(filePath).href);
+  }
+
+  private projectName(directory: string): string {
+    return directory.split(/[\\/]/).filter(Boolean).pop() || directory;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Http4sRouteExtractor } from './http4s-extractor';
+
+const USER_ROUTES = `
+import org.http4s.dsl.io._
+
+object UserRoutes {
+  object PageMatcher extends OptionalQueryParamDecoderMatcher[Int]("page")
+
+  val userRoutes: HttpRoutes[IO] = HttpRoutes.of[IO] {
+    case GET -> Root / "users" :? PageMatcher(page) => Ok()
+    case GET -> Root / "users" / IntVar(id) => Ok()
+  }
+}
+`;
+
+const SERVER = `
+import org.http4s.server.Router
+
+object Server {
+  val httpApp = Router("/api/v1" -> UserRoutes.userRoutes).orNotFound
+}
+`;
+
+function indexedExtractor(files: Record<string, string>): Http4sRouteExtractor {
+  const extractor = new Http4sRouteExtractor();
+  for (const [filePath, content] of Object.entries(files)) {
+    extractor.applyMounts(extractor.collectMounts(filePath, content));
+  }
+  return extractor;
+}
+
+test('routes get the prefix of a Router in another file', () => {
+  const extractor = indexedExtractor({ '/project/UserRoutes.scala': USER_ROUTES, '/project/Server.scala': SERVER });
+
+  const endpoints = extractor.extract('/project/UserRoutes.scala', USER_ROUTES);
+
+  assert.deepEqual(endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['GET /api/v1/users', 'GET /api/v1/users/{id}']);
+});
+
+test('a query matcher object declared before the routes does not own them', () => {
+  const extractor = indexedExtractor({ '/project/UserRoutes.scala': USER_ROUTES, '/project/Server.scala': SERVER });
+
+  const [list] = extractor.extract('/project/UserRoutes.scala', USER_ROUTES);
+
+  assert.equal(list.className, 'UserRoutes');
+  assert.equal(list.methodName, 'userRoutes');
+  assert.deepEqual(list.parameters, [{ name: 'page', in: 'query', type: 'Int', required: false }]);
+});
+
+test('nested Routers and <+> compositions add up their prefixes', () => {
+  const content = `
+import org.http4s.server.Router
+
+class Api[F[_]] {
+  val health = HttpRoutes.of[F] { case GET -> Root / "health" => Ok() }
+  val orders = HttpRoutes.of[F] { case POST -> Root / "orders" => Ok() }
+  val all = health <+> orders
+  val app = Router("/api" -> Router("/v2" -> all))
+}
+`;
+
+  const endpoints = indexedExtractor({ '/project/Api.scala': content }).extract('/project/Api.scala', content);
+
+  assert.deepEqual(endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['GET /api/v2/health', 'POST /api/v2/orders']);
+});
@@ -0,0 +1,641 @@
+import { NAMED_HTTP_METHODS, type Endpoint, type EndpointParameter, type HttpMethod } from '@/models/endpoint';
+import { JavaSourceParser, type JavaToken } from './java-source-parser';
+import { joinPathSegments } from './path-utils';
+import { fingerprintState } from './hashing';
+
+// Built-in path extractors, with the placeholder used when the bound value is discarded (`IntVar(_)`)
+const VAR_EXTRACTORS: Record<string, string> = {
+  IntVar: 'int',
+  LongVar: 'long',
+  UUIDVar: 'uuid'
+};
+
+const VAR_TYPES: Record<string, string> = {
+  IntVar: 'Int',
+  LongVar: 'Long',
+  UUIDVar: 'UUID'
+};
+
+// `QueryParamDecoderMatcher`, `OptionalQueryParamDecoderMatcher`, `FlagQueryParamMatcher`, ...
+const QUERY_MATCHER_BASE = /^(Optional|OptionalMulti|OptionalValidating|Validating|Flag)?QueryParam(Decoder)?Matcher$/;
+
+const ROUTE_BUILDERS = ['HttpRoutes', 'AuthedRoutes', 'ContextRoutes'];
+
+// Statements that end a body-less `object X extends Y(...)` before any `{` could open its body
+const STATEMENT_KEYWORDS = ['val', 'var', 'def', 'class', 'object', 'trait', 'type', 'import'];
+
+// A routes value, identified by its enclosing class/object and the `val`/`def` holding it
+interface RoutesOwner {
+  className?: string;
+  member: string;
+}
+
+// The expression a Router mounts, e.g. `userRoutes` or `new UserRoutes[IO](service).routes`
+interface RoutesReference {
+  qualifier?: string;
+  member: string;
+}
+
+interface RouterMount {
+  prefix: string;
+  target: RoutesReference;
+  owner?: RoutesOwner;
+}
+
+interface Http4sRoute {
+  method: HttpMethod;
+  path: string;
+  line: number;
+  className?: string;
+  owner?: RoutesOwner;
+  pathParameters: EndpointParameter[];
+  // `:? PageMatcher(page)` → matcher `PageMatcher` bound to `page`
+  queryMatchers: Array<{ matcher: string; binding?: string }>;
+}
+
+// `object PageMatcher extends OptionalQueryParamDecoderMatcher[Int]("page")`
+interface QueryMatcher {
+  name: string;
+  type?: string;
+  required: boolean;
+}
+
+interface Definition {
+  name: string;
+  depth: number;
+}
+
+interface ParsedFile {
+  routes: Http4sRoute[];
+  mounts: RouterMount[];
+  matchers: Map<string, QueryMatcher>;
+}
+
+interface MountIndex {
+  mounts: RouterMount[];
+  // `Class.member` keys of every value that defines routes or mounts other routes
+  owners: Set<string>;
+}
+
+// What one file adds to the index
+export interface Http4sIndexData {
+  filePath: string;
+  mounts: MountIndex;
+  matchers: Map<string, QueryMatcher>;
+}
+
+export class Http4sRouteExtractor {
+  private parser = new JavaSourceParser();
+  private projectMounts = new Map<string, MountIndex>();
+  private projectMatchers = new Map<string, QueryMatcher>();
+
+  canHandle(content: string): boolean {
+    return content.includes('http4s') || /->\s*Root\b/.test(content);
+  }
+
+  /**
+   * The `Router("/prefix" -> routes)` mounts and `<+>` compositions of a source
+   * file, so that routes defined in other files get their mounted prefix.
+   */
+  collectMounts(filePath: string, content: string): Http4sIndexData {
+    const parsed = this.parseFile(filePath, content);
+    return { filePath, mounts: this.buildIndex([parsed]), matchers: parsed.matchers };
+  }
+
+  applyMounts({ filePath, mounts, matchers }: Http4sIndexData): void {
+    this.projectMounts.set(filePath, mounts);
+    for (const [name, matcher] of matchers) {
+      if (!this.projectMatchers.has(name)) {
+        this.projectMatchers.set(name, matcher);
+      }
+    }
+  }
+
+  indexFingerprint(): string {
+    return fingerprintState(this.projectMounts, this.projectMatchers);
+  }
+
+  extract(filePath: string, content: string): Endpoint[] {
+    const parsed = this.parseFile(filePath, content);
+    const index = this.buildIndex([parsed], [...this.projectMounts].filter(([path]) => path !== filePath).map(([, other]) => other));
+    const matchers = new Map([...this.projectMatchers, ...parsed.matchers]);
+    const endpoints: Endpoint[] = [];
+
+    for (const route of parsed.routes) {
+      const prefixes = route.owner ? this.resolvePrefixes(route.owner, index, new Set()) : [''];
+      const parameters = [...route.pathParameters, ...this.resolveQueryParameters(route, matchers)];
+
+      for (const prefix of prefixes) {
+        endpoints.push({
+          method: route.method,
+          path: joinPathSegments(prefix, route.path),
+          filePath,
+          lineNumber: route.line,
+          className: route.className,
+          methodName: route.owner && !route.owner.member.startsWith('#') ? route.owner.member : undefined,
+          parameters
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  // Matchers declared in the project carry the real parameter name; unknown ones fall back to the binding
+  private resolveQueryParameters(route: Http4sRoute, matchers: Map<string, QueryMatcher>): EndpointParameter[] {
+    return route.queryMatchers.flatMap(({ matcher, binding }) => {
+      const declared = matchers.get(matcher);
+      const name = declared?.name ?? binding;
+      return name ? [{ name, in: 'query' as const, type: declared?.type, required: declared?.required }] : [];
+    });
+  }
+
+  /**
+   * Walks the mounts upwards from a routes value: every Router that mounts it (directly,
+   * through `<+>` or through another Router) contributes one externally visible prefix.
+   */
+  private resolvePrefixes(owner: RoutesOwner, index: MountIndex, visited: Set<string>): string[] {
+    const key = this.ownerKey(owner);
+    if (visited.has(key)) {
+      return [''];
+    }
+    const trail = new Set(visited).add(key);
+
+    const matching = index.mounts.filter(mount => this.referencesOwner(mount, owner, index));
+    if (matching.length === 0) {
+      return [''];
+    }
+
+    const prefixes = matching.flatMap(mount => {
+      const parents = mount.owner ? this.resolvePrefixes(mount.owner, index, trail) : [''];
+      return parents.map(parent => this.joinPrefixes(parent, mount.prefix));
+    });
+
+    return [...new Set(prefixes)];
+  }
+
+  private referencesOwner(mount: RouterMount, owner: RoutesOwner, index: MountIndex): boolean {
+    const { qualifier, member } = mount.target;
+    if (member !== owner.member) {
+      return false;
+    }
+
+    // `userRoutes.routes` refers to an instance of `UserRoutes`
+    if (qualifier) {
+      return qualifier.toLowerCase() === owner.className?.toLowerCase();
+    }
+
+    // A bare name refers to the enclosing class when that class defines a member of that name
+    const mountClass = mount.owner?.className;
+    const definedLocally = index.owners.has(this.ownerKey({ className: mountClass, member }));
+    return !definedLocally || mountClass === owner.className;
+  }
+
+  private buildIndex(files: ParsedFile[], indexes: MountIndex[] = []): MountIndex {
+    const mounts = files.flatMap(file => file.mounts);
+    const owners = new Set(files.flatMap(file => [
+      ...file.routes.flatMap(route => route.owner ? [this.ownerKey(route.owner)] : []),
+      ...file.mounts.flatMap(mount => mount.owner ? [this.ownerKey(mount.owner)] : [])
+    ]));
+
+    for (const index of indexes) {
+      mounts.push(...index.mounts);
+      index.owners.forEach(owner => owners.add(owner));
+    }
+
+    return { mounts, owners };
+  }
+
+  private ownerKey(owner: RoutesOwner): string {
+    return `${owner.className ?? ''}.${owner.member}`;
+  }
+
+  private parseFile(filePath: string, content: string): ParsedFile {
+    const tokens = this.parser.tokenize(content);
+    const routes: Http4sRoute[] = [];
+    const mounts: RouterMount[] = [];
+    const handled = new Set<number>();
+    const inlineOwners: Array<{ start: number; end: number; owner: RoutesOwner }> = [];
+    const matchers = this.collectQueryMatchers(tokens);
+
+    // A declaration claims the next `{` at its own depth; one without a body never becomes a class scope
+    const classes: Definition[] = [];
+    const definitions: Definition[] = [];
+    let pendingClass: Definition | undefined;
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.value === '(' || token.value === '{' || token.value === '[') {
+        if (token.value === '{' && pendingClass?.depth === depth) {
+          classes.push(pendingClass);
+          pendingClass = undefined;
+        }
+        depth++;
+        continue;
+      }
+
+      if (token.value === ')' || token.value === '}' || token.value === ']') {
+        depth--;
+        while (definitions.length > 0 && definitions[definitions.length - 1].depth > depth) definitions.pop();
+        while (token.value === '}' && classes.length > 0 && classes[classes.length - 1].depth >= depth) classes.pop();
+        continue;
+      }
+
+      if (this.isCombinator(tokens, i) && !handled.has(i)) {
+        // `val allRoutes = userRoutes <+> orderRoutes` mounts every operand without a prefix
+        const member = definitions[definitions.length - 1]?.name;
+        const start = this.findExpressionStart(tokens, i);
+        const end = this.findExpressionEnd(tokens, i);
+        for (let j = start; j < end; j++) {
+          if (this.isCombinator(tokens, j)) handled.add(j);
+        }
+        if (member) {
+          const owner = { className: classes[classes.length - 1]?.name, member };
+          for (const operand of this.splitCombinators(tokens, start, end)) {
+            const target = this.readReference(tokens, operand);
+            if (target) mounts.push({ prefix: '', target, owner });
+          }
+        }
+        continue;
+      }
+
+      if (token.type !== 'identifier' || tokens[i - 1]?.value === '.') {
+        continue;
+      }
+
+      if (pendingClass?.depth === depth && STATEMENT_KEYWORDS.includes(token.value)) {
+        pendingClass = undefined;
+      }
+
+      if (['class', 'object', 'trait'].includes(token.value) && tokens[i + 1]?.type === 'identifier') {
+        pendingClass = { name: tokens[i + 1].value, depth };
+        i++;
+        continue;
+      }
+
+      if (['val', 'var', 'def'].includes(token.value) && tokens[i + 1]?.type === 'identifier') {
+        while (definitions.length > 0 && definitions[definitions.length - 1].depth >= depth) definitions.pop();
+        definitions.push({ name: tokens[i + 1].value, depth });
+        i++;
+        continue;
+      }
+
+      const className = classes[classes.length - 1]?.name;
+
+      if (token.value === 'case') {
+        // Values bound inside the previous case body do not own the next case
+        while (definitions.length > 0 && definitions[definitions.length - 1].depth >= depth) definitions.pop();
+
+        const route = this.parseRoutePattern(tokens, i);
+        if (route) {
+          const inline = inlineOwners.filter(region => region.start < i && i < region.end).pop();
+          const routeMember = definitions[definitions.length - 1]?.name;
+          routes.push({
+            ...route,
+            className,
+            owner: inline?.owner ?? (routeMember ? { className, member: routeMember } : undefined)
+          });
+        }
+        continue;
+      }
+
+      if (token.value === 'Router' && !handled.has(i)) {
+        const member = definitions[definitions.length - 1]?.name;
+        this.parseRouter(tokens, i, member ? { className, member } : undefined, filePath, mounts, handled, inlineOwners);
+      }
+    }
+
+    return { routes, mounts, matchers };
+  }
+
+  private collectQueryMatchers(tokens: JavaToken[]): Map<string, QueryMatcher> {
+    const matchers = new Map<string, QueryMatcher>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].value !== 'object' || tokens[i + 2]?.value !== 'extends') continue;
+
+      const base = tokens[i + 3];
+      if (base?.type !== 'identifier' || !QUERY_MATCHER_BASE.test(base.value)) continue;
+
+      let next = i + 4;
+      let type: string | undefined;
+      if (tokens[next]?.value === '[') {
+        const close = this.findClosing(tokens, next);
+        type = tokens.slice(next + 1, close).map(token => token.value).join('');
+        next = close + 1;
+      }
+
+      if (tokens[next]?.value === '(' && tokens[next + 1]?.type === 'string') {
+        matchers.set(tokens[i + 1].value, {
+          name: tokens[next + 1].value,
+          type: base.value.startsWith('Flag') ? 'Boolean' : type,
+          required: !base.value.startsWith('Optional') && !base.value.startsWith('Flag')
+        });
+      }
+    }
+
+    return matchers;
+  }
+
+  // Reads `Router("/a" -> routes, "/b" -> (x <+> y), "/c" -> Router(...))`
+  private parseRouter(
+    tokens: JavaToken[],
+    index: number,
+    owner: RoutesOwner | undefined,
+    filePath: string,
+    mounts: RouterMount[],
+    handled: Set<number>,
+    inlineOwners: Array<{ start: number; end: number; owner: RoutesOwner }>
+  ): void {
+    let open = index + 1;
+    if (tokens[open]?.value === '[') {
+      open = this.findClosing(tokens, open) + 1;
+    }
+    if (tokens[open]?.value !== '(') {
+      return;
+    }
+
+    const close = this.findClosing(tokens, open);
+    for (let j = index; j <= close; j++) {
+      if (this.isCombinator(tokens, j)) handled.add(j);
+    }
+
+    for (const [start, end] of this.splitArguments(tokens, open, close)) {
+      const arrow = this.findArrow(tokens, start, end);
+      if (arrow === -1) continue;
+
+      const prefix = tokens.slice(start, arrow)
+        .filter(token => token.type === 'string')
+        .map(token => token.value)
+        .join('');
+
+      for (const operand of this.splitCombinators(tokens, arrow + 2, end)) {
+        const [first, last] = this.unwrap(tokens, operand[0], operand[1]);
+
+        if (tokens[first]?.value === 'Router') {
+          // Nested routers are mounted through a synthetic owner
+          const nested: RoutesOwner = { member: `#${filePath}:${first}` };
+          mounts.push({ prefix, target: { member: nested.member }, owner });
+          handled.add(first);
+          this.parseRouter(tokens, first, nested, filePath, mounts, handled, inlineOwners);
+          continue;
+        }
+
+        if (ROUTE_BUILDERS.includes(tokens[first]?.value)) {
+          // Routes declared inline, e.g. `"/health" -> HttpRoutes.of[IO] { case GET -> Root => Ok() }`
+          const inline: RoutesOwner = { member: `#${filePath}:${first}` };
+          mounts.push({ prefix, target: { member: inline.member }, owner });
+          inlineOwners.push({ start: first, end: last, owner: inline });
+          continue;
+        }
+
+        const target = this.readReference(tokens, [first, last]);
+        if (target) mounts.push({ prefix, target, owner });
+      }
+    }
+  }
+
+  /**
+   * Parses `case [name @] [Method.]GET -> Root / "users" / IntVar(id) [:? Matcher(q)] =>`.
+   * Query parameter matchers after `:?` do not contribute to the path.
+   */
+  private parseRoutePattern(tokens: JavaToken[], index: number): Omit<Http4sRoute, 'className' | 'owner'> | undefined {
+    let i = index + 1;
+
+    if (tokens[i]?.type === 'identifier' && tokens[i + 1]?.value === '@') {
+      i += 2;
+    }
+    if (tokens[i]?.value === 'Method' && tokens[i + 1]?.value === '.') {
+      i += 2;
+    }
+
+    const method = tokens[i]?.value as HttpMethod;
+    if (!NAMED_HTTP_METHODS.includes(method) || !this.isArrow(tokens, i + 1) || tokens[i + 3]?.value !== 'Root') {
+      return undefined;
+    }
+    const line = tokens[index].line;
+    i += 4;
+
+    const segments: string[] = [];
+    const pathParameters: EndpointParameter[] = [];
+    while (tokens[i]?.value === '/' && tokens[i + 1]?.value !== ':') {
+      const segment = this.readSegment(tokens, i + 1);
+      if (!segment) break;
+      segments.push(segment.value);
+      if (segment.parameter) pathParameters.push(segment.parameter);
+      i = segment.nextIndex;
+    }
+
+    return { method, path: `/${segments.join('/')}`, line, pathParameters, queryMatchers: this.readQueryMatchers(tokens, i) };
+  }
+
+  // `:? NameMatcher(name) +& PageMatcher(page)`
+  private readQueryMatchers(tokens: JavaToken[], index: number): Http4sRoute['queryMatchers'] {
+    let i = tokens[index]?.value === '/' ? index + 1 : index;
+    if (tokens[i]?.value !== ':' || tokens[i + 1]?.value !== '?') {
+      return [];
+    }
+
+    const matchers: Http4sRoute['queryMatchers'] = [];
+    i += 2;
+    while (tokens[i]?.type === 'identifier' && tokens[i + 1]?.value === '(') {
+      const close = this.findClosing(tokens, i + 1);
+      const binding = tokens.slice(i + 2, close).find(part => part.type === 'identifier')?.value;
+      matchers.push({ matcher: tokens[i].value, binding: binding !== '_' ? binding : undefined });
+      i = close + 1;
+
+      if (tokens[i]?.value !== '+' || tokens[i + 1]?.value !== '&') break;
+      i += 2;
+    }
+
+    return matchers;
+  }
+
+  private readSegment(
+    tokens: JavaToken[],
+    index: number
+  ): { value: string; nextIndex: number; parameter?: EndpointParameter } | undefined {
+    const token = tokens[index];
+    if (!token) {
+      return undefined;
+    }
+
+    if (token.type === 'string') {
+      return { value: token.value, nextIndex: index + 1 };
+    }
+
+    if (token.type !== 'identifier') {
+      return undefined;
+    }
+
+    // `IntVar(id)`, `UUIDVar(id)` or a custom extractor such as `UserId(id)`
+    if (tokens[index + 1]?.value === '(') {
+      const close = this.findClosing(tokens, index + 1);
+      const binding = tokens.slice(index + 2, close).find(part => part.type === 'identifier')?.value;
+      const placeholder = VAR_EXTRACTORS[token.value] || 'param';
+      const name = binding && binding !== '_' ? binding : placeholder;
+      return {
+        value: `{${name}}`,
+        nextIndex: close + 1,
+        parameter: { name, in: 'path', type: VAR_TYPES[token.value], required: true }
+      };
+    }
+
+    // A plain binding matches any String segment
+    const name = token.value === '_' ? 'segment' : token.value;
+    return { value: `{${name}}`, nextIndex: index + 1, parameter: { name, in: 'path', type: 'String', required: true } };
+  }
+
+  // Splits `userRoutes <+> new OrderRoutes(svc).routes` into operand token ranges
+  private splitCombinators(tokens: JavaToken[], start: number, end: number): Array<[number, number]> {
+    const operands: Array<[number, number]> = [];
+    let operandStart = start;
+    let depth = 0;
+
+    for (let i = start; i < end; i++) {
+      const value = tokens[i].value;
+      if (value === '(' || value === '{' || value === '[') depth++;
+      if (value === ')' || value === '}' || value === ']') depth--;
+
+      if (depth === 0 && this.isCombinator(tokens, i)) {
+        operands.push([operandStart, i]);
+        operandStart = i + 3;
+        i += 2;
+      }
+    }
+    operands.push([operandStart, end]);
+
+    // `(a <+> b)` is a single parenthesized operand; look inside it
+    return operands.flatMap(([from, to]) => {
+      const [first, last] = this.unwrap(tokens, from, to);
+      return first !== from && this.containsCombinator(tokens, first, last) ?
+        this.splitCombinators(tokens, first, last) :
+        [[from, to] as [number, number]];
+    });
+  }
+
+  // Strips surrounding parentheses from an operand and returns its first and exclusive end index
+  private unwrap(tokens: JavaToken[], start: number, end: number): [number, number] {
+    let first = start;
+    let last = end;
+    while (tokens[first]?.value === '(' && this.findClosing(tokens, first) === last - 1) {
+      first++;
+      last--;
+    }
+    return [first, last];
+  }
+
+  private readReference(tokens: JavaToken[], [start, end]: [number, number]): RoutesReference | undefined {
+    const names: string[] = [];
+
+    for (let i = start; i < end; i++) {
+      const token = tokens[i];
+      if (token.value === '(' || token.value === '[' || token.value === '{') {
+        i = this.findClosing(tokens, i);
+        continue;
+      }
+      if (token.type === 'identifier' && token.value !== 'new') {
+        names.push(token.value);
+      }
+    }
+
+    if (names.length === 0) {
+      return undefined;
+    }
+    return names.length === 1 ?
+      { member: names[0] } :
+      { qualifier: names[names.length - 2], member: names[names.length - 1] };
+  }
+
+  // The right-hand side of `val all = a <+> b` starts after its `=`
+  private findExpressionStart(tokens: JavaToken[], index: number): number {
+    let level = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const value = tokens[i].value;
+      if (value === ')' || value === '}' || value === ']') level++;
+      if (value === '(' || value === '{' || value === '[') {
+        if (level === 0) return i + 1;
+        level--;
+      }
+      if (level === 0 && value === '=' && tokens[i + 1]?.value !== '>' && !['=', '!', '<', '>'].includes(tokens[i - 1]?.value)) {
+        return i + 1;
+      }
+    }
+    return 0;
+  }
+
+  // The expression ends at the enclosing bracket or at a line that does not continue it
+  private findExpressionEnd(tokens: JavaToken[], index: number): number {
+    let level = 0;
+    for (let i = index; i < tokens.length; i++) {
+      const value = tokens[i].value;
+      if (value === '(' || value === '{' || value === '[') level++;
+      if (value === ')' || value === '}' || value === ']') {
+        if (level === 0) return i;
+        level--;
+      }
+      const continues = value === '.' || this.isCombinator(tokens, i) || this.isCombinator(tokens, i - 3);
+      if (level === 0 && i > index && tokens[i].line !== tokens[i - 1].line && !continues) {
+        return i;
+      }
+    }
+    return tokens.length;
+  }
+
+  private splitArguments(tokens: JavaToken[], open: number, close: number): Array<[number, number]> {
+    const args: Array<[number, number]> = [];
+    let start = open + 1;
+    let depth = 0;
+
+    for (let i = open + 1; i < close; i++) {
+      const value = tokens[i].value;
+      if (value === '(' || value === '{' || value === '[') depth++;
+      if (value === ')' || value === '}' || value === ']') depth--;
+      if (depth === 0 && value === ',') {
+        args.push([start, i]);
+        start = i + 1;
+      }
+    }
+    if (start < close) args.push([start, close]);
+
+    return args;
+  }
+
+  private findArrow(tokens: JavaToken[], start: number, end: number): number {
+    for (let i = start; i < end; i++) {
+      if (this.isArrow(tokens, i)) return i;
+    }
+    return -1;
+  }
+
+  private isArrow(tokens: JavaToken[], index: number): boolean {
+    return tokens[index]?.value === '-' && tokens[index + 1]?.value === '>';
+  }
+
+  private isCombinator(tokens: JavaToken[], index: number): boolean {
+    return tokens[index]?.value === '<' && tokens[index + 1]?.value === '+' && tokens[index + 2]?.value === '>';
+  }
+
+  private containsCombinator(tokens: JavaToken[], start: number, end: number): boolean {
+    for (let i = start; i < end; i++) {
+      if (this.isCombinator(tokens, i)) return true;
+    }
+    return false;
+  }
+
+  private joinPrefixes(parent: string, prefix: string): string {
+    return [parent, prefix].flatMap(part => part.split('/')).filter(Boolean).map(part => `/${part}`).join('');
+  }
+
+  private findClosing(tokens: JavaToken[], openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < tokens.length; i++) {
+      if (tokens[i].value === '(' || tokens[i].value === '{' || tokens[i].value === '[') depth++;
+      if (tokens[i].value === ')' || tokens[i].value === '}' || tokens[i].value === ']') depth--;
+      if (depth === 0) return i;
+    }
+    return tokens.length - 1;
+  }
+}
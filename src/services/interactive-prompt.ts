@@ -2,6 +2,8 @@ import inquirer from 'inquirer';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 import chalk from 'chalk';
+import type { OutputFormat } from '@/models/scan-report';
+import type { MarkdownGrouping } from './markdown-formatter';
 
 export interface InteractiveOptions {
   directory: string;
@@ -9,6 +11,31 @@ export interface InteractiveOptions {
   quiet: boolean;
   csv: boolean;
   apiSpec: boolean;
+  drift?: boolean;
+  // Match endpoints against specs of other modules too
+  crossModule?: boolean;
+  extractors?: string[];
+  // `table` (default) prints to the console; the others write a report to `output` or stdout
+  format?: OutputFormat;
+  // Report file; `-` for stdout
+  output?: string;
+  // Markdown report layout
+  groupBy?: MarkdownGrouping;
+  details?: boolean;
+  // JSON baseline file for `diff`, written next to the regular output
+  baseline?: string;
+  // Git revision to scan, and revision whose changes limit extraction
+  ref?: string;
+  changedSince?: string;
+  // Config file; `.endpointscraper.*` in the directory when unset
+  config?: string;
+  // Files read at the same time, and worker threads for extraction
+  concurrency?: number;
+  workers?: number;
+  // Progress line on stderr; on unless false
+  progress?: boolean;
+  // Scan cache; on unless false
+  cache?: boolean;
 }
 
 export class InteractivePrompt {
@@ -36,6 +63,13 @@ export class InteractivePrompt {
         message: 'Enable API specification analysis? (Finds OpenAPI/Swagger files and analyzes coverage)',
         default: true
       },
+      {
+        type: 'confirm',
+        name: 'drift',
+        message: 'Report spec drift? (Spec operations missing from code and endpoints missing from specs)',
+        default: false,
+        when: (answers: Record<string, unknown>) => Boolean(answers.apiSpec)
+      },
       {
         type: 'confirm',
         name: 'summary',
@@ -66,7 +100,8 @@ export class InteractivePrompt {
       summary: answers.summary,
       quiet: answers.outputMode === 'quiet' || answers.outputMode === 'minimal',
       csv: answers.csv,
-      apiSpec: answers.apiSpec
+      apiSpec: answers.apiSpec,
+      drift: answers.drift ?? false
     };
     
     return result;
@@ -157,6 +192,10 @@ export class InteractivePrompt {
       console.log(chalk.gray('│') + chalk.white(` 📋 API Spec Analysis: ${chalk.green('Enabled')}`.padEnd(67)) + chalk.gray('│'));
     }
     
+    if (options.drift) {
+      console.log(chalk.gray('│') + chalk.white(` 🔀 Spec Drift Report: ${chalk.green('Enabled')}`.padEnd(67)) + chalk.gray('│'));
+    }
+    
     if (options.summary) {
       console.log(chalk.gray('│') + chalk.white(` 📊 Summary: ${chalk.green('Enabled')}`.padEnd(67)) + chalk.gray('│'));
     }
@@ -0,0 +1,84 @@
+import { JavaSourceParser, type AnnotationValue, type ConstantScope } from './java-source-parser';
+import { fingerprintState } from './hashing';
+
+export class JavaConstantIndex {
+  private parser = new JavaSourceParser();
+  private projectConstants = new Map<string, { value: AnnotationValue; scope: ConstantScope }>();
+  // Shared by the JVM extractors, so computed once per index state
+  private fingerprint?: string;
+
+  /**
+   * The `static final String` constants of a Java source file, to be added with
+   * `indexScope` so that annotations in other files can reference them (e.g. `@GetMapping(Paths.USERS)`).
+   */
+  collectConstants(content: string): ConstantScope {
+    return this.parser.collectConstants(this.parser.tokenize(content));
+  }
+
+  // The first file declaring a name wins, so adding the same file twice (Spring and JAX-RS) changes nothing
+  indexScope(scope: ConstantScope): void {
+    this.fingerprint = undefined;
+    for (const [name, value] of scope) {
+      if (!this.projectConstants.has(name)) {
+        this.projectConstants.set(name, { value, scope });
+      }
+    }
+  }
+
+  getFingerprint(): string {
+    this.fingerprint ??= fingerprintState(this.projectConstants);
+    return this.fingerprint;
+  }
+
+  /**
+   * Resolves an annotation value against the file's own constants and then the
+   * project index. Unresolvable references are kept verbatim so they stay visible.
+   */
+  toText(value: AnnotationValue, scope: ConstantScope): string {
+    return this.resolveValue(value, scope) ??
+      value.parts.map(part => part.type === 'literal' ? part.value : part.name).join('');
+  }
+
+  private resolveValue(value: AnnotationValue, scope: ConstantScope, seen: Set<string> = new Set()): string | undefined {
+    let result = '';
+    for (const part of value.parts) {
+      if (part.type === 'literal') {
+        result += part.value;
+        continue;
+      }
+
+      const resolved = this.resolveReference(part.name, scope, seen);
+      if (resolved === undefined) {
+        return undefined;
+      }
+      result += resolved;
+    }
+    return result;
+  }
+
+  private resolveReference(name: string, scope: ConstantScope, seen: Set<string>): string | undefined {
+    if (seen.has(name)) {
+      return undefined;
+    }
+    const visited = new Set(seen).add(name);
+
+    // `com.acme.Paths.USERS` may be indexed as `Paths.USERS`; never drop the owning type
+    const segments = name.split('.');
+    const lastStart = Math.max(segments.length - 2, 0);
+    for (let start = 0; start <= lastStart; start++) {
+      const candidate = segments.slice(start).join('.');
+
+      const local = scope.get(candidate);
+      if (local) {
+        return this.resolveValue(local, scope, visited);
+      }
+
+      const project = this.projectConstants.get(candidate);
+      if (project) {
+        return this.resolveValue(project.value, project.scope, visited);
+      }
+    }
+
+    return undefined;
+  }
+}
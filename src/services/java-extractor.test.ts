@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JavaEndpointExtractor } from './java-extractor';
+import { JavaConstantIndex } from './java-constant-index';
+
+function routes(extractor: JavaEndpointExtractor, content: string): string[] {
+  return extractor.extract('/project/UserController.java', content)
+    .map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.methodName}:${endpoint.lineNumber}`);
+}
+
+test('mapping annotations spanning lines emit one endpoint per path and method', () => {
+  const content = `
+@RestController
+@RequestMapping("/api")
+public class UserController {
+    @GetMapping(
+        produces = "application/json",
+        value = {"/users", "/people"}
+    )
+    public List<User> list() { return users; }
+
+    @RequestMapping(path = "/users/{id}", method = {RequestMethod.PUT, RequestMethod.PATCH})
+    public User update(@PathVariable Long id) { return null; }
+}
+`;
+
+  assert.deepEqual(routes(new JavaEndpointExtractor(), content), [
+    'GET /api/users list:5',
+    'GET /api/people list:5',
+    'PUT /api/users/{id} update:11',
+    'PATCH /api/users/{id} update:11'
+  ]);
+});
+
+test('paths built from constants of the same file and of other indexed files', () => {
+  const constants = new JavaConstantIndex();
+  const extractor = new JavaEndpointExtractor(constants);
+  const paths = `
+public final class Paths {
+    public static final String API = "/api/v1";
+    public static final String USERS = API + "/users";
+}
+`;
+  extractor.applyIndex(extractor.collectIndex('/project/Paths.java', paths)!);
+
+  const content = `
+@RestController
+public class UserController {
+    private static final String BY_ID = "/{id}";
+
+    @GetMapping(Paths.USERS + BY_ID)
+    public User get(@PathVariable Long id) { return null; }
+}
+`;
+
+  assert.deepEqual(routes(extractor, content), ['GET /api/v1/users/{id} get:6']);
+});
+
+test('class-level base paths stay with their class, including nested controllers', () => {
+  const content = `
+@RestController
+@RequestMapping("/orders")
+public class OrderController {
+    @RequestMapping(value = "/export", method = RequestMethod.GET)
+    public byte[] export() { return null; }
+
+    @GetMapping
+    public List<Order> list() { return orders; }
+
+    @RestController
+    @RequestMapping("/admin")
+    public static class AdminController {
+        @DeleteMapping("/{id}")
+        public void delete(@PathVariable Long id) {}
+    }
+
+    @PostMapping
+    public Order create(@RequestBody Order order) { return order; }
+}
+
+@RestController
+class HealthController {
+    @GetMapping("/health")
+    public String health() { return "ok"; }
+}
+`;
+
+  assert.deepEqual(routes(new JavaEndpointExtractor(), content), [
+    'GET /orders/export export:5',
+    'GET /orders list:8',
+    'DELETE /admin/{id} delete:14',
+    'POST /orders create:18',
+    'GET /health health:24'
+  ]);
+});
+
+test('a method-level @RequestMapping without methods accepts any method', () => {
+  const content = `
+@RestController
+public class ProxyController {
+    @RequestMapping("/proxy/**")
+    public ResponseEntity<byte[]> forward() { return null; }
+
+    @RequestMapping(value = "/status", method = {RequestMethod.HEAD, RequestMethod.OPTIONS})
+    public void status() {}
+}
+`;
+
+  assert.deepEqual(routes(new JavaEndpointExtractor(), content), [
+    'ANY /proxy/** forward:4',
+    'HEAD /status status:7',
+    'OPTIONS /status status:7'
+  ]);
+});
+
+test('handler parameters, body, return type and media types are read from the declaration', () => {
+  const content = `
+@RestController
+@RequestMapping(value = "/users", produces = MediaType.APPLICATION_JSON_VALUE)
+public class UserController {
+    @PutMapping(value = "/{id}", consumes = "application/merge-patch+json")
+    public ResponseEntity<User> update(
+        @PathVariable("id") Long userId,
+        @RequestParam(required = false) String fields,
+        @RequestHeader("X-Request-Id") String requestId,
+        @Valid @RequestBody UpdateUserRequest request
+    ) { return null; }
+}
+`;
+
+  const [update] = new JavaEndpointExtractor().extract('/project/UserController.java', content);
+
+  assert.deepEqual(update.parameters, [
+    { name: 'id', in: 'path', type: 'Long', required: true },
+    { name: 'fields', in: 'query', type: 'String', required: false },
+    { name: 'X-Request-Id', in: 'header', type: 'String', required: true }
+  ]);
+  assert.equal(update.requestBody, 'UpdateUserRequest');
+  assert.equal(update.returnType, 'ResponseEntity<User>');
+  assert.deepEqual(update.consumes, ['application/merge-patch+json']);
+  assert.deepEqual(update.produces, ['application/json']);
+});
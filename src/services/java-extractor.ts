@@ -1,125 +1,149 @@
-import type { Endpoint, HttpMethod } from '@/models/endpoint';
+import type { Endpoint } from '@/models/endpoint';
+import type { EndpointExtractor } from '@/models/extractor';
+import { JavaSourceParser, type ConstantScope, type JavaAnnotation } from './java-source-parser';
+import { JavaConstantIndex } from './java-constant-index';
+import { EndpointMetadataReader } from './endpoint-metadata-reader';
+import { combinePaths } from './path-utils';
+import { extractSpringHttpMethods, isSpringMapping } from './spring-mapping';
+
+interface TypeScope {
+  className: string;
+  basePaths: string[];
+  consumes: string[];
+  produces: string[];
+}
+
+export class JavaEndpointExtractor implements EndpointExtractor {
+  readonly name = 'spring';
+  readonly version = '2';
+  readonly filePatterns = ['**/*.java'];
+  readonly routeTokens = ['Mapping'];
+  private parser = new JavaSourceParser();
+  private metadataReader: EndpointMetadataReader;
+
+  constructor(private constantIndex: JavaConstantIndex = new JavaConstantIndex()) {
+    this.metadataReader = new EndpointMetadataReader(constantIndex);
+  }
+
+  canHandle(filePath: string): boolean {
+    return filePath.endsWith('.java');
+  }
+
+  collectIndex(filePath: string, content: string): ConstantScope | undefined {
+    const constants = content.includes('String') ? this.constantIndex.collectConstants(content) : undefined;
+    return constants?.size ? constants : undefined;
+  }
+
+  applyIndex(constants: ConstantScope): void {
+    this.constantIndex.indexScope(constants);
+  }
+
+  indexFingerprint(): string {
+    return this.constantIndex.getFingerprint();
+  }
 
-export class JavaEndpointExtractor {
   extract(filePath: string, content: string): Endpoint[] {
     const endpoints: Endpoint[] = [];
-    const lines = content.split('\n');
-    
-    let currentClassName: string | undefined;
-    let baseMapping = '';
+    const tokens = this.parser.tokenize(content);
+    const constants = this.parser.collectConstants(tokens);
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const lineNumber = i + 1;
+    // One entry per open brace: a type body carries its own scope, any other block is null
+    const scopes: Array<TypeScope | null> = [];
+    let pendingScope: TypeScope | null = null;
 
-      if (this.isClassDeclaration(line)) {
-        currentClassName = this.extractClassName(line);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.value === '{') {
+        scopes.push(pendingScope);
+        pendingScope = null;
         continue;
       }
 
-      if (this.isRequestMapping(line)) {
-        baseMapping = this.extractPath(line);
+      if (token.value === '}') {
+        scopes.pop();
         continue;
       }
 
-      if (this.isEndpointAnnotation(line)) {
-        const method = this.extractHttpMethod(line);
-        const path = this.extractPath(line);
-        const methodName = this.extractMethodName(lines, i);
-
-        if (method) {
-          endpoints.push({
-            method,
-            path: this.combinePaths(baseMapping, path),
-            filePath,
-            lineNumber,
-            className: currentClassName,
-            methodName
-          });
-        }
+      if (this.parser.isTypeDeclaration(tokens, i)) {
+        pendingScope = { className: tokens[i + 1].value, basePaths: [''], consumes: [], produces: [] };
+        i++;
+        continue;
       }
-    }
-
-    return endpoints;
-  }
-
-  private isClassDeclaration(line: string): boolean {
-    return /^(@\w+\s+)*public\s+class\s+\w+/.test(line) || 
-           /@RestController|@Controller/.test(line);
-  }
 
-  private extractClassName(line: string): string | undefined {
-    const match = line.match(/class\s+(\w+)/);
-    return match?.[1];
-  }
+      if (!this.parser.isAnnotationStart(tokens, i)) {
+        continue;
+      }
 
-  private isRequestMapping(line: string): boolean {
-    return /@RequestMapping/.test(line);
-  }
+      const { annotations, nextIndex } = this.parser.collectAnnotations(tokens, i);
+      i = nextIndex - 1;
+
+      if (this.parser.isTypeDeclaration(tokens, nextIndex)) {
+        const requestMapping = annotations.find(annotation => annotation.name === 'RequestMapping');
+        pendingScope = {
+          className: tokens[nextIndex + 1].value,
+          basePaths: requestMapping ? this.extractPaths(requestMapping, constants) : [''],
+          consumes: this.metadataReader.readMediaTypes(requestMapping?.args.get('consumes'), constants),
+          produces: this.metadataReader.readMediaTypes(requestMapping?.args.get('produces'), constants)
+        };
+        i = nextIndex + 1;
+        continue;
+      }
 
-  private isEndpointAnnotation(line: string): boolean {
-    return /@(GetMapping|PostMapping|PutMapping|PatchMapping|DeleteMapping|RequestMapping)/.test(line);
-  }
+      const mappings = annotations.filter(isSpringMapping);
+      if (mappings.length === 0) {
+        continue;
+      }
 
-  private extractHttpMethod(line: string): HttpMethod | null {
-    if (/@GetMapping/.test(line)) return 'GET';
-    if (/@PostMapping/.test(line)) return 'POST';
-    if (/@PutMapping/.test(line)) return 'PUT';
-    if (/@PatchMapping/.test(line)) return 'PATCH';
-    if (/@DeleteMapping/.test(line)) return 'DELETE';
-    
-    if (/@RequestMapping/.test(line)) {
-      const methodMatch = line.match(/method\s*=\s*RequestMethod\.(\w+)/);
-      if (methodMatch) {
-        const method = methodMatch[1].toUpperCase();
-        if (['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
-          return method as HttpMethod;
+      const scope = this.findEnclosingType(scopes);
+      const declaration = this.parser.findMethodDeclaration(tokens, nextIndex);
+      const handler = declaration ?
+        this.metadataReader.readSpringHandler(this.parser.parseParameters(tokens, declaration.nameIndex + 1), constants) :
+        { parameters: [] };
+
+      for (const mapping of mappings) {
+        const methods = extractSpringHttpMethods(mapping);
+        const paths = this.extractPaths(mapping, constants);
+        const consumes = this.metadataReader.readMediaTypes(mapping.args.get('consumes'), constants);
+        const produces = this.metadataReader.readMediaTypes(mapping.args.get('produces'), constants);
+
+        for (const basePath of scope?.basePaths || ['']) {
+          for (const path of paths) {
+            for (const method of methods) {
+              endpoints.push({
+                method,
+                path: combinePaths(basePath, path),
+                filePath,
+                lineNumber: mapping.line,
+                className: scope?.className,
+                methodName: declaration?.name,
+                parameters: handler.parameters,
+                requestBody: handler.requestBody,
+                returnType: declaration?.returnType || undefined,
+                // Method-level media types replace the ones declared on the class
+                consumes: [consumes, scope?.consumes].find(types => types && types.length > 0),
+                produces: [produces, scope?.produces].find(types => types && types.length > 0)
+              });
+            }
+          }
         }
       }
-      return 'GET';
-    }
-    
-    return null;
-  }
-
-  private extractPath(line: string): string {
-    const valueMatch = line.match(/value\s*=\s*"([^"]*)"/) || 
-                      line.match(/@\w+Mapping\("([^"]*)"\)/) ||
-                      line.match(/path\s*=\s*"([^"]*)"/);
-    
-    if (valueMatch) {
-      return valueMatch[1];
     }
 
-    const arrayMatch = line.match(/value\s*=\s*\{\s*"([^"]*)"/);
-    if (arrayMatch) {
-      return arrayMatch[1];
-    }
-
-    return '';
+    return endpoints;
   }
 
-  private extractMethodName(lines: string[], currentIndex: number): string | undefined {
-    for (let i = currentIndex + 1; i < Math.min(currentIndex + 5, lines.length); i++) {
-      const line = lines[i].trim();
-      const methodMatch = line.match(/public\s+\w+\s+(\w+)\s*\(/);
-      if (methodMatch) {
-        return methodMatch[1];
-      }
+  private findEnclosingType(scopes: Array<TypeScope | null>): TypeScope | undefined {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope) return scope;
     }
     return undefined;
   }
 
-  private combinePaths(basePath: string, endpointPath: string): string {
-    if (!basePath && !endpointPath) return '/';
-    if (!basePath) return endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
-    if (!endpointPath) return basePath.startsWith('/') ? basePath : `/${basePath}`;
-    
-    const cleanBase = basePath.startsWith('/') ? basePath : `/${basePath}`;
-    const cleanEndpoint = endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
-    
-    return cleanBase.endsWith('/') ? 
-      `${cleanBase.slice(0, -1)}${cleanEndpoint}` : 
-      `${cleanBase}${cleanEndpoint}`;
+  private extractPaths(annotation: JavaAnnotation, constants: ConstantScope): string[] {
+    const values = annotation.args.get('path') || annotation.args.get('value') || [];
+    const paths = values.map(value => this.constantIndex.toText(value, constants));
+    return paths.length > 0 ? paths : [''];
   }
-}
\ No newline at end of file
+}
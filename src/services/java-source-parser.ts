@@ -0,0 +1,497 @@
+export interface JavaToken {
+  type: 'identifier' | 'string' | 'char' | 'number' | 'symbol';
+  value: string;
+  line: number;
+}
+
+export type AnnotationValuePart =
+  | { type: 'literal'; value: string }
+  | { type: 'reference'; name: string };
+
+export interface AnnotationValue {
+  parts: AnnotationValuePart[];
+}
+
+export interface JavaAnnotation {
+  name: string;
+  qualifiedName: string;
+  line: number;
+  args: Map<string, AnnotationValue[]>;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface JavaMethodDeclaration {
+  name: string;
+  line: number;
+  nameIndex: number;
+  returnType: string;
+}
+
+export interface JavaParameter {
+  name: string;
+  type: string;
+  annotations: JavaAnnotation[];
+  // Kotlin parameters with a default value
+  hasDefault?: boolean;
+}
+
+export type ConstantScope = Map<string, AnnotationValue>;
+
+const TYPE_KEYWORDS = ['class', 'interface', 'enum', 'record'];
+const MODIFIERS = ['public', 'protected', 'private', 'static', 'final', 'abstract', 'default', 'synchronized', 'sealed', 'strictfp'];
+const ARRAY_FACTORIES = ['arrayOf', 'listOf'];
+const NON_METHOD_KEYWORDS = ['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'super', 'this'];
+
+export class JavaSourceParser {
+  tokenize(content: string): JavaToken[] {
+    const tokens: JavaToken[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (char === '\n') {
+        line++;
+        i++;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '/' && content[i + 1] === '/') {
+        while (i < content.length && content[i] !== '\n') i++;
+        continue;
+      }
+
+      if (char === '/' && content[i + 1] === '*') {
+        const end = content.indexOf('*/', i + 2);
+        const stop = end === -1 ? content.length : end + 2;
+        line += this.countNewlines(content, i, stop);
+        i = stop;
+        continue;
+      }
+
+      if (content.startsWith('"""', i)) {
+        const end = content.indexOf('"""', i + 3);
+        const stop = end === -1 ? content.length : end + 3;
+        const raw = content.slice(i + 3, end === -1 ? content.length : end);
+        tokens.push({ type: 'string', value: this.stripTextBlockIndent(raw), line });
+        line += this.countNewlines(content, i, stop);
+        i = stop;
+        continue;
+      }
+
+      if (char === '"' || char === '\'') {
+        let value = '';
+        i++;
+        while (i < content.length && content[i] !== char && content[i] !== '\n') {
+          if (content[i] === '\\' && i + 1 < content.length) {
+            value += this.unescape(content[i + 1]);
+            i += 2;
+            continue;
+          }
+          value += content[i];
+          i++;
+        }
+        i++;
+        tokens.push({ type: char === '"' ? 'string' : 'char', value, line });
+        continue;
+      }
+
+      if (/[A-Za-z_$]/.test(char)) {
+        const match = content.slice(i).match(/^[A-Za-z_$][\w$]*/);
+        const value = match ? match[0] : char;
+        tokens.push({ type: 'identifier', value, line });
+        i += value.length;
+        continue;
+      }
+
+      if (/\d/.test(char)) {
+        const match = content.slice(i).match(/^[\d_]*\.?[\w.]*/);
+        const value = match ? match[0] : char;
+        tokens.push({ type: 'number', value, line });
+        i += value.length;
+        continue;
+      }
+
+      tokens.push({ type: 'symbol', value: char, line });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  isAnnotationStart(tokens: JavaToken[], index: number): boolean {
+    return tokens[index]?.value === '@' &&
+           tokens[index + 1]?.type === 'identifier' &&
+           tokens[index + 1].value !== 'interface';
+  }
+
+  parseAnnotation(tokens: JavaToken[], index: number): JavaAnnotation {
+    const nameParts: string[] = [];
+    let i = index + 1;
+
+    while (tokens[i]?.type === 'identifier') {
+      nameParts.push(tokens[i].value);
+      if (tokens[i + 1]?.value === '.' && tokens[i + 2]?.type === 'identifier') {
+        i += 2;
+      } else {
+        i++;
+        break;
+      }
+    }
+
+    const annotation: JavaAnnotation = {
+      name: nameParts[nameParts.length - 1] || '',
+      qualifiedName: nameParts.join('.'),
+      line: tokens[index].line,
+      args: new Map(),
+      startIndex: index,
+      endIndex: i - 1
+    };
+
+    if (tokens[i]?.value !== '(') {
+      return annotation;
+    }
+
+    i++;
+    while (i < tokens.length && tokens[i].value !== ')') {
+      let key = 'value';
+      if (tokens[i].type === 'identifier' && tokens[i + 1]?.value === '=') {
+        key = tokens[i].value;
+        i += 2;
+      }
+
+      const { values, nextIndex } = this.parseElementValue(tokens, i);
+      annotation.args.set(key, values);
+      i = nextIndex;
+
+      if (tokens[i]?.value === ',') {
+        i++;
+      }
+    }
+
+    annotation.endIndex = Math.min(i, tokens.length - 1);
+    return annotation;
+  }
+
+  /**
+   * Reads consecutive annotations, skipping interleaved modifiers, and returns
+   * the index of the first token of the declaration they belong to.
+   */
+  collectAnnotations(
+    tokens: JavaToken[],
+    index: number,
+    modifiers: string[] = MODIFIERS
+  ): { annotations: JavaAnnotation[]; nextIndex: number } {
+    const annotations: JavaAnnotation[] = [];
+    let i = index;
+
+    while (i < tokens.length) {
+      if (this.isAnnotationStart(tokens, i)) {
+        const annotation = this.parseAnnotation(tokens, i);
+        annotations.push(annotation);
+        i = annotation.endIndex + 1;
+      } else if (modifiers.includes(tokens[i].value)) {
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    return { annotations, nextIndex: i };
+  }
+
+  isTypeDeclaration(tokens: JavaToken[], index: number): boolean {
+    return tokens[index]?.type === 'identifier' &&
+           TYPE_KEYWORDS.includes(tokens[index].value) &&
+           tokens[index - 1]?.value !== '.' &&
+           tokens[index + 1]?.type === 'identifier';
+  }
+
+  findMethodDeclaration(tokens: JavaToken[], index: number): JavaMethodDeclaration | undefined {
+    let i = index;
+    let typeStart = index;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      if (this.isAnnotationStart(tokens, i)) {
+        i = this.parseAnnotation(tokens, i).endIndex + 1;
+        typeStart = i;
+        continue;
+      }
+
+      if (MODIFIERS.includes(token.value)) {
+        i++;
+        typeStart = i;
+        continue;
+      }
+
+      if (token.value === '{' || token.value === ';' || token.value === '=' || token.value === '}') {
+        return undefined;
+      }
+
+      if (token.type === 'identifier' && TYPE_KEYWORDS.includes(token.value) && tokens[i - 1]?.value !== '.') {
+        return undefined;
+      }
+
+      if (token.type === 'identifier' &&
+          tokens[i + 1]?.value === '(' &&
+          !NON_METHOD_KEYWORDS.includes(token.value)) {
+        const returnType = tokens.slice(typeStart, i).map(t => t.value).join('');
+        return { name: token.value, line: token.line, nameIndex: i, returnType };
+      }
+
+      if (token.value === '<') {
+        // A leading `<T>` declares type parameters and is not part of the return type
+        const isTypeParameters = i === typeStart;
+        i = this.skipGenerics(tokens, i);
+        if (isTypeParameters) typeStart = i;
+        continue;
+      }
+
+      i++;
+    }
+
+    return undefined;
+  }
+
+  // `(@PathVariable("id") final Long id, @RequestBody User user)` starting at the `(` after the method name
+  parseParameters(tokens: JavaToken[], openIndex: number): JavaParameter[] {
+    const parameters: JavaParameter[] = [];
+    let i = openIndex + 1;
+
+    while (i < tokens.length && tokens[i].value !== ')') {
+      const { annotations, nextIndex } = this.collectAnnotations(tokens, i, ['final']);
+      const typeTokens: JavaToken[] = [];
+      let depth = 0;
+      i = nextIndex;
+
+      while (i < tokens.length) {
+        const value = tokens[i].value;
+        if (depth === 0 && (value === ',' || value === ')')) break;
+        if (value === '<' || value === '(') depth++;
+        if (value === '>' || value === ')') depth--;
+        typeTokens.push(tokens[i]);
+        i++;
+      }
+
+      const name = typeTokens.pop();
+      if (name?.type === 'identifier') {
+        parameters.push({ name: name.value, type: typeTokens.map(token => token.value).join(''), annotations });
+      }
+      if (tokens[i]?.value === ',') i++;
+    }
+
+    return parameters;
+  }
+
+  collectConstants(tokens: JavaToken[]): ConstantScope {
+    const constants: ConstantScope = new Map();
+    const scopes: Array<{ name: string; kind: string } | null> = [];
+    let pendingType: { name: string; kind: string } | null = null;
+    let statementStart = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'identifier' &&
+          TYPE_KEYWORDS.includes(token.value) &&
+          tokens[i - 1]?.value !== '.' &&
+          tokens[i + 1]?.type === 'identifier') {
+        pendingType = { name: tokens[i + 1].value, kind: token.value };
+        continue;
+      }
+
+      if (token.value === '{') {
+        scopes.push(pendingType);
+        pendingType = null;
+        statementStart = i + 1;
+        continue;
+      }
+
+      if (token.value === '}') {
+        scopes.pop();
+        statementStart = i + 1;
+        continue;
+      }
+
+      if (token.value === ';') {
+        statementStart = i + 1;
+        continue;
+      }
+
+      const enclosing = scopes[scopes.length - 1];
+      if (!enclosing || !this.isStringFieldDeclaration(tokens, i)) {
+        continue;
+      }
+
+      const modifiers = tokens.slice(statementStart, i).map(t => t.value);
+      if (!modifiers.includes('final') && enclosing.kind !== 'interface') {
+        continue;
+      }
+
+      const fieldName = tokens[i + 1].value;
+      const { value, endIndex } = this.parseConstantExpression(tokens, i + 3);
+      if (value) {
+        const typeNames = scopes.filter((scope): scope is { name: string; kind: string } => scope !== null)
+          .map(scope => scope.name);
+        constants.set(fieldName, value);
+        for (let start = 0; start < typeNames.length; start++) {
+          constants.set([...typeNames.slice(start), fieldName].join('.'), value);
+        }
+      }
+      i = endIndex - 1;
+    }
+
+    return constants;
+  }
+
+  private isStringFieldDeclaration(tokens: JavaToken[], index: number): boolean {
+    return tokens[index].value === 'String' &&
+           tokens[index - 1]?.value !== '.' &&
+           tokens[index + 1]?.type === 'identifier' &&
+           tokens[index + 2]?.value === '=';
+  }
+
+  private parseConstantExpression(tokens: JavaToken[], index: number): { value?: AnnotationValue; endIndex: number } {
+    const parts: AnnotationValuePart[] = [];
+    let valid = true;
+    let i = index;
+
+    while (i < tokens.length && tokens[i].value !== ';') {
+      const token = tokens[i];
+      if (token.type === 'string') {
+        parts.push({ type: 'literal', value: token.value });
+      } else if (token.type === 'identifier') {
+        const { name, nextIndex } = this.readQualifiedName(tokens, i);
+        parts.push({ type: 'reference', name });
+        i = nextIndex;
+        continue;
+      } else if (token.value !== '+' && token.value !== '(' && token.value !== ')') {
+        valid = false;
+      }
+      i++;
+    }
+
+    return { value: valid && parts.length > 0 ? { parts } : undefined, endIndex: i };
+  }
+
+  private parseElementValue(tokens: JavaToken[], index: number): { values: AnnotationValue[]; nextIndex: number } {
+    const array = this.findArrayStart(tokens, index);
+    if (array) {
+      const values: AnnotationValue[] = [];
+      let i = array.firstElement;
+      while (i < tokens.length && tokens[i].value !== array.close) {
+        const { value, nextIndex } = this.parseExpression(tokens, i);
+        if (value.parts.length > 0) {
+          values.push(value);
+        }
+        i = nextIndex;
+        if (tokens[i]?.value === ',') {
+          i++;
+        }
+      }
+      return { values, nextIndex: i + 1 };
+    }
+
+    const { value, nextIndex } = this.parseExpression(tokens, index);
+    return { values: value.parts.length > 0 ? [value] : [], nextIndex };
+  }
+
+  // Java `{a, b}`, Kotlin `[a, b]` and `arrayOf(a, b)` array initializers
+  private findArrayStart(tokens: JavaToken[], index: number): { firstElement: number; close: string } | undefined {
+    const token = tokens[index];
+    if (token?.value === '{') return { firstElement: index + 1, close: '}' };
+    if (token?.value === '[') return { firstElement: index + 1, close: ']' };
+    if (token?.type === 'identifier' && ARRAY_FACTORIES.includes(token.value) && tokens[index + 1]?.value === '(') {
+      return { firstElement: index + 2, close: ')' };
+    }
+    return undefined;
+  }
+
+  private parseExpression(tokens: JavaToken[], index: number): { value: AnnotationValue; nextIndex: number } {
+    const parts: AnnotationValuePart[] = [];
+    let depth = 0;
+    let i = index;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+
+      if (depth === 0 && (token.value === ',' || token.value === ')' || token.value === '}' || token.value === ']')) {
+        break;
+      }
+
+      if (this.isAnnotationStart(tokens, i)) {
+        i = this.parseAnnotation(tokens, i).endIndex + 1;
+        continue;
+      }
+
+      if (token.value === '(' || token.value === '{' || token.value === '[') {
+        depth++;
+      } else if (token.value === ')' || token.value === '}' || token.value === ']') {
+        depth--;
+      } else if (token.type === 'string') {
+        parts.push({ type: 'literal', value: token.value });
+      } else if (token.type === 'identifier') {
+        const { name, nextIndex } = this.readQualifiedName(tokens, i);
+        parts.push({ type: 'reference', name });
+        i = nextIndex;
+        continue;
+      }
+
+      i++;
+    }
+
+    return { value: { parts }, nextIndex: i };
+  }
+
+  private readQualifiedName(tokens: JavaToken[], index: number): { name: string; nextIndex: number } {
+    const nameParts = [tokens[index].value];
+    let i = index + 1;
+    while (tokens[i]?.value === '.' && tokens[i + 1]?.type === 'identifier') {
+      nameParts.push(tokens[i + 1].value);
+      i += 2;
+    }
+    return { name: nameParts.join('.'), nextIndex: i };
+  }
+
+  private skipGenerics(tokens: JavaToken[], index: number): number {
+    let depth = 0;
+    let i = index;
+    while (i < tokens.length) {
+      if (tokens[i].value === '<') depth++;
+      if (tokens[i].value === '>') depth--;
+      i++;
+      if (depth === 0) break;
+    }
+    return i;
+  }
+
+  private countNewlines(content: string, start: number, end: number): number {
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      if (content[i] === '\n') count++;
+    }
+    return count;
+  }
+
+  private stripTextBlockIndent(raw: string): string {
+    return raw.split('\n').map(line => line.trim()).join('\n').trim();
+  }
+
+  private unescape(char: string): string {
+    switch (char) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      default: return char;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JaxRsEndpointExtractor } from './jaxrs-extractor';
+
+const USER_RESOURCE = `
+import jakarta.ws.rs.*;
+
+@Path(Paths.USERS)
+public class UserResource {
+    @GET
+    @Path("{id}")
+    public User get(@PathParam("id") long id) { return null; }
+
+    @Path("{id}/orders")
+    public OrderResource orders(@PathParam("id") long id) { return new OrderResource(id); }
+}
+`;
+
+const ORDER_RESOURCE = `
+import jakarta.ws.rs.*;
+
+public class OrderResource {
+    @GET
+    public List<Order> list() { return null; }
+
+    @DELETE
+    @Path("{orderId}")
+    public void delete(@PathParam("orderId") String orderId) {}
+}
+`;
+
+const PATHS = `
+public final class Paths {
+    public static final String USERS = "/api/users";
+}
+`;
+
+function indexedExtractor(files: Record<string, string>): JaxRsEndpointExtractor {
+  const extractor = new JaxRsEndpointExtractor();
+  for (const [filePath, content] of Object.entries(files)) {
+    const data = extractor.collectIndex(filePath, content);
+    if (data) extractor.applyIndex(data);
+  }
+  return extractor;
+}
+
+const FILES = { '/project/UserResource.java': USER_RESOURCE, '/project/OrderResource.java': ORDER_RESOURCE, '/project/Paths.java': PATHS };
+
+test('sub-resource locators are followed into resources of other files', () => {
+  const extractor = indexedExtractor(FILES);
+
+  const root = extractor.extract('/project/UserResource.java', USER_RESOURCE);
+  const orders = extractor.extract('/project/OrderResource.java', ORDER_RESOURCE);
+
+  assert.deepEqual(root.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['GET /api/users/{id}']);
+  assert.deepEqual(orders.map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.filePath}:${endpoint.lineNumber}`), [
+    'GET /api/users/{id}/orders /project/OrderResource.java:5',
+    'DELETE /api/users/{id}/orders/{orderId} /project/OrderResource.java:8'
+  ]);
+});
+
+test('path parameters of the locator keep their declared type below it', () => {
+  const extractor = indexedExtractor(FILES);
+
+  const [, remove] = extractor.extract('/project/OrderResource.java', ORDER_RESOURCE);
+
+  assert.deepEqual(remove.parameters, [
+    { name: 'id', in: 'path', type: 'long', required: true },
+    { name: 'orderId', in: 'path', type: 'String', required: true }
+  ]);
+});
+
+test('the same files indexed in another order give the same endpoints', () => {
+  const reversed = Object.fromEntries(Object.entries(FILES).reverse());
+
+  assert.deepEqual(
+    indexedExtractor(reversed).extract('/project/OrderResource.java', ORDER_RESOURCE),
+    indexedExtractor(FILES).extract('/project/OrderResource.java', ORDER_RESOURCE)
+  );
+});
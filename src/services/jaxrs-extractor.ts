@@ -0,0 +1,366 @@
+import type { Endpoint, EndpointParameter, HttpMethod } from '@/models/endpoint';
+import type { EndpointExtractor } from '@/models/extractor';
+import { JavaSourceParser, type ConstantScope, type JavaAnnotation, type JavaParameter, type JavaToken } from './java-source-parser';
+import { JavaConstantIndex } from './java-constant-index';
+import { EndpointMetadataReader } from './endpoint-metadata-reader';
+import { combinePaths } from './path-utils';
+import { fingerprintState } from './hashing';
+
+const HTTP_METHOD_ANNOTATIONS: Record<string, HttpMethod> = {
+  GET: 'GET',
+  POST: 'POST',
+  PUT: 'PUT',
+  PATCH: 'PATCH',
+  DELETE: 'DELETE',
+  HEAD: 'HEAD',
+  OPTIONS: 'OPTIONS'
+};
+
+// Class and method annotations whose values are resolved
+const RESOLVED_ANNOTATIONS = ['Path', 'Consumes', 'Produces'];
+
+interface ResourceMethod {
+  name: string;
+  line: number;
+  httpMethods: HttpMethod[];
+  path: string;
+  returnType: string;
+  parameters: EndpointParameter[];
+  requestBody?: string;
+  consumes: string[];
+  produces: string[];
+}
+
+interface ResourceClass {
+  className: string;
+  filePath: string;
+  path?: string;
+  methods: ResourceMethod[];
+  consumes: string[];
+  produces: string[];
+}
+
+// A resource class before its annotation values are resolved, so indexed files do not depend on each other
+interface ResourceDeclaration {
+  className: string;
+  filePath: string;
+  annotations: JavaAnnotation[];
+  methods: Array<{
+    name: string;
+    line: number;
+    httpMethods: HttpMethod[];
+    returnType: string;
+    annotations: JavaAnnotation[];
+    parameters: JavaParameter[];
+  }>;
+}
+
+// What one file adds to the index
+interface JaxRsIndexData {
+  constants: ConstantScope;
+  resources: ResourceDeclaration[];
+}
+
+export class JaxRsEndpointExtractor implements EndpointExtractor {
+  readonly name = 'jax-rs';
+  readonly version = '2';
+  readonly filePatterns = ['**/*.java'];
+  // Root resources carry `@Path`; sub-resources in their own file may only import `ws.rs` annotations
+  readonly routeTokens = ['Path', 'ws.rs'];
+  private parser = new JavaSourceParser();
+  private projectDeclarations = new Map<string, { declaration: ResourceDeclaration; constants: ConstantScope }>();
+  // Resolved on first use, once every constant is indexed
+  private projectResources?: Map<string, ResourceClass>;
+  private locatorTargets?: Set<string>;
+  private metadataReader: EndpointMetadataReader;
+
+  constructor(private constantIndex: JavaConstantIndex = new JavaConstantIndex()) {
+    this.metadataReader = new EndpointMetadataReader(constantIndex);
+  }
+
+  canHandle(filePath: string): boolean {
+    return filePath.endsWith('.java');
+  }
+
+  // Constants are indexed here too, so `@Path(Paths.USERS)` resolves without the Spring extractor
+  collectIndex(filePath: string, content: string): JaxRsIndexData | undefined {
+    const declaresResources = content.includes('@Path') || content.includes('ws.rs');
+    if (!declaresResources && !content.includes('String')) {
+      return undefined;
+    }
+    const tokens = this.parser.tokenize(content);
+    const constants = this.parser.collectConstants(tokens);
+    // Classes without resource methods serve no endpoints, wherever they are reached from
+    const resources = declaresResources ? this.parseDeclarations(filePath, tokens).filter(resource => resource.methods.length > 0) : [];
+    return constants.size > 0 || resources.length > 0 ? { constants, resources } : undefined;
+  }
+
+  /**
+   * Records the constants and resource classes of a source file so that
+   * sub-resource locators in other files can be followed.
+   */
+  applyIndex({ constants, resources }: JaxRsIndexData): void {
+    this.constantIndex.indexScope(constants);
+    for (const declaration of resources) {
+      if (!this.projectDeclarations.has(declaration.className)) {
+        this.projectDeclarations.set(declaration.className, { declaration, constants });
+      }
+    }
+    this.projectResources = undefined;
+    this.locatorTargets = undefined;
+  }
+
+  private getProjectResources(): Map<string, ResourceClass> {
+    this.projectResources ??= new Map([...this.projectDeclarations].map(([className, { declaration, constants }]) =>
+      [className, this.resolveResource(declaration, constants)]
+    ));
+    return this.projectResources;
+  }
+
+  // Class names returned by any sub-resource locator of the project
+  private getLocatorTargets(): Set<string> {
+    this.locatorTargets ??= new Set([...this.projectDeclarations.values()].flatMap(({ declaration }) => declaration.methods
+      .filter(method => method.httpMethods.length === 0)
+      .map(method => this.extractResourceType(method.returnType))));
+    return this.locatorTargets;
+  }
+
+  // Declarations and constants determine the resolved resources
+  indexFingerprint(): string {
+    return fingerprintState(this.constantIndex.getFingerprint(), this.projectDeclarations);
+  }
+
+  /**
+   * Endpoints are reported by the file that declares their resource method: a
+   * sub-resource in this file is reached from the root resources of every file,
+   * while sub-resources in other files are left to the extraction of those files.
+   */
+  extract(filePath: string, content: string): Endpoint[] {
+    const tokens = this.parser.tokenize(content);
+    const constants = this.parser.collectConstants(tokens);
+    const resources = this.parseDeclarations(filePath, tokens).map(declaration => this.resolveResource(declaration, constants));
+    const localResources = new Map(resources.map(resource => [resource.className, resource]));
+    const endpoints: Endpoint[] = [];
+    const walk = { filePath, localResources, endpoints };
+
+    for (const resource of resources) {
+      if (resource.path !== undefined) {
+        this.collectEndpoints(resource, resource.path, [], new Set(), walk);
+      }
+    }
+
+    if (resources.some(resource => this.getLocatorTargets().has(resource.className))) {
+      for (const resource of this.getProjectResources().values()) {
+        if (resource.path !== undefined && resource.filePath !== filePath) {
+          this.collectEndpoints(resource, resource.path, [], new Set(), walk);
+        }
+      }
+    }
+
+    return endpoints;
+  }
+
+  private collectEndpoints(
+    resource: ResourceClass,
+    basePath: string,
+    locatorParameters: EndpointParameter[],
+    visited: Set<string>,
+    walk: { filePath: string; localResources: Map<string, ResourceClass>; endpoints: Endpoint[] }
+  ): void {
+    if (visited.has(resource.className)) {
+      return;
+    }
+    const trail = new Set(visited).add(resource.className);
+
+    for (const method of resource.methods) {
+      const path = combinePaths(basePath, method.path);
+
+      if (method.httpMethods.length === 0) {
+        // Sub-resource locator: the returned type serves everything below this path
+        const subResourceName = this.extractResourceType(method.returnType);
+        const subResource = walk.localResources.get(subResourceName) || this.getProjectResources().get(subResourceName);
+        if (subResource) {
+          // The locator's path parameters keep their declared types for the endpoints below it
+          const inherited = [...locatorParameters, ...method.parameters.filter(parameter => parameter.in === 'path')];
+          this.collectEndpoints(subResource, path, inherited, trail, walk);
+        }
+        continue;
+      }
+
+      if (resource.filePath !== walk.filePath) {
+        continue;
+      }
+
+      const ownNames = new Set(method.parameters.map(parameter => parameter.name));
+      const parameters = [...locatorParameters.filter(parameter => !ownNames.has(parameter.name)), ...method.parameters];
+      for (const httpMethod of method.httpMethods) {
+        walk.endpoints.push({
+          method: httpMethod,
+          path: this.normalizeTemplates(path),
+          filePath: resource.filePath,
+          lineNumber: method.line,
+          className: resource.className,
+          methodName: method.name,
+          parameters,
+          requestBody: method.requestBody,
+          returnType: method.returnType || undefined,
+          consumes: [method.consumes, resource.consumes].find(types => types.length > 0),
+          produces: [method.produces, resource.produces].find(types => types.length > 0)
+        });
+      }
+    }
+  }
+
+  private parseDeclarations(filePath: string, tokens: JavaToken[]): ResourceDeclaration[] {
+    const resources: ResourceDeclaration[] = [];
+    const scopes: Array<ResourceDeclaration | null> = [];
+    let pendingResource: ResourceDeclaration | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.value === '{') {
+        scopes.push(pendingResource);
+        pendingResource = null;
+        continue;
+      }
+
+      if (token.value === '}') {
+        scopes.pop();
+        continue;
+      }
+
+      if (this.parser.isTypeDeclaration(tokens, i)) {
+        pendingResource = { className: tokens[i + 1].value, filePath, annotations: [], methods: [] };
+        resources.push(pendingResource);
+        i++;
+        continue;
+      }
+
+      if (!this.parser.isAnnotationStart(tokens, i)) {
+        continue;
+      }
+
+      const { annotations, nextIndex } = this.parser.collectAnnotations(tokens, i);
+      i = nextIndex - 1;
+
+      if (this.parser.isTypeDeclaration(tokens, nextIndex)) {
+        pendingResource = { className: tokens[nextIndex + 1].value, filePath, annotations: this.resolvedAnnotations(annotations), methods: [] };
+        resources.push(pendingResource);
+        i = nextIndex + 1;
+        continue;
+      }
+
+      const httpMethods = annotations
+        .map(annotation => HTTP_METHOD_ANNOTATIONS[annotation.name])
+        .filter((method): method is HttpMethod => method !== undefined);
+      const resource = scopes[scopes.length - 1];
+
+      if (!resource || (httpMethods.length === 0 && !annotations.some(annotation => annotation.name === 'Path'))) {
+        continue;
+      }
+
+      const declaration = this.parser.findMethodDeclaration(tokens, nextIndex);
+      if (!declaration) {
+        continue;
+      }
+
+      const firstAnnotation = annotations.find(annotation =>
+        annotation.name === 'Path' || annotation.name in HTTP_METHOD_ANNOTATIONS
+      );
+
+      resource.methods.push({
+        name: declaration.name,
+        line: firstAnnotation?.line ?? declaration.line,
+        httpMethods: [...new Set(httpMethods)],
+        returnType: declaration.returnType,
+        annotations: this.resolvedAnnotations(annotations),
+        parameters: this.parser.parseParameters(tokens, declaration.nameIndex + 1)
+      });
+    }
+
+    return resources;
+  }
+
+  private resolvedAnnotations(annotations: JavaAnnotation[]): JavaAnnotation[] {
+    return annotations.filter(annotation => RESOLVED_ANNOTATIONS.includes(annotation.name));
+  }
+
+  // Resolves paths, parameter names and media types against the declaring file's constants and the project index
+  private resolveResource(declaration: ResourceDeclaration, constants: ConstantScope): ResourceClass {
+    const pathAnnotation = declaration.annotations.find(annotation => annotation.name === 'Path');
+    return {
+      className: declaration.className,
+      filePath: declaration.filePath,
+      path: pathAnnotation ? this.extractPath(pathAnnotation, constants) : undefined,
+      methods: declaration.methods.map(method => {
+        const methodPath = method.annotations.find(annotation => annotation.name === 'Path');
+        return {
+          name: method.name,
+          line: method.line,
+          httpMethods: method.httpMethods,
+          path: methodPath ? this.extractPath(methodPath, constants) : '',
+          returnType: method.returnType,
+          ...this.metadataReader.readJaxRsHandler(method.parameters, constants),
+          ...this.extractMediaTypes(method.annotations, constants)
+        };
+      }),
+      ...this.extractMediaTypes(declaration.annotations, constants)
+    };
+  }
+
+  private extractPath(annotation: JavaAnnotation, constants: ConstantScope): string {
+    const value = annotation.args.get('value')?.[0];
+    return value ? this.constantIndex.toText(value, constants) : '';
+  }
+
+  private extractMediaTypes(annotations: JavaAnnotation[], constants: ConstantScope): { consumes: string[]; produces: string[] } {
+    const read = (name: string) =>
+      this.metadataReader.readMediaTypes(annotations.find(annotation => annotation.name === name)?.args.get('value'), constants);
+    return { consumes: read('Consumes'), produces: read('Produces') };
+  }
+
+  private extractResourceType(returnType: string): string {
+    // `Class<UserResource>` locators return the class rather than an instance
+    const classMatch = returnType.match(/^Class<(?:\?extends)?([\w.]+)>$/);
+    const typeName = classMatch ? classMatch[1] : returnType.replace(/<.*$/, '');
+    return typeName.split('.').pop() || typeName;
+  }
+
+  /**
+   * Collapses whitespace inside `{name : regex}` templates so that the same
+   * template always renders identically, e.g. `{id: \d+}` becomes `{id:\d+}`.
+   */
+  private normalizeTemplates(path: string): string {
+    let result = '';
+    let depth = 0;
+    let template = '';
+
+    for (const char of path) {
+      if (char === '{') {
+        depth++;
+        if (depth === 1) {
+          template = '';
+          continue;
+        }
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          const separator = template.indexOf(':');
+          result += separator === -1 ?
+            `{${template.trim()}}` :
+            `{${template.slice(0, separator).trim()}:${template.slice(separator + 1).trim()}}`;
+          continue;
+        }
+      }
+
+      if (depth > 0) {
+        template += char;
+      } else {
+        result += char;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ScanResultWithCoverage } from '@/models/endpoint';
+import { SCAN_REPORT_SCHEMA_VERSION } from '@/models/scan-report';
+import { JsonExporter } from './json-exporter';
+
+const result: ScanResultWithCoverage = {
+  totalFiles: 3,
+  scannedFiles: 2,
+  endpoints: [
+    {
+      method: 'GET',
+      path: '/users/{id}',
+      filePath: '/project/UserController.java',
+      lineNumber: 12,
+      methodName: 'getUser',
+      apiSpecCoverage: {
+        status: 'covered',
+        specFile: '/project/openapi.yaml',
+        matchedEndpoint: { method: 'GET', path: '/users/{id}', operationId: 'getUser' }
+      }
+    },
+    {
+      method: 'DELETE',
+      path: '/users/{id}',
+      filePath: '/project/UserController.java',
+      lineNumber: 20,
+      apiSpecCoverage: { status: 'not-covered', documentedMethods: ['GET'] }
+    }
+  ],
+  errors: ['Error scanning /project/Broken.java: Unexpected token'],
+  apiSpecs: [{ filePath: '/project/openapi.yaml', type: 'openapi', version: '3.0.3', basePaths: [], endpointCount: 1 }]
+};
+
+test('the JSON report is versioned and has explicit nulls for absent fields', () => {
+  const report = new JsonExporter().createScanReport(result, '/project');
+
+  assert.equal(report.schemaVersion, SCAN_REPORT_SCHEMA_VERSION);
+  assert.deepEqual(report.summary, {
+    totalFiles: 3,
+    scannedFiles: 2,
+    endpointCount: 2,
+    errorCount: 1,
+    methods: { GET: 1, DELETE: 1 },
+    coverage: { covered: 1, notCovered: 1, noSpecFound: 0, percentage: 50 }
+  });
+  assert.deepEqual(report.apiSpecs?.[0].module, null);
+  assert.equal(report.endpoints[1].className, null);
+  assert.deepEqual(report.endpoints[0].coverage?.matchedMethods, ['GET']);
+  assert.deepEqual(report.endpoints[1].coverage?.documentedMethods, ['GET']);
+  assert.equal(report.specDrift, null);
+});
+
+test('plain scan results have null coverage', () => {
+  const endpoints = result.endpoints.map(({ apiSpecCoverage, ...endpoint }) => endpoint);
+  const report = new JsonExporter().createScanReport({ totalFiles: 3, scannedFiles: 2, endpoints, errors: [] }, '/project');
+
+  assert.equal(report.summary.coverage, null);
+  assert.equal(report.apiSpecs, null);
+  assert.equal(report.endpoints[0].coverage, null);
+});
+
+test('NDJSON has one tagged record per line, the scan summary first', () => {
+  const exporter = new JsonExporter();
+  const report = exporter.createScanReport(result, '/project');
+
+  const lines = exporter.toNdjson(report).split('\n');
+  const records = lines.slice(0, -1).map(line => JSON.parse(line));
+
+  assert.equal(lines.at(-1), '');
+  assert.deepEqual(records.map(record => record.record), ['scan', 'apiSpec', 'endpoint', 'endpoint', 'error']);
+  assert.deepEqual(records[0], { record: 'scan', schemaVersion: report.schemaVersion, generatedAt: report.generatedAt, directory: '/project', summary: report.summary });
+  assert.deepEqual(records[4], { record: 'error', message: result.errors[0] });
+});
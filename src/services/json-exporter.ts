@@ -0,0 +1,162 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { ScanResult, ScanResultWithCoverage, Endpoint, EndpointWithCoverage, SpecDriftReport } from '@/models/endpoint';
+import {
+  SCAN_REPORT_SCHEMA_VERSION,
+  type ReportEndpoint,
+  type ReportSpecDrift,
+  type ScanReport,
+  type ScanReportSummary
+} from '@/models/scan-report';
+import type { ScanDiff } from '@/models/scan-diff';
+
+export class JsonExporter {
+  /**
+   * Builds the versioned report behind `--format json|ndjson`. Coverage fields are
+   * `null` for plain scan results.
+   */
+  createScanReport(result: ScanResult | ScanResultWithCoverage, directory: string): ScanReport {
+    const withCoverage = 'apiSpecs' in result ? result : undefined;
+
+    return {
+      schemaVersion: SCAN_REPORT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      directory,
+      summary: this.createSummary(result, withCoverage),
+      apiSpecs: withCoverage
+        ? withCoverage.apiSpecs.map(spec => ({
+          filePath: spec.filePath,
+          type: spec.type,
+          version: spec.version,
+          basePaths: spec.basePaths,
+          endpointCount: spec.endpointCount,
+          module: spec.module ?? null
+        }))
+        : null,
+      endpoints: result.endpoints.map(endpoint => this.toReportEndpoint(endpoint)),
+      errors: result.errors,
+      specDrift: withCoverage?.specDrift ? this.toReportSpecDrift(withCoverage.specDrift) : null
+    };
+  }
+
+  toJson(report: ScanReport | ScanDiff): string {
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+
+  /**
+   * One record per line, each tagged with `record`: a leading `scan` record with the
+   * summary, then `apiSpec`, `endpoint`, `error`, `missingInCode` and `missingInSpec` records.
+   */
+  toNdjson(report: ScanReport): string {
+    const { schemaVersion, generatedAt, directory, summary } = report;
+    const records: unknown[] = [
+      { record: 'scan', schemaVersion, generatedAt, directory, summary },
+      ...(report.apiSpecs || []).map(spec => ({ record: 'apiSpec', ...spec })),
+      ...report.endpoints.map(endpoint => ({ record: 'endpoint', ...endpoint })),
+      ...report.errors.map(message => ({ record: 'error', message })),
+      ...(report.specDrift?.missingInCode || []).map(operation => ({ record: 'missingInCode', ...operation })),
+      ...(report.specDrift?.missingInSpec || []).map(endpoint => ({ record: 'missingInSpec', ...endpoint }))
+    ];
+
+    return records.map(record => `${JSON.stringify(record)}\n`).join('');
+  }
+
+  async exportSpecDrift(report: SpecDriftReport, outputPath: string): Promise<void> {
+    const document = {
+      schemaVersion: SCAN_REPORT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      ...this.toReportSpecDrift(report)
+    };
+
+    await this.writeReport(`${JSON.stringify(document, null, 2)}\n`, outputPath);
+  }
+
+  async writeReport(content: string, outputPath: string): Promise<void> {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, content, 'utf-8');
+  }
+
+  private createSummary(result: ScanResult, withCoverage: ScanResultWithCoverage | undefined): ScanReportSummary {
+    const methods: Record<string, number> = {};
+    for (const endpoint of result.endpoints) {
+      methods[endpoint.method] = (methods[endpoint.method] || 0) + 1;
+    }
+
+    let coverage: ScanReportSummary['coverage'] = null;
+    if (withCoverage) {
+      const count = (status: string) => withCoverage.endpoints.filter(e => e.apiSpecCoverage.status === status).length;
+      const covered = count('covered');
+      const notCovered = count('not-covered');
+      coverage = {
+        covered,
+        notCovered,
+        noSpecFound: count('no-spec-found'),
+        percentage: covered + notCovered > 0 ? Math.round((covered / (covered + notCovered)) * 1000) / 10 : null
+      };
+    }
+
+    return {
+      totalFiles: result.totalFiles,
+      scannedFiles: result.scannedFiles,
+      endpointCount: result.endpoints.length,
+      errorCount: result.errors.length,
+      methods,
+      coverage
+    };
+  }
+
+  private toReportEndpoint(endpoint: Endpoint | EndpointWithCoverage): ReportEndpoint {
+    const coverage = 'apiSpecCoverage' in endpoint ? endpoint.apiSpecCoverage : undefined;
+    const matched = coverage?.matchedEndpoint;
+
+    return {
+      method: endpoint.method,
+      path: endpoint.path,
+      filePath: endpoint.filePath,
+      lineNumber: endpoint.lineNumber,
+      className: endpoint.className ?? null,
+      methodName: endpoint.methodName ?? null,
+      parameters: endpoint.parameters ?? [],
+      requestBody: endpoint.requestBody ?? null,
+      returnType: endpoint.returnType ?? null,
+      consumes: endpoint.consumes ?? [],
+      produces: endpoint.produces ?? [],
+      module: ('module' in endpoint && endpoint.module) || null,
+      coverage: coverage
+        ? {
+          status: coverage.status,
+          specFile: coverage.specFile ?? null,
+          operation: matched
+            ? { method: matched.method, path: matched.path, operationId: matched.operationId ?? null, summary: matched.summary ?? null }
+            : null,
+          matchedMethods: coverage.matchedMethods ?? (matched && coverage.status === 'covered' ? [matched.method] : []),
+          documentedMethods: coverage.documentedMethods ?? [],
+          undocumentedParameters: coverage.undocumentedParameters ?? [],
+          pathMatch: coverage.pathMatch ?? null
+        }
+        : null
+    };
+  }
+
+  private toReportSpecDrift(report: SpecDriftReport): ReportSpecDrift {
+    return {
+      missingInCode: report.missingInCode.map(operation => ({
+        specFile: operation.specFile,
+        method: operation.method,
+        path: operation.path,
+        operationId: operation.operationId ?? null,
+        summary: operation.summary ?? null,
+        implementedMethods: operation.implementedMethods ?? []
+      })),
+      missingInSpec: report.missingInSpec.map(endpoint => ({
+        method: endpoint.method,
+        path: endpoint.path,
+        filePath: endpoint.filePath,
+        lineNumber: endpoint.lineNumber,
+        className: endpoint.className ?? null,
+        methodName: endpoint.methodName ?? null,
+        documentedMethods: endpoint.apiSpecCoverage.documentedMethods ?? []
+      }))
+    };
+  }
+}
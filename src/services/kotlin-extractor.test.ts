@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KotlinEndpointExtractor } from './kotlin-extractor';
+import { JavaConstantIndex } from './java-constant-index';
+
+function routes(extractor: KotlinEndpointExtractor, content: string): string[] {
+  return extractor.extract('/project/Routes.kt', content)
+    .map(endpoint => `${endpoint.method} ${endpoint.path} ${[endpoint.className, endpoint.methodName].filter(Boolean).join('.')}`);
+}
+
+test('Spring controllers use Kotlin arrays and constants of other files', () => {
+  const constants = new JavaConstantIndex();
+  const extractor = new KotlinEndpointExtractor(constants);
+  const paths = `
+object ApiPaths {
+    const val BASE = "/api"
+    const val USERS = "$BASE/users"
+}
+`;
+  extractor.applyIndex(extractor.collectIndex('/project/ApiPaths.kt', paths)!);
+
+  const content = `
+@RestController
+@RequestMapping(ApiPaths.USERS)
+class UserController(private val service: UserService) {
+    @GetMapping(value = ["", "/all"])
+    suspend fun list(@RequestParam page: Int = 0): List<User> = service.list(page)
+
+    companion object {
+        const val BY_ID = "/{id}"
+    }
+
+    @DeleteMapping(BY_ID)
+    fun delete(@PathVariable id: Long) = service.delete(id)
+}
+`;
+
+  assert.deepEqual(routes(extractor, content), [
+    'GET /api/users UserController.list',
+    'GET /api/users/all UserController.list',
+    'DELETE /api/users/{id} UserController.delete'
+  ]);
+});
+
+test('Ktor routes compose the prefixes of enclosing route blocks', () => {
+  const content = `
+import io.ktor.server.routing.*
+
+fun Application.module() {
+    routing {
+        route("/api") {
+            authenticate("jwt") {
+                get("/users/{id}") { call.respond(users[call.parameters["id"]]) }
+            }
+            route("/orders", HttpMethod.Post) { handle { } }
+        }
+        get { call.respondText("root") }
+    }
+}
+`;
+
+  assert.deepEqual(routes(new KotlinEndpointExtractor(), content), [
+    'GET /api/users/{id} module',
+    'POST /api/orders module',
+    'GET / module'
+  ]);
+});
+
+test('http4k bindings under nested routes get their prefix', () => {
+  const content = `
+import org.http4k.routing.*
+
+class Api {
+    val app = routes(
+        "/api" bind routes(
+            "/users/{id}" bind Method.DELETE to deleteUser,
+            "/users" bind GET to listUsers
+        ),
+        "/ping" bind GET to { Response(OK) }
+    )
+}
+`;
+
+  assert.deepEqual(routes(new KotlinEndpointExtractor(), content), [
+    'DELETE /api/users/{id} Api',
+    'GET /api/users Api',
+    'GET /ping Api'
+  ]);
+});
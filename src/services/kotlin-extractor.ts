@@ -0,0 +1,552 @@
+import { NAMED_HTTP_METHODS, type Endpoint, type HttpMethod } from '@/models/endpoint';
+import type { EndpointExtractor } from '@/models/extractor';
+import {
+  JavaSourceParser,
+  type AnnotationValue,
+  type AnnotationValuePart,
+  type ConstantScope,
+  type JavaAnnotation,
+  type JavaParameter,
+  type JavaToken
+} from './java-source-parser';
+import { JavaConstantIndex } from './java-constant-index';
+import { EndpointMetadataReader } from './endpoint-metadata-reader';
+import { combinePaths } from './path-utils';
+import { extractSpringHttpMethods, isSpringMapping } from './spring-mapping';
+
+const KTOR_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS'
+};
+
+const TYPE_KEYWORDS = ['class', 'object', 'interface'];
+
+const MODIFIERS = [
+  'public', 'protected', 'private', 'internal', 'open', 'final', 'abstract', 'sealed', 'data', 'enum',
+  'inner', 'value', 'annotation', 'override', 'suspend', 'inline', 'operator', 'infix', 'tailrec', 'external'
+];
+
+interface KotlinScope {
+  className?: string;
+  functionName?: string;
+  typeIndex?: number;
+}
+
+export class KotlinEndpointExtractor implements EndpointExtractor {
+  readonly name = 'kotlin';
+  readonly version = '2';
+  readonly filePatterns = ['**/*.kt'];
+  readonly routeTokens = ['Mapping', 'io.ktor', 'org.http4k'];
+  private parser = new JavaSourceParser();
+  private metadataReader: EndpointMetadataReader;
+
+  constructor(private constantIndex: JavaConstantIndex = new JavaConstantIndex()) {
+    this.metadataReader = new EndpointMetadataReader(constantIndex);
+  }
+
+  canHandle(filePath: string): boolean {
+    return filePath.endsWith('.kt');
+  }
+
+  /**
+   * The `const val` declarations of a Kotlin file, added to the shared JVM
+   * constant index so that Java and Kotlin mappings can reference them.
+   */
+  collectIndex(filePath: string, content: string): ConstantScope | undefined {
+    if (!content.includes('const val')) {
+      return undefined;
+    }
+    const tokens = this.parser.tokenize(content);
+    const constants = this.collectConstants(tokens, this.buildScopes(tokens));
+    return constants.size > 0 ? constants : undefined;
+  }
+
+  applyIndex(constants: ConstantScope): void {
+    this.constantIndex.indexScope(constants);
+  }
+
+  indexFingerprint(): string {
+    return this.constantIndex.getFingerprint();
+  }
+
+  extract(filePath: string, content: string): Endpoint[] {
+    const tokens = this.parser.tokenize(content);
+    const scopes = this.buildScopes(tokens);
+    const constants = this.collectConstants(tokens, scopes);
+
+    const endpoints = this.extractSpringEndpoints(filePath, tokens, scopes, constants);
+
+    if (content.includes('io.ktor')) {
+      endpoints.push(...this.extractKtorEndpoints(filePath, tokens, scopes));
+    }
+
+    if (content.includes('org.http4k')) {
+      endpoints.push(...this.extractHttp4kEndpoints(filePath, tokens, scopes));
+    }
+
+    return endpoints;
+  }
+
+  private extractSpringEndpoints(
+    filePath: string,
+    tokens: JavaToken[],
+    scopes: KotlinScope[],
+    constants: ConstantScope
+  ): Endpoint[] {
+    const endpoints: Endpoint[] = [];
+    const classMappings = new Map<number, { paths: string[]; consumes: string[]; produces: string[] }>();
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (!this.parser.isAnnotationStart(tokens, i)) {
+        continue;
+      }
+
+      const { annotations, nextIndex } = this.parser.collectAnnotations(tokens, i, MODIFIERS);
+      i = nextIndex - 1;
+
+      if (this.isTypeDeclaration(tokens, nextIndex)) {
+        const requestMapping = annotations.find(annotation => annotation.name === 'RequestMapping');
+        if (requestMapping) {
+          classMappings.set(nextIndex + 1, {
+            paths: this.extractPaths(requestMapping, constants),
+            ...this.extractMediaTypes(requestMapping, constants)
+          });
+        }
+        continue;
+      }
+
+      const mappings = annotations.filter(isSpringMapping);
+      if (mappings.length === 0 || tokens[nextIndex]?.value !== 'fun') {
+        continue;
+      }
+
+      const scope = scopes[nextIndex];
+      const signature = this.readFunctionSignature(tokens, nextIndex);
+      const handler = this.metadataReader.readSpringHandler(signature.parameters, constants);
+      const classMapping = scope.typeIndex !== undefined ? classMappings.get(scope.typeIndex) : undefined;
+
+      for (const mapping of mappings) {
+        const methods = extractSpringHttpMethods(mapping);
+        const paths = this.extractPaths(mapping, constants);
+        const { consumes, produces } = this.extractMediaTypes(mapping, constants);
+
+        for (const basePath of classMapping?.paths || ['']) {
+          for (const path of paths) {
+            for (const method of methods) {
+              endpoints.push({
+                method,
+                path: combinePaths(basePath, path),
+                filePath,
+                lineNumber: mapping.line,
+                className: scope.className,
+                methodName: signature.name,
+                parameters: handler.parameters,
+                requestBody: handler.requestBody,
+                returnType: signature.returnType,
+                consumes: [consumes, classMapping?.consumes].find(types => types && types.length > 0),
+                produces: [produces, classMapping?.produces].find(types => types && types.length > 0)
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return endpoints;
+  }
+
+  // Ktor: routing { route("/api") { get("/users/{id}") { ... } } }
+  private extractKtorEndpoints(filePath: string, tokens: JavaToken[], scopes: KotlinScope[]): Endpoint[] {
+    const endpoints: Endpoint[] = [];
+    const prefixes: string[] = [''];
+    let pendingPrefix: string | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const prefix = prefixes[prefixes.length - 1];
+
+      if (token.value === '{') {
+        prefixes.push(pendingPrefix !== null ? combinePaths(prefix, pendingPrefix) : prefix);
+        pendingPrefix = null;
+        continue;
+      }
+
+      if (token.value === '}') {
+        if (prefixes.length > 1) prefixes.pop();
+        continue;
+      }
+
+      if (token.type !== 'identifier' || tokens[i - 1]?.value === '.') {
+        continue;
+      }
+
+      if (token.value === 'route' && tokens[i + 1]?.value === '(') {
+        const call = this.readCall(tokens, i + 1);
+        if (tokens[call.endIndex + 1]?.value === '{') {
+          pendingPrefix = call.path ?? '';
+          if (call.method) {
+            endpoints.push(this.createEndpoint(call.method, combinePaths(prefix, pendingPrefix), filePath, token, scopes[i]));
+          }
+        }
+        i = call.endIndex;
+        continue;
+      }
+
+      const method = KTOR_METHODS[token.value];
+      if (!method) {
+        continue;
+      }
+
+      let next = i + 1;
+      if (tokens[next]?.value === '<') {
+        next = this.skipTypeArguments(tokens, next);
+      }
+
+      // `get() { ... }` is a property getter, not a route
+      if (token.value === 'get' && tokens[next]?.value === '(' && tokens[next + 1]?.value === ')') {
+        continue;
+      }
+
+      let path = '';
+      if (tokens[next]?.value === '(') {
+        const call = this.readCall(tokens, next);
+        path = call.path ?? '';
+        next = call.endIndex + 1;
+      }
+
+      if (tokens[next]?.value === '{') {
+        endpoints.push(this.createEndpoint(method, combinePaths(prefix, path), filePath, token, scopes[i]));
+        pendingPrefix = path;
+        i = next - 1;
+      }
+    }
+
+    return endpoints;
+  }
+
+  // http4k: routes("/api" bind routes("/users" bind Method.GET to handler))
+  private extractHttp4kEndpoints(filePath: string, tokens: JavaToken[], scopes: KotlinScope[]): Endpoint[] {
+    const endpoints: Endpoint[] = [];
+    const prefixes: string[] = [''];
+    let pendingPrefix: string | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const prefix = prefixes[prefixes.length - 1];
+
+      if (token.value === '(') {
+        prefixes.push(pendingPrefix ?? prefix);
+        pendingPrefix = null;
+        continue;
+      }
+
+      if (token.value === ')') {
+        if (prefixes.length > 1) prefixes.pop();
+        continue;
+      }
+
+      const bind = tokens[i + 1]?.value;
+      if (token.type !== 'string' || (bind !== 'bind' && bind !== 'bindContract') || tokens[i + 2]?.type !== 'identifier') {
+        continue;
+      }
+
+      const target = this.readQualifiedName(tokens, i + 2);
+      const method = target.name.split('.').pop()?.toUpperCase() as HttpMethod;
+      const path = combinePaths(prefix, token.value);
+
+      if (NAMED_HTTP_METHODS.includes(method)) {
+        endpoints.push(this.createEndpoint(method, path, filePath, token, scopes[i]));
+      } else if (target.name === 'routes' && tokens[target.nextIndex]?.value === '(') {
+        pendingPrefix = path;
+      }
+      i = target.nextIndex - 1;
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Maps every token to the class and function it belongs to. A declaration
+   * claims the next `{` outside parentheses; everything else opens a block
+   * that inherits the enclosing scope.
+   */
+  private buildScopes(tokens: JavaToken[]): KotlinScope[] {
+    const result: KotlinScope[] = new Array(tokens.length);
+    const stack: KotlinScope[] = [{}];
+    const parenDepths: number[] = [];
+    let parenDepth = 0;
+    let pending: KotlinScope | null = null;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const current = stack[stack.length - 1];
+      result[i] = current;
+
+      if (token.value === '(') {
+        parenDepth++;
+      } else if (token.value === ')') {
+        parenDepth--;
+      } else if (token.value === '{') {
+        stack.push(pending ?? current);
+        pending = null;
+        parenDepths.push(parenDepth);
+        parenDepth = 0;
+      } else if (token.value === '}') {
+        if (stack.length > 1) stack.pop();
+        parenDepth = parenDepths.pop() ?? 0;
+      } else if (parenDepth === 0 && token.value === 'object' && tokens[i - 1]?.value === 'companion') {
+        pending = { className: current.className, typeIndex: current.typeIndex };
+      } else if (parenDepth === 0 && this.isTypeDeclaration(tokens, i)) {
+        pending = { className: tokens[i + 1].value, typeIndex: i + 1 };
+      } else if (parenDepth === 0 && token.value === 'fun') {
+        pending = { ...current, functionName: this.readFunctionName(tokens, i) };
+      } else if (parenDepth === 0 && (token.value === 'val' || token.value === 'var') && !pending?.functionName) {
+        pending = null;
+      }
+    }
+
+    return result;
+  }
+
+  private collectConstants(tokens: JavaToken[], scopes: KotlinScope[]): ConstantScope {
+    const constants: ConstantScope = new Map();
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].value !== 'const' || tokens[i + 1]?.value !== 'val' || tokens[i + 2]?.type !== 'identifier') {
+        continue;
+      }
+
+      const name = tokens[i + 2].value;
+      let start = i + 3;
+      if (tokens[start]?.value === ':') {
+        start += 2;
+      }
+      if (tokens[start]?.value !== '=') {
+        continue;
+      }
+
+      const value = this.parseConstantExpression(tokens, start + 1);
+      if (value) {
+        constants.set(name, value);
+        const className = scopes[i].className;
+        if (className) {
+          constants.set(`${className}.${name}`, value);
+        }
+      }
+    }
+
+    return constants;
+  }
+
+  // Kotlin has no statement terminator: the expression ends with its line unless continued by `+`
+  private parseConstantExpression(tokens: JavaToken[], index: number): AnnotationValue | undefined {
+    const parts: AnnotationValuePart[] = [];
+    let line = tokens[index]?.line;
+    let i = index;
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+      const continued = token.line === line || tokens[i - 1]?.value === '+' || token.value === '+';
+      if (!continued) break;
+      line = token.line;
+
+      if (token.type === 'string') {
+        parts.push(...this.splitTemplate(token.value));
+      } else if (token.type === 'identifier') {
+        const reference = this.readQualifiedName(tokens, i);
+        parts.push({ type: 'reference', name: reference.name });
+        i = reference.nextIndex;
+        continue;
+      } else if (token.value !== '+') {
+        return undefined;
+      }
+      i++;
+    }
+
+    return parts.length > 0 ? { parts } : undefined;
+  }
+
+  private extractPaths(annotation: JavaAnnotation, constants: ConstantScope): string[] {
+    const values = annotation.args.get('path') || annotation.args.get('value') || [];
+    const paths = values.map(value => this.constantIndex.toText(this.expandTemplates(value), constants));
+    return paths.length > 0 ? paths : [''];
+  }
+
+  private extractMediaTypes(annotation: JavaAnnotation, constants: ConstantScope): { consumes: string[]; produces: string[] } {
+    const read = (key: string) =>
+      this.metadataReader.readMediaTypes(annotation.args.get(key)?.map(value => this.expandTemplates(value)), constants);
+    return { consumes: read('consumes'), produces: read('produces') };
+  }
+
+  private expandTemplates(value: AnnotationValue): AnnotationValue {
+    return {
+      parts: value.parts.flatMap(part => part.type === 'literal' ? this.splitTemplate(part.value) : [part])
+    };
+  }
+
+  // "$BASE/users/${Paths.ID}" -> BASE, "/users/", Paths.ID
+  private splitTemplate(text: string): AnnotationValuePart[] {
+    const parts: AnnotationValuePart[] = [];
+    const templatePattern = /\$\{\s*([\w.]+)\s*\}|\$([A-Za-z_]\w*)/g;
+    let lastIndex = 0;
+    let match;
+
+    while ((match = templatePattern.exec(text)) !== null) {
+      if (match.index > lastIndex) {
+        parts.push({ type: 'literal', value: text.slice(lastIndex, match.index) });
+      }
+      parts.push({ type: 'reference', name: match[1] || match[2] });
+      lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < text.length || parts.length === 0) {
+      parts.push({ type: 'literal', value: text.slice(lastIndex) });
+    }
+
+    return parts;
+  }
+
+  private readCall(tokens: JavaToken[], openIndex: number): { path?: string; method?: HttpMethod; endIndex: number } {
+    let depth = 0;
+    let path: string | undefined;
+    let method: HttpMethod | undefined;
+    let i = openIndex;
+
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.value === '(') depth++;
+      if (token.value === ')') depth--;
+      if (depth === 0) break;
+
+      if (depth === 1 && token.type === 'string' && path === undefined) {
+        path = token.value;
+      }
+      if (depth === 1 && token.value === 'HttpMethod' && tokens[i + 1]?.value === '.') {
+        const name = tokens[i + 2]?.value.toUpperCase() as HttpMethod;
+        if (NAMED_HTTP_METHODS.includes(name)) method = name;
+      }
+    }
+
+    return { path, method, endIndex: i };
+  }
+
+  private readFunctionName(tokens: JavaToken[], funIndex: number): string | undefined {
+    let i = funIndex + 1;
+    if (tokens[i]?.value === '<') {
+      i = this.skipTypeArguments(tokens, i);
+    }
+
+    let name: string | undefined;
+    while (i < tokens.length && tokens[i].value !== '(') {
+      if (tokens[i].type === 'identifier') {
+        name = tokens[i].value;
+      } else if (tokens[i].value !== '.' && tokens[i].value !== '<' && tokens[i].value !== '>' && tokens[i].value !== '?') {
+        return undefined;
+      }
+      i++;
+    }
+    return name;
+  }
+
+  /**
+   * Reads `fun show(@PathVariable id: Long, @RequestParam page: Int = 0): UserDto`.
+   * Functions without a declared return type report none.
+   */
+  private readFunctionSignature(
+    tokens: JavaToken[],
+    funIndex: number
+  ): { name?: string; parameters: JavaParameter[]; returnType?: string } {
+    const name = this.readFunctionName(tokens, funIndex);
+    let i = funIndex + 1;
+    while (i < tokens.length && tokens[i].value !== '(' && tokens[i].value !== '{') i++;
+    if (tokens[i]?.value !== '(') {
+      return { name, parameters: [] };
+    }
+
+    const parameters: JavaParameter[] = [];
+    i++;
+    while (i < tokens.length && tokens[i].value !== ')') {
+      const { annotations, nextIndex } = this.parser.collectAnnotations(tokens, i, ['vararg', 'noinline', 'crossinline']);
+      const parameterName = tokens[nextIndex];
+      const type = this.readType(tokens, nextIndex + 2, [',', ')', '=']);
+      i = type.endIndex;
+
+      const hasDefault = tokens[i]?.value === '=';
+      if (hasDefault) {
+        i = this.readType(tokens, i + 1, [',', ')']).endIndex;
+      }
+      if (parameterName?.type === 'identifier' && tokens[nextIndex + 1]?.value === ':') {
+        parameters.push({ name: parameterName.value, type: type.text, annotations, hasDefault });
+      }
+      if (tokens[i]?.value === ',') i++;
+    }
+
+    const returnType = tokens[i + 1]?.value === ':' ? this.readType(tokens, i + 2, ['{', '=', ';', '@', 'where', 'fun', 'val', 'var']).text : undefined;
+    return { name, parameters, returnType: returnType || undefined };
+  }
+
+  // Joins the tokens of a type (or default value) up to one of the terminators outside brackets
+  private readType(tokens: JavaToken[], index: number, terminators: string[]): { text: string; endIndex: number } {
+    let depth = 0;
+    let i = index;
+    let text = '';
+
+    while (i < tokens.length) {
+      const value = tokens[i].value;
+      if (depth === 0 && (terminators.includes(value) || value === '}')) break;
+      if (value === '<' || value === '(' || value === '[') depth++;
+      if ((value === '>' && tokens[i - 1]?.value !== '-') || value === ')' || value === ']') depth--;
+      if (depth < 0) break;
+      text += value;
+      i++;
+    }
+
+    return { text, endIndex: i };
+  }
+
+  private readQualifiedName(tokens: JavaToken[], index: number): { name: string; nextIndex: number } {
+    const nameParts = [tokens[index].value];
+    let i = index + 1;
+    while (tokens[i]?.value === '.' && tokens[i + 1]?.type === 'identifier') {
+      nameParts.push(tokens[i + 1].value);
+      i += 2;
+    }
+    return { name: nameParts.join('.'), nextIndex: i };
+  }
+
+  private skipTypeArguments(tokens: JavaToken[], index: number): number {
+    let depth = 0;
+    let i = index;
+    while (i < tokens.length) {
+      if (tokens[i].value === '<') depth++;
+      if (tokens[i].value === '>') depth--;
+      i++;
+      if (depth === 0) break;
+    }
+    return i;
+  }
+
+  private isTypeDeclaration(tokens: JavaToken[], index: number): boolean {
+    return tokens[index]?.type === 'identifier' &&
+           TYPE_KEYWORDS.includes(tokens[index].value) &&
+           tokens[index - 1]?.value !== '.' &&
+           tokens[index - 1]?.value !== ':' &&
+           tokens[index + 1]?.type === 'identifier';
+  }
+
+  private createEndpoint(method: HttpMethod, path: string, filePath: string, token: JavaToken, scope: KotlinScope): Endpoint {
+    return {
+      method,
+      path,
+      filePath,
+      lineNumber: token.line,
+      className: scope.className,
+      methodName: scope.functionName
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Endpoint, ScanResultWithCoverage } from '@/models/endpoint';
+import { MarkdownFormatter } from './markdown-formatter';
+
+const listUsers: Endpoint = {
+  method: 'GET',
+  path: '/users',
+  filePath: '/project/src/UserController.java',
+  lineNumber: 10,
+  className: 'UserController',
+  methodName: 'list',
+  parameters: [{ name: 'page', in: 'query', type: 'int', required: false }]
+};
+
+const search: Endpoint = {
+  method: 'GET',
+  path: '/search/{a|b}',
+  filePath: '/project/src/SearchController.java',
+  lineNumber: 4,
+  className: 'SearchController',
+  methodName: 'search'
+};
+
+test('plain scans get one table per file with escaped pipes', () => {
+  const markdown = new MarkdownFormatter().format(
+    { totalFiles: 3, scannedFiles: 2, endpoints: [listUsers, search], errors: [] },
+    { directory: '/project' }
+  );
+
+  assert.equal(markdown, [
+    '# Endpoint scan: project',
+    '',
+    '**2 endpoints** in 2 of 3 files · GET 2',
+    '',
+    '## Endpoints',
+    '',
+    '### `src/SearchController.java`',
+    '',
+    '| Method | Path | Class / handler | Line |',
+    '|---|---|---|---|',
+    '| `GET` | `/search/{a\\|b}` | `SearchController.search` | 4 |',
+    '',
+    '### `src/UserController.java`',
+    '',
+    '| Method | Path | Class / handler | Line |',
+    '|---|---|---|---|',
+    '| `GET` | `/users` | `UserController.list` | 10 |',
+    ''
+  ].join('\n'));
+});
+
+test('coverage scans grouped by controller list the coverage and undocumented endpoints', () => {
+  const result: ScanResultWithCoverage = {
+    totalFiles: 2,
+    scannedFiles: 2,
+    endpoints: [
+      { ...listUsers, apiSpecCoverage: { status: 'covered', matchedEndpoint: { method: 'GET', path: '/users', operationId: 'listUsers' } } },
+      { ...search, apiSpecCoverage: { status: 'not-covered', documentedMethods: ['POST'] } }
+    ],
+    errors: [],
+    apiSpecs: [{ filePath: '/project/openapi.yaml', type: 'openapi', version: '3.0.3', basePaths: [], endpointCount: 1 }]
+  };
+
+  const lines = new MarkdownFormatter().format(result, { directory: '/project', groupBy: 'controller' }).split('\n');
+
+  assert.ok(lines.includes('| 1 | 1 | 0 | 50% ██████████░░░░░░░░░░ |'));
+  assert.ok(lines.includes('- `openapi.yaml` (OpenAPI 3.0.3, 1 endpoints)'));
+  assert.ok(lines.includes('### `UserController`'));
+  assert.ok(lines.includes('| `GET` | `/users` | `list` | `src/UserController.java:10` | ✅ `listUsers` |'));
+  assert.ok(lines.includes('| `GET` | `/search/{a\\|b}` | `search` | `src/SearchController.java:4` | ❌ spec documents POST |'));
+  assert.deepEqual(lines.slice(lines.indexOf('## Undocumented endpoints (1)') + 2).filter(Boolean), [
+    '- `GET /search/{a|b}` `SearchController.search` in `src/SearchController.java:4`'
+  ]);
+});
+
+test('details are collapsed at the end of the report', () => {
+  const markdown = new MarkdownFormatter().format(
+    { totalFiles: 1, scannedFiles: 1, endpoints: [listUsers], errors: [] },
+    { directory: '/project', details: true }
+  );
+
+  assert.ok(markdown.endsWith([
+    '<details>',
+    '<summary>Endpoint details</summary>',
+    '',
+    '- `GET /users` (`src/UserController.java:10`)',
+    '  - `Params: page?: int (query)`',
+    '',
+    '</details>',
+    ''
+  ].join('\n')));
+});
@@ -0,0 +1,362 @@
+import { relative } from 'path';
+import type { ScanResult, ScanResultWithCoverage, Endpoint, EndpointWithCoverage, ApiSpecCoverage, SpecDriftReport } from '@/models/endpoint';
+import type { ReportEndpoint } from '@/models/scan-report';
+import type { ScanDiff, SourceLocation } from '@/models/scan-diff';
+
+export type MarkdownGrouping = 'file' | 'controller';
+
+export interface MarkdownOptions {
+  // Directory the scan ran in; paths are shown relative to it
+  directory: string;
+  groupBy?: MarkdownGrouping;
+  // Append a collapsed `<details>` block with parameters, bodies and media types
+  details?: boolean;
+}
+
+/**
+ * GitHub-flavoured Markdown counterpart of `OutputFormatter`, for pull request
+ * descriptions and wiki pages. Works with plain and coverage scan results.
+ */
+export class MarkdownFormatter {
+  format(result: ScanResult | ScanResultWithCoverage, options: MarkdownOptions): string {
+    const withCoverage = 'apiSpecs' in result ? result : undefined;
+    const output: string[] = [];
+
+    output.push(`# Endpoint scan: ${this.projectName(options.directory)}`, '');
+    output.push(this.formatOverview(result), '');
+
+    if (withCoverage) {
+      output.push(...this.formatCoverage(withCoverage, options.directory));
+    }
+
+    output.push(...this.formatEndpoints(result.endpoints, options));
+
+    if (withCoverage) {
+      output.push(...this.formatUndocumented(withCoverage.endpoints, options.directory));
+    }
+
+    if (withCoverage?.specDrift) {
+      output.push(...this.formatSpecDrift(withCoverage.specDrift, withCoverage.endpoints, options.directory));
+    }
+
+    if (result.errors.length > 0) {
+      output.push(`## Errors (${result.errors.length})`, '');
+      output.push(...result.errors.map(error => `- ${this.escapeText(error)}`), '');
+    }
+
+    if (options.details) {
+      output.push(...this.formatDetails(result.endpoints, options.directory));
+    }
+
+    return `${output.join('\n').trimEnd()}\n`;
+  }
+
+  formatDiff(diff: ScanDiff): string {
+    const output: string[] = [];
+    const { summary } = diff;
+
+    output.push(`# Endpoint diff: ${this.projectName(diff.current.directory)}`, '');
+    output.push(`Baseline ${this.code(diff.baseline.generatedAt)} (${diff.baseline.endpointCount} endpoints) → current ${this.code(diff.current.generatedAt)} (${diff.current.endpointCount} endpoints)`, '');
+    output.push('| Added | Removed | Changed | Moved | Unchanged |', '|---:|---:|---:|---:|---:|');
+    output.push(`| ${summary.added} | ${summary.removed} | ${summary.changed} | ${summary.moved} | ${summary.unchanged} |`, '');
+
+    if (diff.baseline.coveragePercentage !== null && diff.current.coveragePercentage !== null) {
+      output.push(`Coverage: ${diff.baseline.coveragePercentage}% → ${diff.current.coveragePercentage}%`, '');
+    }
+
+    output.push(...this.formatDiffEndpoints('Added endpoints', diff.added, diff.current.directory));
+    output.push(...this.formatDiffEndpoints('Removed endpoints', diff.removed, diff.baseline.directory));
+
+    if (diff.changed.length > 0) {
+      output.push(`## Changed endpoints (${diff.changed.length})`, '');
+      output.push('| Method | Path | Field | Before | After |', '|---|---|---|---|---|');
+      for (const change of diff.changed) {
+        for (const field of change.changes) {
+          const cells = [this.code(change.method), this.code(change.path), field.field, field.before ? this.code(field.before) : '—', field.after ? this.code(field.after) : '—'];
+          output.push(`| ${cells.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+        }
+      }
+      output.push('');
+    }
+
+    if (diff.moved.length > 0) {
+      output.push(`## Moved endpoints (${diff.moved.length})`, '');
+      output.push('| Method | Path | From | To |', '|---|---|---|---|');
+      for (const move of diff.moved) {
+        const cells = [this.code(move.method), this.code(move.path), this.code(this.formatLocation(move.from)), this.code(this.formatLocation(move.to))];
+        output.push(`| ${cells.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+      }
+      output.push('');
+    }
+
+    return `${output.join('\n').trimEnd()}\n`;
+  }
+
+  private formatDiffEndpoints(title: string, endpoints: ReportEndpoint[], directory: string): string[] {
+    if (endpoints.length === 0) {
+      return [];
+    }
+
+    const output = [`## ${title} (${endpoints.length})`, '', '| Method | Path | Source |', '|---|---|---|'];
+    for (const endpoint of endpoints) {
+      const source = `${relative(directory, endpoint.filePath) || endpoint.filePath}:${endpoint.lineNumber}`;
+      output.push(`| ${[this.code(endpoint.method), this.code(endpoint.path), this.code(source)].map(cell => this.escapeCell(cell)).join(' | ')} |`);
+    }
+    output.push('');
+    return output;
+  }
+
+  private formatLocation(location: SourceLocation): string {
+    const handler = [location.className, location.methodName].filter(Boolean).join('.');
+    return `${location.filePath}:${location.lineNumber}${handler ? ` ${handler}` : ''}`;
+  }
+
+  private formatOverview(result: ScanResult): string {
+    const methods = new Map<string, number>();
+    for (const endpoint of result.endpoints) {
+      methods.set(endpoint.method, (methods.get(endpoint.method) || 0) + 1);
+    }
+
+    const methodCounts = [...methods.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([method, count]) => `${method} ${count}`);
+
+    return [`**${result.endpoints.length} endpoints** in ${result.scannedFiles} of ${result.totalFiles} files`, ...methodCounts].join(' · ');
+  }
+
+  private formatCoverage(result: ScanResultWithCoverage, directory: string): string[] {
+    const output = ['## API spec coverage', ''];
+    const stats = this.coverageStats(result.endpoints);
+
+    if (result.apiSpecs.length === 0) {
+      output.push('No API specifications found.', '');
+      return output;
+    }
+
+    output.push('| Covered | Not covered | No spec found | Coverage |', '|---:|---:|---:|---|');
+    output.push(`| ${stats.covered} | ${stats.notCovered} | ${stats.noSpec} | ${this.formatPercentage(stats.covered, stats.covered + stats.notCovered)} |`, '');
+
+    const byModule = this.groupBy(result.endpoints.filter(endpoint => endpoint.module), endpoint => endpoint.module!);
+    if (Object.keys(byModule).length > 1) {
+      output.push('| Module | Covered | Endpoints with spec | Coverage |', '|---|---:|---:|---|');
+      for (const module of Object.keys(byModule).sort()) {
+        const moduleStats = this.coverageStats(byModule[module]);
+        const withSpec = moduleStats.covered + moduleStats.notCovered;
+        output.push(`| ${this.escapeCell(module)} | ${moduleStats.covered} | ${withSpec} | ${this.formatPercentage(moduleStats.covered, withSpec)} |`);
+      }
+      output.push('');
+    }
+
+    output.push('Specifications:', '');
+    for (const spec of result.apiSpecs) {
+      const extras = [
+        `${spec.type === 'openapi' ? 'OpenAPI' : 'Swagger'} ${spec.version}`,
+        `${spec.endpointCount} endpoints`,
+        ...(spec.module ? [`module ${spec.module}`] : [])
+      ];
+      output.push(`- ${this.code(relative(directory, spec.filePath) || spec.filePath)} (${this.escapeText(extras.join(', '))})`);
+    }
+    output.push('');
+
+    return output;
+  }
+
+  private formatEndpoints(endpoints: Array<Endpoint | EndpointWithCoverage>, options: MarkdownOptions): string[] {
+    const output = ['## Endpoints', ''];
+    if (endpoints.length === 0) {
+      output.push('No endpoints found.', '');
+      return output;
+    }
+
+    const groupBy = options.groupBy || 'file';
+    const withCoverage = endpoints.some(endpoint => 'apiSpecCoverage' in endpoint);
+    const groups = this.groupBy(endpoints, endpoint =>
+      groupBy === 'controller' && endpoint.className
+        ? endpoint.className
+        : relative(options.directory, endpoint.filePath) || endpoint.filePath
+    );
+
+    for (const name of Object.keys(groups).sort()) {
+      output.push(`### ${this.code(name)}`, '');
+
+      const headers = [
+        'Method',
+        'Path',
+        groupBy === 'controller' ? 'Handler' : 'Class / handler',
+        groupBy === 'controller' ? 'Source' : 'Line',
+        ...(withCoverage ? ['Coverage'] : [])
+      ];
+      output.push(`| ${headers.join(' | ')} |`, `|${headers.map(() => '---').join('|')}|`);
+
+      for (const endpoint of groups[name]) {
+        const handler = groupBy === 'controller'
+          ? endpoint.methodName || ''
+          : [endpoint.className, endpoint.methodName].filter(Boolean).join('.');
+        const line = groupBy === 'controller'
+          ? this.code(`${relative(options.directory, endpoint.filePath) || endpoint.filePath}:${endpoint.lineNumber}`)
+          : String(endpoint.lineNumber);
+        const cells = [
+          this.code(endpoint.method),
+          this.code(endpoint.path),
+          handler ? this.code(handler) : '',
+          line,
+          ...('apiSpecCoverage' in endpoint ? [this.formatCoverageCell(endpoint.apiSpecCoverage)] : withCoverage ? [''] : [])
+        ];
+        output.push(`| ${cells.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+      }
+      output.push('');
+    }
+
+    return output;
+  }
+
+  private formatCoverageCell(coverage: ApiSpecCoverage): string {
+    switch (coverage.status) {
+      case 'covered': {
+        const operation = coverage.matchedEndpoint?.operationId;
+        const match = coverage.pathMatch && coverage.pathMatch.type !== 'exact' ? ` (${coverage.pathMatch.type})` : '';
+        const undocumented = coverage.undocumentedParameters?.length ? ` ⚠️ undocumented: ${coverage.undocumentedParameters.join(', ')}` : '';
+        return `✅${operation ? ` ${this.code(operation)}` : ''}${match}${undocumented}`;
+      }
+      case 'not-covered':
+        return `❌${coverage.documentedMethods ? ` spec documents ${coverage.documentedMethods.join(', ')}` : ''}`;
+      default:
+        return '⚠️ no spec';
+    }
+  }
+
+  private formatUndocumented(endpoints: EndpointWithCoverage[], directory: string): string[] {
+    const undocumented = endpoints.filter(endpoint => endpoint.apiSpecCoverage.status === 'not-covered');
+    if (undocumented.length === 0) {
+      return [];
+    }
+
+    const output = [`## Undocumented endpoints (${undocumented.length})`, ''];
+    for (const endpoint of undocumented) {
+      const handler = [endpoint.className, endpoint.methodName].filter(Boolean).join('.');
+      const source = `${relative(directory, endpoint.filePath) || endpoint.filePath}:${endpoint.lineNumber}`;
+      output.push(`- ${this.code(`${endpoint.method} ${endpoint.path}`)}${handler ? ` ${this.code(handler)}` : ''} in ${this.code(source)}`);
+    }
+    output.push('');
+
+    return output;
+  }
+
+  /**
+   * The spec side of `--drift`: documented operations without an implementation, and
+   * covered endpoints reading parameters their operation does not document. Undocumented
+   * endpoints are listed in their own section above.
+   */
+  private formatSpecDrift(report: SpecDriftReport, endpoints: EndpointWithCoverage[], directory: string): string[] {
+    const mismatches = endpoints.filter(endpoint =>
+      endpoint.apiSpecCoverage.status === 'covered' && endpoint.apiSpecCoverage.undocumentedParameters?.length
+    );
+    const output = ['## Spec drift', ''];
+    output.push(`${report.missingInCode.length} documented operations are not implemented · ${report.missingInSpec.length} endpoints are not documented · ${mismatches.length} endpoints with undocumented parameters`, '');
+
+    if (report.missingInCode.length > 0) {
+      output.push(`### Spec-only operations (${report.missingInCode.length})`, '');
+      output.push('| Method | Path | Operation | Spec file | Note |', '|---|---|---|---|---|');
+      for (const operation of report.missingInCode) {
+        const name = operation.operationId || operation.summary;
+        const cells = [
+          this.code(operation.method.toUpperCase()),
+          this.code(operation.path),
+          name ? this.escapeText(name) : '',
+          this.code(relative(directory, operation.specFile) || operation.specFile),
+          operation.implementedMethods ? `code implements ${operation.implementedMethods.join(', ')}` : ''
+        ];
+        output.push(`| ${cells.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+      }
+      output.push('');
+    }
+
+    if (mismatches.length > 0) {
+      output.push(`### Parameter mismatches (${mismatches.length})`, '');
+      output.push('| Method | Path | Operation | Undocumented parameters |', '|---|---|---|---|');
+      for (const endpoint of mismatches) {
+        const coverage = endpoint.apiSpecCoverage;
+        const operation = coverage.matchedEndpoint?.operationId || coverage.matchedEndpoint?.summary;
+        const cells = [
+          this.code(endpoint.method),
+          this.code(endpoint.path),
+          operation ? this.escapeText(operation) : '',
+          (coverage.undocumentedParameters || []).map(parameter => this.code(parameter)).join(', ')
+        ];
+        output.push(`| ${cells.map(cell => this.escapeCell(cell)).join(' | ')} |`);
+      }
+      output.push('');
+    }
+
+    return output;
+  }
+
+  private formatDetails(endpoints: Endpoint[], directory: string): string[] {
+    const output = ['<details>', '<summary>Endpoint details</summary>', ''];
+
+    for (const endpoint of endpoints) {
+      const lines = [
+        endpoint.parameters?.length
+          ? `Params: ${endpoint.parameters.map(parameter => `${parameter.name}${parameter.required === false ? '?' : ''}${parameter.type ? `: ${parameter.type}` : ''} (${parameter.in})`).join(', ')}`
+          : '',
+        endpoint.requestBody ? `Body: ${endpoint.requestBody}` : '',
+        endpoint.returnType ? `Returns: ${endpoint.returnType}` : '',
+        endpoint.consumes?.length ? `Consumes: ${endpoint.consumes.join(', ')}` : '',
+        endpoint.produces?.length ? `Produces: ${endpoint.produces.join(', ')}` : ''
+      ].filter(Boolean);
+
+      const source = `${relative(directory, endpoint.filePath) || endpoint.filePath}:${endpoint.lineNumber}`;
+      output.push(`- ${this.code(`${endpoint.method} ${endpoint.path}`)} (${this.code(source)})`);
+      output.push(...lines.map(line => `  - ${this.code(line)}`));
+    }
+
+    output.push('', '</details>', '');
+    return output;
+  }
+
+  // `75% ███████████████░░░░░`, same 20-character bar as the console summary
+  private formatPercentage(covered: number, total: number): string {
+    if (total === 0) {
+      return 'n/a';
+    }
+    const percentage = Math.round((covered / total) * 100);
+    const filled = Math.round(percentage / 5);
+    return `${percentage}% ${'█'.repeat(filled)}${'░'.repeat(20 - filled)}`;
+  }
+
+  private coverageStats(endpoints: EndpointWithCoverage[]): { covered: number; notCovered: number; noSpec: number } {
+    return {
+      covered: endpoints.filter(e => e.apiSpecCoverage.status === 'covered').length,
+      notCovered: endpoints.filter(e => e.apiSpecCoverage.status === 'not-covered').length,
+      noSpec: endpoints.filter(e => e.apiSpecCoverage.status === 'no-spec-found').length
+    };
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Record<string, T[]> {
+    const groups: Record<string, T[]> = {};
+    for (const item of items) {
+      (groups[key(item)] ??= []).push(item);
+    }
+    return groups;
+  }
+
+  // Inline code; longer backtick fences keep backticks inside the text intact
+  private code(text: string): string {
+    const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return longest > 0 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+  }
+
+  // Pipes end table cells even inside code spans
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  }
+
+  private escapeText(text: string): string {
+    return text.replace(/([\\*_[\]<>])/g, '\\$1');
+  }
+
+  private projectName(directory: string): string {
+    return directory.split(/[\\/]/).filter(Boolean).pop() || directory;
+  }
+}
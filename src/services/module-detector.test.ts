@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import type { Endpoint } from '@/models/endpoint';
+import type { ApiSpec } from './api-spec-finder';
+import { CoverageAnalyzer } from './coverage-analyzer';
+import { ModuleDetector, type ProjectModule } from './module-detector';
+
+async function withProject(files: Record<string, string>, run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-modules-'));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(dirname(join(directory, name)), { recursive: true });
+      await writeFile(join(directory, name), content);
+    }
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('modules come from build files, Gradle includes and sbt subprojects', async () => {
+  await withProject({
+    'settings.gradle.kts': 'include(":orders", ":shared:core")\n',
+    'billing/src/main/resources/build.gradle': '',
+    'billing/pom.xml': '<project/>',
+    'catalog/build.sbt': 'lazy val api = (project in file("api"))\n'
+  }, async directory => {
+    const modules = await new ModuleDetector().findModules(directory);
+
+    assert.deepEqual(modules.map(module => `${module.path.slice(directory.length)} ${module.buildTool}`), [
+      ' gradle',
+      '/billing maven',
+      '/catalog sbt',
+      '/catalog/api sbt',
+      '/orders gradle',
+      '/shared/core gradle'
+    ]);
+    assert.deepEqual(modules.map(module => module.name).slice(1), ['billing', 'catalog', join('catalog', 'api'), 'orders', join('shared', 'core')]);
+  });
+});
+
+const modules: ProjectModule[] = [
+  { name: 'project', path: '/project', buildTool: 'gradle' },
+  { name: 'orders', path: '/project/orders', buildTool: 'gradle' },
+  { name: 'billing', path: '/project/billing', buildTool: 'gradle' }
+];
+
+test('files belong to the deepest module containing them', () => {
+  const detector = new ModuleDetector();
+
+  assert.equal(detector.findModule('/project/orders/src/Orders.java', modules)?.name, 'orders');
+  assert.equal(detector.findModule('/project/orders-legacy/Orders.java', modules)?.name, 'project');
+  assert.equal(detector.findModule('/elsewhere/Orders.java', modules), undefined);
+  assert.deepEqual(detector.findAncestors(modules[1], modules).map(module => module.name), ['orders', 'project']);
+});
+
+test('endpoints are only covered by the specs of their own module', () => {
+  const billingSpec: ApiSpec = {
+    filePath: '/project/billing/openapi.yaml',
+    type: 'openapi',
+    version: '3.0.3',
+    basePaths: [],
+    endpoints: [{ method: 'GET', path: '/health', parameters: [] }]
+  };
+  const health: Endpoint = { method: 'GET', path: '/health', filePath: '/project/orders/src/Health.java', lineNumber: 1 };
+  const analyzer = new CoverageAnalyzer();
+
+  const [scoped] = analyzer.analyzeEndpointCoverage([health], [billingSpec], { modules });
+  const [crossModule] = analyzer.analyzeEndpointCoverage([health], [billingSpec], { modules, crossModule: true });
+
+  assert.equal(scoped.apiSpecCoverage.status, 'no-spec-found');
+  assert.equal(scoped.module, 'orders');
+  assert.equal(crossModule.apiSpecCoverage.status, 'covered');
+});
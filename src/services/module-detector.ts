@@ -0,0 +1,102 @@
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { WorkingTreeReader, type SourceReader } from './source-reader';
+
+export interface ProjectModule {
+  // Path relative to the scanned directory; the directory name for the root module
+  name: string;
+  path: string;
+  buildTool: 'maven' | 'gradle' | 'sbt';
+}
+
+const BUILD_FILES: Record<string, ProjectModule['buildTool']> = {
+  'pom.xml': 'maven',
+  'build.gradle': 'gradle',
+  'build.gradle.kts': 'gradle',
+  'settings.gradle': 'gradle',
+  'settings.gradle.kts': 'gradle',
+  'build.sbt': 'sbt'
+};
+
+/**
+ * Finds Maven, Gradle and sbt module roots: directories with a build file, plus
+ * Gradle `include` entries and sbt `project.in(file(...))` subprojects declared
+ * without a build file of their own.
+ */
+export class ModuleDetector {
+  constructor(private reader: SourceReader = new WorkingTreeReader()) {}
+
+  async findModules(rootPath: string): Promise<ProjectModule[]> {
+    const buildFiles = await this.reader.glob(
+      Object.keys(BUILD_FILES).map(file => `**/${file}`),
+      rootPath,
+      ['**/node_modules/**', '**/target/**', '**/build/**', '**/dist/**', '**/.git/**', '**/src/**']
+    );
+
+    const modules = new Map<string, ProjectModule['buildTool']>();
+    for (const buildFile of buildFiles.sort()) {
+      const fileName = basename(buildFile);
+      const buildTool = BUILD_FILES[fileName];
+      const directory = dirname(buildFile);
+      if (!modules.has(directory)) modules.set(directory, buildTool);
+
+      for (const declared of await this.readDeclaredModules(buildFile, fileName)) {
+        if (!modules.has(declared)) modules.set(declared, buildTool);
+      }
+    }
+
+    return [...modules.entries()]
+      .map(([path, buildTool]) => ({ name: relative(rootPath, path) || basename(rootPath), path, buildTool }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // The deepest module containing the file
+  findModule(filePath: string, modules: ProjectModule[]): ProjectModule | undefined {
+    let nearest: ProjectModule | undefined;
+    for (const module of modules) {
+      if (this.contains(module.path, filePath) && (!nearest || module.path.length > nearest.path.length)) {
+        nearest = module;
+      }
+    }
+    return nearest;
+  }
+
+  // Enclosing modules from the nearest outwards, the module itself first
+  findAncestors(module: ProjectModule, modules: ProjectModule[]): ProjectModule[] {
+    return modules
+      .filter(candidate => this.contains(candidate.path, module.path))
+      .sort((a, b) => b.path.length - a.path.length);
+  }
+
+  private contains(directory: string, path: string): boolean {
+    return path === directory || path.startsWith(directory.endsWith(sep) ? directory : `${directory}${sep}`);
+  }
+
+  private async readDeclaredModules(buildFile: string, fileName: string): Promise<string[]> {
+    if (!fileName.startsWith('settings.gradle') && fileName !== 'build.sbt') {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = await this.reader.readFile(buildFile);
+    } catch {
+      return [];
+    }
+
+    const directory = dirname(buildFile);
+    if (fileName === 'build.sbt') {
+      // `project.in(file("orders"))` and `(project in file("orders"))`
+      return [...content.matchAll(/project\s*(?:\.in\s*\(|\s+in\s+)\s*file\s*\(\s*"([^"]+)"/g)]
+        .map(match => resolve(directory, match[1]));
+    }
+
+    // `include 'orders', ':shared:core'` and `include(":orders")`
+    const modules: string[] = [];
+    for (const statement of content.matchAll(/^\s*include\b\s*\(?([^\n)]*)/gm)) {
+      for (const name of statement[1].matchAll(/["']:?([^"']+)["']/g)) {
+        modules.push(join(directory, ...name[1].split(':')));
+      }
+    }
+    return modules;
+  }
+}
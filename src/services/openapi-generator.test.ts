@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Endpoint } from '@/models/endpoint';
+import { OpenApiGenerator } from './openapi-generator';
+
+function scan(endpoints: Endpoint[]) {
+  return { totalFiles: 1, scannedFiles: 1, endpoints, errors: [] };
+}
+
+const getUser: Endpoint = {
+  method: 'GET',
+  path: '/users/{id}',
+  filePath: '/project/src/UserController.java',
+  lineNumber: 12,
+  className: 'UserController',
+  methodName: 'getUser',
+  parameters: [
+    { name: 'id', in: 'path', type: 'Long', required: true },
+    { name: 'fields', in: 'query', type: 'List<String>', required: false }
+  ],
+  returnType: 'ResponseEntity<User>',
+  produces: ['application/json']
+};
+
+test('operations carry parameters, schemas and their source location', () => {
+  const document = new OpenApiGenerator().generate(scan([getUser]), { version: '3.1', sourceRoot: '/project' });
+
+  assert.equal(document.openapi, '3.1.0');
+  assert.deepEqual(document.tags, [{ name: 'UserController' }]);
+  assert.deepEqual((document.paths as Record<string, unknown>)['/users/{id}'], {
+    get: {
+      operationId: 'getUser',
+      tags: ['UserController'],
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } },
+        { name: 'fields', in: 'query', required: false, schema: { type: 'array', items: { type: 'string' } } }
+      ],
+      responses: {
+        '200': {
+          description: 'Successful response',
+          content: { 'application/json': { schema: { type: 'object', 'x-source-type': 'User' } } }
+        }
+      },
+      'x-source-file': 'src/UserController.java',
+      'x-source-line': 12
+    }
+  });
+});
+
+test('ANY endpoints become one operation per common method with qualified operationIds', () => {
+  const proxy: Endpoint = { method: 'ANY', path: '/proxy', filePath: '/project/Proxy.java', lineNumber: 3, methodName: 'forward' };
+  const generator = new OpenApiGenerator();
+
+  const document = generator.generate(scan([proxy]), { version: '3.0', sourceRoot: '/project' });
+  const pathItem = (document.paths as Record<string, Record<string, { operationId: string }>>)['/proxy'];
+
+  assert.equal(document.openapi, '3.0.3');
+  assert.deepEqual(Object.keys(pathItem), ['get', 'put', 'post', 'delete', 'patch']);
+  assert.deepEqual(Object.values(pathItem).map(operation => operation.operationId), [
+    'forwardGet', 'forwardPut', 'forwardPost', 'forwardDelete', 'forwardPatch'
+  ]);
+  assert.equal(generator.countOperations(document), 5);
+});
+
+test('the first endpoint of a path and method wins', () => {
+  const duplicate: Endpoint = { ...getUser, filePath: '/project/src/LegacyController.java', methodName: 'legacyUser' };
+
+  const document = new OpenApiGenerator().generate(scan([getUser, duplicate]), { version: '3.1', sourceRoot: '/project' });
+  const operation = (document.paths as Record<string, Record<string, Record<string, unknown>>>)['/users/{id}'].get;
+
+  assert.equal(operation.operationId, 'getUser');
+  assert.equal(operation['x-source-file'], 'src/UserController.java');
+});
@@ -0,0 +1,332 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { basename, dirname, join, relative } from 'path';
+import { stringify } from 'yaml';
+import type { Endpoint, EndpointParameter, ScanResult } from '@/models/endpoint';
+
+export type OpenApiVersion = '3.0' | '3.1';
+export type SpecFormat = 'yaml' | 'json';
+
+export interface GenerateSpecOptions {
+  version: OpenApiVersion;
+  // Directory the endpoints were scanned from; `x-source-file` is relative to it
+  sourceRoot: string;
+  title?: string;
+}
+
+interface PlannedOperation {
+  endpoint: Endpoint;
+  // Lower-case OpenAPI method
+  method: string;
+  path: string;
+}
+
+const OPENAPI_VERSIONS: Record<OpenApiVersion, string> = {
+  '3.0': '3.0.3',
+  '3.1': '3.1.0'
+};
+
+// OpenAPI has no wildcard method, so `ANY` routes are documented under each of these
+const ANY_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const METHOD_ORDER = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Wrappers whose type argument is the actual payload, e.g. `ResponseEntity<User>` or `IO[User]`
+const TRANSPARENT_WRAPPERS = [
+  'ResponseEntity', 'HttpEntity', 'Mono', 'Optional', 'Option', 'CompletableFuture', 'CompletionStage',
+  'Future', 'IO', 'Task', 'UIO', 'ZIO', 'Deferred', 'DeferredResult', 'Callable', 'Uni'
+];
+
+const COLLECTIONS = ['List', 'Set', 'Seq', 'Collection', 'Iterable', 'Array', 'Vector', 'Flux', 'Stream', 'Multi'];
+
+const EMPTY_TYPES = ['void', 'Void', 'Unit', 'Response', 'Result', 'Action', 'HttpResponse'];
+
+const SCALAR_SCHEMAS: Record<string, Record<string, string>> = {
+  String: { type: 'string' },
+  CharSequence: { type: 'string' },
+  char: { type: 'string' },
+  Character: { type: 'string' },
+  Char: { type: 'string' },
+  int: { type: 'integer', format: 'int32' },
+  Integer: { type: 'integer', format: 'int32' },
+  Int: { type: 'integer', format: 'int32' },
+  short: { type: 'integer', format: 'int32' },
+  Short: { type: 'integer', format: 'int32' },
+  long: { type: 'integer', format: 'int64' },
+  Long: { type: 'integer', format: 'int64' },
+  BigInteger: { type: 'integer' },
+  float: { type: 'number', format: 'float' },
+  Float: { type: 'number', format: 'float' },
+  double: { type: 'number', format: 'double' },
+  Double: { type: 'number', format: 'double' },
+  BigDecimal: { type: 'number' },
+  boolean: { type: 'boolean' },
+  Boolean: { type: 'boolean' },
+  UUID: { type: 'string', format: 'uuid' },
+  LocalDate: { type: 'string', format: 'date' },
+  LocalDateTime: { type: 'string', format: 'date-time' },
+  OffsetDateTime: { type: 'string', format: 'date-time' },
+  ZonedDateTime: { type: 'string', format: 'date-time' },
+  Instant: { type: 'string', format: 'date-time' }
+};
+
+type Schema = Record<string, unknown>;
+
+export class OpenApiGenerator {
+  /**
+   * Builds a draft OpenAPI document from scanned endpoints. Operations carry the
+   * source location as `x-source-file` / `x-source-line` so the draft can be traced back.
+   */
+  generate(result: ScanResult, options: GenerateSpecOptions): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+    const operationIds = new Set<string>();
+    const tags = new Set<string>();
+
+    const endpoints = [...result.endpoints].sort((a, b) =>
+      this.normalizePath(a.path).localeCompare(this.normalizePath(b.path)) || a.lineNumber - b.lineNumber
+    );
+
+    const operations: PlannedOperation[] = [];
+    const planned = new Set<string>();
+    for (const endpoint of endpoints) {
+      const path = this.normalizePath(endpoint.path);
+      const methods = endpoint.method === 'ANY' ? ANY_METHODS : [endpoint.method.toLowerCase()];
+
+      for (const method of methods) {
+        // The first endpoint found for a path and method wins
+        if (planned.has(`${method} ${path}`)) continue;
+        planned.add(`${method} ${path}`);
+        operations.push({ endpoint, method, path });
+      }
+    }
+
+    const handlerOperations = new Map<string, PlannedOperation[]>();
+    for (const operation of operations) {
+      const key = this.handlerKey(operation.endpoint);
+      if (key) handlerOperations.set(key, [...(handlerOperations.get(key) || []), operation]);
+    }
+
+    for (const operation of operations) {
+      const siblings = handlerOperations.get(this.handlerKey(operation.endpoint) || '') || [operation];
+      const pathItem = paths[operation.path] ??= {};
+      pathItem[operation.method] = this.buildOperation(operation, this.qualifier(operation, siblings), operationIds, options.sourceRoot);
+      if (operation.endpoint.className) tags.add(operation.endpoint.className);
+    }
+
+    for (const [path, pathItem] of Object.entries(paths)) {
+      paths[path] = Object.fromEntries(
+        Object.entries(pathItem).sort(([a], [b]) => METHOD_ORDER.indexOf(a) - METHOD_ORDER.indexOf(b))
+      );
+    }
+
+    return {
+      openapi: OPENAPI_VERSIONS[options.version],
+      info: {
+        title: options.title || `${basename(options.sourceRoot)} API`,
+        version: '0.1.0',
+        description: 'Draft generated by endpointscraper from source code. Review before publishing.'
+      },
+      tags: [...tags].sort().map(name => ({ name })),
+      paths
+    };
+  }
+
+  serialize(document: Record<string, unknown>, format: SpecFormat): string {
+    return format === 'json' ? `${JSON.stringify(document, null, 2)}\n` : stringify(document, { aliasDuplicateObjects: false });
+  }
+
+  async writeSpec(document: Record<string, unknown>, format: SpecFormat, outputPath: string): Promise<void> {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, this.serialize(document, format), 'utf-8');
+  }
+
+  // `openapi.generated.yaml` next to the sources, where `ApiSpecFinder` picks it up on the next run
+  generateOutputPath(targetDirectory: string, format: SpecFormat): string {
+    return join(targetDirectory, `openapi.generated.${format}`);
+  }
+
+  countOperations(document: Record<string, unknown>): number {
+    const paths = document.paths as Record<string, Record<string, unknown>>;
+    return Object.values(paths).reduce((count, pathItem) => count + Object.keys(pathItem).length, 0);
+  }
+
+  private buildOperation(
+    { endpoint, method, path }: PlannedOperation,
+    qualifier: string,
+    operationIds: Set<string>,
+    sourceRoot: string
+  ): Record<string, unknown> {
+    const operation: Record<string, unknown> = {
+      operationId: this.createOperationId(endpoint, method, path, qualifier, operationIds)
+    };
+
+    if (endpoint.className) {
+      operation.tags = [endpoint.className];
+    }
+
+    const parameters = this.buildParameters(endpoint, path);
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    if (endpoint.requestBody) {
+      operation.requestBody = {
+        required: true,
+        content: this.buildContent(endpoint.consumes, this.schemaFor(endpoint.requestBody))
+      };
+    }
+
+    const responseType = endpoint.returnType && this.unwrap(endpoint.returnType);
+    operation.responses = {
+      '200': {
+        description: 'Successful response',
+        ...(responseType && !EMPTY_TYPES.includes(responseType) && {
+          content: this.buildContent(endpoint.produces, this.schemaFor(responseType))
+        })
+      }
+    };
+
+    operation['x-source-file'] = relative(sourceRoot, endpoint.filePath) || endpoint.filePath;
+    operation['x-source-line'] = endpoint.lineNumber;
+
+    return operation;
+  }
+
+  // Every `{name}` template must be declared; undeclared handler parameters stay out of the path
+  private buildParameters(endpoint: Endpoint, path: string): Schema[] {
+    const templates = [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+    const declared = endpoint.parameters || [];
+    const parameters: EndpointParameter[] = [
+      ...templates.map(name => declared.find(parameter => parameter.in === 'path' && parameter.name === name) ?? { name, in: 'path' as const }),
+      ...declared.filter(parameter => parameter.in !== 'path')
+    ];
+
+    return parameters.map(parameter => ({
+      name: parameter.name,
+      in: parameter.in,
+      required: parameter.in === 'path' ? true : parameter.required !== false,
+      schema: parameter.type ? this.schemaFor(parameter.type) : { type: 'string' }
+    }));
+  }
+
+  private buildContent(mediaTypes: string[] | undefined, schema: Schema): Record<string, { schema: Schema }> {
+    const types = mediaTypes && mediaTypes.length > 0 ? mediaTypes : ['application/json'];
+    return Object.fromEntries(types.map(mediaType => [mediaType, { schema }]));
+  }
+
+  /**
+   * `methodName` when it is unique, else `classNameMethodName`, else one derived from
+   * the method and path. A numeric suffix resolves remaining clashes.
+   */
+  // Operations of one handler; endpoints without a method name get path-based ids anyway
+  private handlerKey(endpoint: Endpoint): string | undefined {
+    return endpoint.methodName && `${endpoint.filePath}#${endpoint.className ?? ''}.${endpoint.methodName}`;
+  }
+
+  /**
+   * Suffix that tells apart the operations of a handler mapped to several methods
+   * or paths: the method when it differs between them, otherwise method and path.
+   */
+  private qualifier(operation: PlannedOperation, siblings: PlannedOperation[]): string {
+    if (siblings.length < 2) {
+      return '';
+    }
+    const sameMethod = siblings.filter(sibling => sibling.method === operation.method).length;
+    return sameMethod > 1 ? this.pathIdentifier(operation.method, operation.path) : this.capitalize(operation.method);
+  }
+
+  private createOperationId(endpoint: Endpoint, method: string, path: string, qualifier: string, operationIds: Set<string>): string {
+    const candidates = [
+      endpoint.methodName && `${endpoint.methodName}${qualifier}`,
+      endpoint.methodName && endpoint.className && `${this.decapitalize(endpoint.className)}${this.capitalize(endpoint.methodName)}${qualifier}`,
+      this.decapitalize(this.pathIdentifier(method, path))
+    ].filter((candidate): candidate is string => Boolean(candidate));
+
+    let operationId = candidates.find(candidate => !operationIds.has(candidate));
+    if (!operationId) {
+      const base = candidates[candidates.length - 1];
+      let counter = 2;
+      while (operationIds.has(`${base}${counter}`)) counter++;
+      operationId = `${base}${counter}`;
+    }
+
+    operationIds.add(operationId);
+    return operationId;
+  }
+
+  // `get` + `/users/{id}` → `GetUsersId`
+  private pathIdentifier(method: string, path: string): string {
+    return `${this.capitalize(method)}${path.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => this.capitalize(part)).join('')}`;
+  }
+
+  // `{id:[0-9]+}` → `{id}`, `{file:.+}` → `{file}`, duplicate and trailing slashes removed
+  private normalizePath(path: string): string {
+    const normalized = path
+      .replace(/\{(\w+)\s*:[^/]*\}/g, '{$1}')
+      .replace(/\/+/g, '/')
+      .replace(/\/$/, '');
+    return normalized.startsWith('/') ? normalized : `/${normalized || ''}`;
+  }
+
+  private schemaFor(type: string): Schema {
+    const unwrapped = this.unwrap(type);
+    const scalar = SCALAR_SCHEMAS[unwrapped];
+    if (scalar) {
+      return { ...scalar };
+    }
+
+    const arrayMatch = unwrapped.match(/^(.*)\[\]$/) ?? unwrapped.match(/^(\w+)[<[](.*)[>\]]$/);
+    if (arrayMatch) {
+      const [container, item] = arrayMatch.length === 2 ? ['Array', arrayMatch[1]] : [arrayMatch[1], arrayMatch[2]];
+      if (COLLECTIONS.includes(container)) {
+        return { type: 'array', items: this.schemaFor(item) };
+      }
+      if (container === 'Map') {
+        return { type: 'object', additionalProperties: this.schemaFor(this.splitTypeArguments(item)[1] ?? 'Object') };
+      }
+    }
+
+    return { type: 'object', 'x-source-type': unwrapped };
+  }
+
+  // Strips wrappers such as `ResponseEntity<...>`, `IO[...]` and Kotlin's trailing `?`
+  private unwrap(type: string): string {
+    let current = type.trim().replace(/\?$/, '');
+    for (;;) {
+      const match = current.match(/^([\w.]+)[<[](.*)[>\]]$/);
+      const name = match?.[1].split('.').pop();
+      if (!match || !name || !TRANSPARENT_WRAPPERS.includes(name)) {
+        return current;
+      }
+      // `ZIO[R, E, A]` and friends carry the payload last
+      current = this.splitTypeArguments(match[2]).pop()?.trim() || current;
+    }
+  }
+
+  private splitTypeArguments(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if (char === '<' || char === '[') depth++;
+      if (char === '>' || char === ']') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    parts.push(current.trim());
+
+    return parts;
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private decapitalize(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+  }
+}
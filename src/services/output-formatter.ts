@@ -1,5 +1,7 @@
 import chalk from 'chalk';
-import type { ScanResult, Endpoint, ScanResultWithCoverage, EndpointWithCoverage, ApiSpecInfo } from '@/models/endpoint';
+import type { ScanResult, Endpoint, ScanResultWithCoverage, EndpointWithCoverage, ApiSpecInfo, SpecDriftReport } from '@/models/endpoint';
+import type { ScanDiff, SourceLocation } from '@/models/scan-diff';
+import type { CheckResult } from './coverage-gate';
 
 export class OutputFormatter {
   formatResults(result: ScanResult): string {
@@ -43,6 +45,7 @@ export class OutputFormatter {
           }
           
           output.push(info);
+          output.push(...this.formatDetails(endpoint));
         }
       }
     } else {
@@ -69,7 +72,7 @@ export class OutputFormatter {
     output.push(chalk.bold.blue('\n📈 Summary by HTTP Method:'));
     output.push(chalk.gray('─'.repeat(30)));
     
-    const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+    const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE', 'ANY'] as const;
     
     for (const method of methods) {
       const count = methodCounts[method] || 0;
@@ -128,11 +131,31 @@ export class OutputFormatter {
             info += chalk.gray(` - ${classMethod}`);
           }
           
-          if (endpoint.apiSpecCoverage.matchedEndpoint?.operationId) {
+          if (endpoint.apiSpecCoverage.status === 'covered' && endpoint.apiSpecCoverage.matchedEndpoint?.operationId) {
             info += chalk.gray(` (${endpoint.apiSpecCoverage.matchedEndpoint.operationId})`);
           }
+
+          if (endpoint.apiSpecCoverage.matchedMethods) {
+            info += chalk.gray(` [${endpoint.apiSpecCoverage.matchedMethods.join(', ')}]`);
+          }
+
+          if (endpoint.apiSpecCoverage.documentedMethods) {
+            info += chalk.yellow(` (spec documents ${endpoint.apiSpecCoverage.documentedMethods.join(', ')})`);
+          }
           
           output.push(info);
+          output.push(...this.formatDetails(endpoint));
+
+          const pathMatch = endpoint.apiSpecCoverage.pathMatch;
+          if (pathMatch && pathMatch.type !== 'exact') {
+            const color = pathMatch.type === 'fuzzy' ? 'yellow' : 'gray';
+            const matchedPath = `${pathMatch.basePath || ''}${endpoint.apiSpecCoverage.matchedEndpoint?.path || ''}`;
+            output.push(chalk[color](`         ≈ ${pathMatch.type} match with ${matchedPath}: ${pathMatch.reasons.join(', ')}`));
+          }
+
+          if (endpoint.apiSpecCoverage.undocumentedParameters?.length) {
+            output.push(chalk.yellow(`         ⚠️  Undocumented parameters: ${endpoint.apiSpecCoverage.undocumentedParameters.join(', ')}`));
+          }
         }
       }
     } else {
@@ -168,9 +191,13 @@ export class OutputFormatter {
       const typeText = chalk.bold[typeColor](spec.type.toUpperCase());
       const versionText = chalk.gray(`v${spec.version}`);
       const endpointText = chalk.cyan(`${spec.endpointCount} endpoints`);
+      const moduleText = spec.module ? chalk.gray(` • module ${spec.module}`) : '';
       
       output.push(`  📄 ${relativePath}`);
-      output.push(`     ${typeText} ${versionText} • ${endpointText}`);
+      output.push(`     ${typeText} ${versionText} • ${endpointText}${moduleText}`);
+      if (spec.basePaths.length > 0) {
+        output.push(chalk.gray(`     Base paths: ${spec.basePaths.join(', ')}`));
+      }
       output.push('');
     }
     
@@ -205,11 +232,218 @@ export class OutputFormatter {
         const bar = this.createProgressBar(coveragePercentage);
         output.push(chalk.blue(`  📈 Coverage: ${coveragePercentage}% ${bar}`));
       }
+
+      output.push(...this.formatModuleCoverage(endpoints));
     }
     
     return output.join('\n');
   }
 
+  // One line per module, shown once endpoints span more than one module
+  private formatModuleCoverage(endpoints: EndpointWithCoverage[]): string[] {
+    const byModule = this.groupBy(endpoints.filter(endpoint => endpoint.module), endpoint => endpoint.module!);
+    const modules = Object.keys(byModule).sort();
+    if (modules.length < 2) {
+      return [];
+    }
+
+    const output = [chalk.bold('\n  📦 Coverage by module:')];
+    const width = Math.max(...modules.map(module => module.length));
+
+    for (const module of modules) {
+      const moduleEndpoints = byModule[module];
+      const covered = moduleEndpoints.filter(e => e.apiSpecCoverage.status === 'covered').length;
+      const withSpec = moduleEndpoints.filter(e => e.apiSpecCoverage.status !== 'no-spec-found').length;
+      const label = `    ${module.padEnd(width)}`;
+
+      if (withSpec === 0) {
+        output.push(chalk.yellow(`${label}  no spec found (${moduleEndpoints.length} endpoints)`));
+        continue;
+      }
+
+      const percentage = Math.round((covered / withSpec) * 100);
+      output.push(`${label}  ${this.createProgressBar(percentage)} ${percentage}% (${covered}/${withSpec})`);
+    }
+
+    return output;
+  }
+
+  // Parameters, body, return type and media types, one indented line each
+  private formatDetails(endpoint: Endpoint): string[] {
+    const details: string[] = [];
+
+    if (endpoint.parameters?.length) {
+      const parameters = endpoint.parameters.map(parameter => {
+        const name = parameter.required === false ? `${parameter.name}?` : parameter.name;
+        return `${name}${parameter.type ? `: ${parameter.type}` : ''} (${parameter.in})`;
+      });
+      details.push(`Params: ${parameters.join(', ')}`);
+    }
+    if (endpoint.requestBody) {
+      details.push(`Body: ${endpoint.requestBody}`);
+    }
+    if (endpoint.returnType) {
+      details.push(`Returns: ${endpoint.returnType}`);
+    }
+    if (endpoint.consumes?.length) {
+      details.push(`Consumes: ${endpoint.consumes.join(', ')}`);
+    }
+    if (endpoint.produces?.length) {
+      details.push(`Produces: ${endpoint.produces.join(', ')}`);
+    }
+
+    return details.map(detail => chalk.gray(`         ${detail}`));
+  }
+
+  formatSpecDrift(report: SpecDriftReport, detailed: boolean = true): string {
+    const output: string[] = [];
+
+    output.push(chalk.bold.blue('\n🔀 Spec Drift Report:'));
+    output.push(chalk.gray('─'.repeat(50)));
+    output.push(chalk.red(`  📋 In spec, missing from code: ${report.missingInCode.length}`));
+    output.push(chalk.yellow(`  💻 In code, missing from spec: ${report.missingInSpec.length}`));
+
+    if (!detailed) {
+      return output.join('\n');
+    }
+
+    if (report.missingInCode.length > 0) {
+      output.push(chalk.bold.red('\n📋 Documented but not implemented:'));
+
+      for (const [specFile, operations] of Object.entries(this.groupBy(report.missingInCode, operation => operation.specFile))) {
+        output.push(chalk.bold.white(`\n📄 ${this.getRelativePath(specFile)}`));
+
+        for (const operation of operations) {
+          const methodColor = this.getMethodColor(operation.method);
+          let info = `  ${chalk.bold[methodColor](operation.method.padEnd(6))} ${chalk.white(operation.path)}`;
+          if (operation.operationId) {
+            info += chalk.gray(` (${operation.operationId})`);
+          }
+          if (operation.implementedMethods) {
+            info += chalk.yellow(` ⚠️  method mismatch, code implements ${operation.implementedMethods.join(', ')}`);
+          }
+          output.push(info);
+        }
+      }
+    }
+
+    if (report.missingInSpec.length > 0) {
+      output.push(chalk.bold.yellow('\n💻 Implemented but not documented:'));
+
+      for (const [filePath, endpoints] of Object.entries(this.groupEndpointsByFileWithCoverage(report.missingInSpec))) {
+        output.push(chalk.bold.white(`\n📄 ${this.getRelativePath(filePath)}`));
+
+        for (const endpoint of endpoints) {
+          const methodColor = this.getMethodColor(endpoint.method);
+          let info = `  ${chalk.bold[methodColor](endpoint.method.padEnd(6))} ${chalk.white(endpoint.path)} ${chalk.gray(`(line ${endpoint.lineNumber})`)}`;
+          if (endpoint.apiSpecCoverage.documentedMethods) {
+            info += chalk.yellow(` ⚠️  method mismatch, spec documents ${endpoint.apiSpecCoverage.documentedMethods.join(', ')}`);
+          }
+          output.push(info);
+        }
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  // Concise pass/fail summary of `check`; at most `maxViolations` offenders per rule
+  formatCheckResult(result: CheckResult, maxViolations: number = 10): string {
+    const output: string[] = [];
+
+    output.push(chalk.bold.blue('\n🚦 Coverage Check:'));
+    output.push(chalk.gray('─'.repeat(30)));
+
+    if (result.rules.length === 0) {
+      output.push(chalk.yellow('  ⚠️  No rules configured'));
+    }
+
+    for (const rule of result.rules) {
+      output.push(rule.passed ? chalk.green(`  ✅ ${rule.message}`) : chalk.red(`  ❌ ${rule.message}`));
+      for (const violation of rule.violations.slice(0, maxViolations)) {
+        output.push(chalk.gray(`     • ${violation}`));
+      }
+      if (rule.violations.length > maxViolations) {
+        output.push(chalk.gray(`     … and ${rule.violations.length - maxViolations} more`));
+      }
+    }
+
+    output.push(result.passed
+      ? chalk.bold.green('\n✅ Check passed')
+      : chalk.bold.red(`\n❌ Check failed (exit code ${result.exitCode})`));
+
+    return output.join('\n');
+  }
+
+  formatScanDiff(diff: ScanDiff, detailed: boolean = true): string {
+    const output: string[] = [];
+
+    output.push(chalk.bold.blue('\n🔀 Scan Diff:'));
+    output.push(chalk.gray('─'.repeat(50)));
+    output.push(chalk.gray(`  Baseline: ${diff.baseline.directory} (${diff.baseline.generatedAt}, ${diff.baseline.endpointCount} endpoints)`));
+    output.push(chalk.gray(`  Current:  ${diff.current.directory} (${diff.current.generatedAt}, ${diff.current.endpointCount} endpoints)`));
+    if (diff.baseline.coveragePercentage !== null && diff.current.coveragePercentage !== null) {
+      output.push(chalk.blue(`  📈 Coverage: ${diff.baseline.coveragePercentage}% → ${diff.current.coveragePercentage}%`));
+    }
+    output.push(chalk.green(`  ➕ Added: ${diff.summary.added}`));
+    output.push(chalk.red(`  ➖ Removed: ${diff.summary.removed}`));
+    output.push(chalk.yellow(`  ✏️  Changed: ${diff.summary.changed}`));
+    output.push(chalk.gray(`  🚚 Moved: ${diff.summary.moved}`));
+    output.push(chalk.gray(`  Unchanged: ${diff.summary.unchanged}`));
+
+    if (!detailed) {
+      return output.join('\n');
+    }
+
+    const formatEndpoint = (method: string, path: string) =>
+      `  ${chalk.bold[this.getMethodColor(method)](method.padEnd(6))} ${chalk.white(path)}`;
+
+    if (diff.added.length > 0) {
+      output.push(chalk.bold.green('\n➕ Added endpoints:'));
+      for (const endpoint of diff.added) {
+        output.push(`${formatEndpoint(endpoint.method, endpoint.path)} ${chalk.gray(`(${this.getRelativePath(endpoint.filePath)}:${endpoint.lineNumber})`)}`);
+      }
+    }
+
+    if (diff.removed.length > 0) {
+      output.push(chalk.bold.red('\n➖ Removed endpoints:'));
+      for (const endpoint of diff.removed) {
+        output.push(`${formatEndpoint(endpoint.method, endpoint.path)} ${chalk.gray(`(${this.getRelativePath(endpoint.filePath)}:${endpoint.lineNumber})`)}`);
+      }
+    }
+
+    if (diff.changed.length > 0) {
+      output.push(chalk.bold.yellow('\n✏️  Changed endpoints:'));
+      for (const change of diff.changed) {
+        output.push(formatEndpoint(change.method, change.path));
+        for (const field of change.changes) {
+          output.push(chalk.gray(`      ${field.field}: ${field.before ?? '—'} → ${field.after ?? '—'}`));
+        }
+      }
+    }
+
+    if (diff.moved.length > 0) {
+      output.push(chalk.bold.gray('\n🚚 Moved endpoints:'));
+      for (const move of diff.moved) {
+        output.push(`${formatEndpoint(move.method, move.path)} ${chalk.gray(`${this.formatLocation(move.from)} → ${this.formatLocation(move.to)}`)}`);
+      }
+    }
+
+    return output.join('\n');
+  }
+
+  private formatLocation(location: SourceLocation): string {
+    const handler = [location.className, location.methodName].filter(Boolean).join('.');
+    return `${location.filePath}:${location.lineNumber}${handler ? ` ${handler}` : ''}`;
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Record<string, T[]> {
+    return items.reduce((groups, item) => {
+      (groups[key(item)] ??= []).push(item);
+      return groups;
+    }, {} as Record<string, T[]>);
+  }
+
   private createProgressBar(percentage: number, width: number = 20): string {
     const filled = Math.round((percentage / 100) * width);
     const empty = width - filled;
@@ -265,13 +499,17 @@ export class OutputFormatter {
     }, {} as Record<string, number>);
   }
 
-  private getMethodColor(method: string): 'green' | 'blue' | 'yellow' | 'magenta' | 'red' {
+  private getMethodColor(method: string): 'green' | 'blue' | 'yellow' | 'magenta' | 'red' | 'cyan' | 'white' {
     switch (method) {
       case 'GET': return 'green';
       case 'POST': return 'blue';
       case 'PUT': return 'yellow';
       case 'PATCH': return 'magenta';
       case 'DELETE': return 'red';
+      case 'HEAD':
+      case 'OPTIONS':
+      case 'TRACE': return 'cyan';
+      case 'ANY': return 'white';
       default: return 'green';
     }
   }
@@ -0,0 +1,250 @@
+import type { PathMatch, PathMatchType } from '@/models/endpoint';
+
+type Segment =
+  | { kind: 'literal'; text: string }
+  // `{id}`, `{id:[0-9]+}`, `:id`, Play's `$id<[0-9]+>` and the single-segment wildcard `*`
+  | { kind: 'parameter'; text: string; name?: string; pattern?: RegExp }
+  // Literal text around parameters within one segment, e.g. `{name}.{ext}` or `v{version}`
+  | { kind: 'template'; text: string; shape: string; pattern: RegExp }
+  // `**`, `{*rest}`, `{rest:.+}`, Play's `*rest` and Express' `:rest*`
+  | { kind: 'catch-all'; text: string; name?: string; minSegments: number };
+
+interface SegmentsMatch {
+  type: PathMatchType;
+  score: number;
+  reasons: string[];
+}
+
+const TYPE_RANK: Record<PathMatchType, number> = { exact: 2, parameterised: 1, fuzzy: 0 };
+
+// Per paired segment; literal pairings outweigh parameter pairings so the most specific spec path wins
+const SCORES = {
+  literal: 10,
+  parameter: 8,
+  ignoringCase: 6,
+  catchAllParameter: 5,
+  template: 3,
+  wildcard: 2,
+  spanned: 1
+};
+
+/**
+ * Pairs implementation paths with spec paths segment by segment. Literals must be
+ * equal, parameters pair with parameters, and a literal on one side only pairs with a
+ * parameter on the other as a `fuzzy` match (regex constraints permitting). Catch-all
+ * segments may span any number of segments on the other side.
+ */
+export class PathMatcher {
+  match(endpointPath: string, specPath: string): PathMatch | undefined {
+    const endpointSegments = this.parse(endpointPath);
+    const specSegments = this.parse(specPath);
+    return this.matchFrom(endpointSegments, specSegments, 0, 0, new Map());
+  }
+
+  // Exact beats parameterised beats fuzzy; within a type the higher score is more specific
+  isBetter(candidate: PathMatch, current: PathMatch | undefined): boolean {
+    if (!current) return true;
+    if (TYPE_RANK[candidate.type] !== TYPE_RANK[current.type]) {
+      return TYPE_RANK[candidate.type] > TYPE_RANK[current.type];
+    }
+    return candidate.score > current.score;
+  }
+
+  // Parameter names and syntaxes collapse, so `/users/{id}`, `/users/:userId` and `/users/$id<[0-9]+>` compare equal
+  normalise(path: string): string {
+    const segments = this.parse(path).map(segment => {
+      switch (segment.kind) {
+        case 'literal': return segment.text;
+        case 'parameter': return '{}';
+        case 'template': return segment.shape;
+        case 'catch-all': return '{*}';
+      }
+    });
+    return `/${segments.join('/')}`;
+  }
+
+  private parse(path: string): Segment[] {
+    return path.split('/').filter(Boolean).map(segment => this.parseSegment(segment));
+  }
+
+  private parseSegment(text: string): Segment {
+    if (text === '**') {
+      return { kind: 'catch-all', text, minSegments: 0 };
+    }
+
+    let match = text.match(/^\{\*(\w+)\}$/);
+    if (match) {
+      return { kind: 'catch-all', text, name: match[1], minSegments: 0 };
+    }
+
+    match = text.match(/^\*(\w+)$/) ?? text.match(/^:(\w+)([*+])$/);
+    if (match) {
+      return { kind: 'catch-all', text, name: match[1], minSegments: match[2] === '*' ? 0 : 1 };
+    }
+
+    if (text === '*') {
+      return { kind: 'parameter', text };
+    }
+
+    match = text.match(/^:(\w+)$/);
+    if (match) {
+      return { kind: 'parameter', text, name: match[1] };
+    }
+
+    match = text.match(/^\{(\w+)\s*(?::\s*(.+))?\}$/) ?? text.match(/^\$(\w+)<(.+)>$/);
+    if (match) {
+      const regex = match[2]?.trim();
+      if (regex === '.+' || regex === '.*') {
+        return { kind: 'catch-all', text, name: match[1], minSegments: regex === '.*' ? 0 : 1 };
+      }
+      return { kind: 'parameter', text, name: match[1], pattern: regex ? this.compile(regex) : undefined };
+    }
+
+    if (/\{[^}]+\}|\*/.test(text)) {
+      const source = text.split(/(\{[^}]+\}|\*)/).map((part, index) => {
+        if (index % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        if (part === '*') return '.*';
+        const regex = part.match(/^\{\w+\s*:\s*(.+)\}$/)?.[1];
+        return regex ? `(?:${regex})` : '[^/]+';
+      }).join('');
+      return { kind: 'template', text, shape: text.replace(/\{[^}]+\}/g, '{}'), pattern: this.compile(source) ?? /$^/ };
+    }
+
+    return { kind: 'literal', text };
+  }
+
+  private compile(regex: string): RegExp | undefined {
+    try {
+      return new RegExp(`^(?:${regex})$`);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private matchFrom(
+    endpoint: Segment[],
+    spec: Segment[],
+    i: number,
+    j: number,
+    memo: Map<string, SegmentsMatch | undefined>
+  ): SegmentsMatch | undefined {
+    if (i === endpoint.length && j === spec.length) {
+      return { type: 'exact', score: 0, reasons: [] };
+    }
+
+    const key = `${i}:${j}`;
+    if (memo.has(key)) {
+      return memo.get(key);
+    }
+
+    const candidates: Array<SegmentsMatch | undefined> = [];
+    const left = endpoint[i];
+    const right = spec[j];
+
+    if (left && right) {
+      const pair = this.matchPair(left, right);
+      if (pair) candidates.push(this.combine(pair, this.matchFrom(endpoint, spec, i + 1, j + 1, memo)));
+    }
+
+    // Single-segment spans are pairs; here catch-alls span none or several segments
+    if (left?.kind === 'catch-all') {
+      for (let end = j + left.minSegments; end <= spec.length; end++) {
+        if (end === j + 1) continue;
+        candidates.push(this.combine(this.span(left, spec.slice(j, end)), this.matchFrom(endpoint, spec, i + 1, end, memo)));
+      }
+    }
+    if (right?.kind === 'catch-all') {
+      for (let end = i + right.minSegments; end <= endpoint.length; end++) {
+        if (end === i + 1) continue;
+        candidates.push(this.combine(this.span(right, endpoint.slice(i, end)), this.matchFrom(endpoint, spec, end, j + 1, memo)));
+      }
+    }
+
+    let best: SegmentsMatch | undefined;
+    for (const candidate of candidates) {
+      if (candidate && this.isBetter(candidate, best)) best = candidate;
+    }
+
+    memo.set(key, best);
+    return best;
+  }
+
+  private matchPair(left: Segment, right: Segment): SegmentsMatch | undefined {
+    if (left.kind === 'literal' && right.kind === 'literal') {
+      if (left.text === right.text) {
+        return { type: 'exact', score: SCORES.literal, reasons: [] };
+      }
+      if (left.text.toLowerCase() === right.text.toLowerCase()) {
+        return { type: 'fuzzy', score: SCORES.ignoringCase, reasons: [`"${left.text}" matched "${right.text}" ignoring case`] };
+      }
+      return undefined;
+    }
+
+    if (left.kind === 'literal' || right.kind === 'literal') {
+      const [literal, other] = left.kind === 'literal' ? [left, right] : [right, left];
+      if (!this.accepts(other, literal.text)) {
+        return undefined;
+      }
+      return {
+        type: 'fuzzy',
+        score: other.kind === 'template' ? SCORES.template : SCORES.wildcard,
+        reasons: [`"${literal.text}" matched ${other.text}`]
+      };
+    }
+
+    if (left.kind === 'template' || right.kind === 'template') {
+      if (left.kind === 'template' && right.kind === 'template' && left.shape === right.shape) {
+        return this.parameterPair(left, right, left.text === right.text, SCORES.parameter);
+      }
+      return { type: 'fuzzy', score: SCORES.wildcard, reasons: [`${left.text} matched ${right.text}`] };
+    }
+
+    if (left.kind === 'catch-all' && right.kind === 'catch-all') {
+      return this.parameterPair(left, right, left.name === right.name, SCORES.parameter);
+    }
+
+    if (left.kind === 'catch-all' || right.kind === 'catch-all') {
+      return this.parameterPair(left, right, false, SCORES.catchAllParameter);
+    }
+
+    // Regex constraints are not compared: a spec cannot express them
+    return this.parameterPair(left, right, left.name !== undefined && left.name === right.name, SCORES.parameter);
+  }
+
+  private parameterPair(left: Segment, right: Segment, sameName: boolean, score: number): SegmentsMatch {
+    return sameName
+      ? { type: 'exact', score, reasons: [] }
+      : { type: 'parameterised', score, reasons: [`${left.text} matched ${right.text}`] };
+  }
+
+  private span(catchAll: Segment, spanned: Segment[]): SegmentsMatch {
+    const text = spanned.map(segment => segment.text).join('/');
+    return {
+      type: 'fuzzy',
+      score: spanned.length * SCORES.spanned,
+      reasons: [spanned.length === 0 ? `${catchAll.text} matched no segments` : `${catchAll.text} matched "${text}"`]
+    };
+  }
+
+  private accepts(segment: Segment, literal: string): boolean {
+    switch (segment.kind) {
+      case 'parameter':
+      case 'template':
+        return !segment.pattern || segment.pattern.test(literal);
+      default:
+        return true;
+    }
+  }
+
+  private combine(head: SegmentsMatch, tail: SegmentsMatch | undefined): SegmentsMatch | undefined {
+    if (!tail) {
+      return undefined;
+    }
+
+    return {
+      type: TYPE_RANK[head.type] <= TYPE_RANK[tail.type] ? head.type : tail.type,
+      score: head.score + tail.score,
+      reasons: [...head.reasons, ...tail.reasons]
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Joins an annotation base path and a method path with exactly one slash between
+ * them, e.g. `/users/` + `{id}` → `/users/{id}`. Both empty gives `/`.
+ */
+export function combinePaths(basePath: string, endpointPath: string): string {
+  if (!basePath && !endpointPath) return '/';
+  if (!basePath) return endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
+  if (!endpointPath) return basePath.startsWith('/') ? basePath : `/${basePath}`;
+
+  const cleanBase = basePath.startsWith('/') ? basePath : `/${basePath}`;
+  const cleanEndpoint = endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
+
+  return cleanBase.endsWith('/') ?
+    `${cleanBase.slice(0, -1)}${cleanEndpoint}` :
+    `${cleanBase}${cleanEndpoint}`;
+}
+
+// Route DSL prefixes: empty and duplicate segments are dropped, e.g. `/api/` + `//users` → `/api/users`
+export function joinPathSegments(prefix: string, path: string): string {
+  const segments = [prefix, path].flatMap(part => part.split('/')).filter(Boolean);
+  return `/${segments.join('/')}`;
+}
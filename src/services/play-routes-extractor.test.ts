@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayRoutesExtractor } from './play-routes-extractor';
+
+const ROUTES = `
+# Main router
+GET     /api/users/:id          controllers.UserController.getUser(id: Long)
+GET     /assets/*file           controllers.Assets.versioned(path="/public", file: Asset)
+->      /admin                  admin.Routes
+`;
+
+const ADMIN_ROUTES = `
+DELETE  /users/$id<[0-9]+>      @controllers.admin.Users.delete(id: Long)
+->      /reports                reports.Routes
+`;
+
+const REPORTS_ROUTES = `
+GET     /daily                  controllers.admin.Reports.daily(date: Option[String])
+`;
+
+function indexedExtractor(files: Record<string, string>): PlayRoutesExtractor {
+  const extractor = new PlayRoutesExtractor();
+  for (const [filePath, content] of Object.entries(files)) {
+    extractor.applyIncludes(extractor.collectIncludes(filePath, content));
+  }
+  return extractor;
+}
+
+const FILES = { '/app/conf/routes': ROUTES, '/app/conf/admin.routes': ADMIN_ROUTES, '/app/conf/reports.routes': REPORTS_ROUTES };
+
+test('route parameters are normalised and typed from the controller call', () => {
+  const [getUser, assets] = indexedExtractor(FILES).extract('/app/conf/routes', ROUTES);
+
+  assert.deepEqual(
+    { path: getUser.path, className: getUser.className, methodName: getUser.methodName, lineNumber: getUser.lineNumber },
+    { path: '/api/users/{id}', className: 'UserController', methodName: 'getUser', lineNumber: 3 }
+  );
+  assert.deepEqual(getUser.parameters, [{ name: 'id', in: 'path', type: 'Long', required: true }]);
+  assert.equal(assets.path, '/assets/{file:.+}');
+});
+
+test('routes of included files get the prefixes of every include above them', () => {
+  const extractor = indexedExtractor(FILES);
+
+  const [remove] = extractor.extract('/app/conf/admin.routes', ADMIN_ROUTES);
+  const [daily] = extractor.extract('/app/conf/reports.routes', REPORTS_ROUTES);
+
+  assert.equal(`${remove.method} ${remove.path}`, 'DELETE /admin/users/{id:[0-9]+}');
+  assert.equal(`${daily.method} ${daily.path}`, 'GET /admin/reports/daily');
+  assert.deepEqual(daily.parameters, [{ name: 'date', in: 'query', type: 'Option[String]', required: false }]);
+});
+
+test('a router included twice reports its routes under both prefixes', () => {
+  const routes = `
+->      /v1                     admin.Routes
+->      /v2                     admin.Routes
+`;
+  const extractor = indexedExtractor({ '/app/conf/routes': routes, '/app/conf/admin.routes': ADMIN_ROUTES });
+
+  assert.deepEqual(
+    extractor.extract('/app/conf/admin.routes', ADMIN_ROUTES).map(endpoint => endpoint.path),
+    ['/v1/users/{id:[0-9]+}', '/v2/users/{id:[0-9]+}']
+  );
+});
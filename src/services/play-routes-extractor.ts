@@ -0,0 +1,190 @@
+import { basename } from 'path';
+import type { Endpoint, EndpointParameter, HttpMethod } from '@/models/endpoint';
+import { joinPathSegments } from './path-utils';
+import { fingerprintState } from './hashing';
+
+const ROUTE_PATTERN = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(\S+)\s+(.+)$/;
+
+const INCLUDE_PATTERN = /^->\s+(\S+)\s+(\S+)$/;
+
+export interface RoutesInclude {
+  prefix: string;
+  // Router the include lives in, e.g. `` for `conf/routes` or `admin` for `conf/admin.routes`
+  parent: string;
+}
+
+export class PlayRoutesExtractor {
+  // Keyed by the included router, e.g. `admin` for `-> /admin admin.Routes`
+  private projectIncludes = new Map<string, RoutesInclude[]>();
+
+  isRoutesFile(filePath: string): boolean {
+    const fileName = basename(filePath);
+    return fileName === 'routes' || fileName.endsWith('.routes');
+  }
+
+  /**
+   * The `-> /prefix router.Routes` includes of a routes file, keyed by the included
+   * router, so that the routes of the included file are reported under their full prefix.
+   */
+  collectIncludes(filePath: string, content: string): Map<string, RoutesInclude[]> {
+    const parent = this.routerName(filePath);
+    const collected = new Map<string, RoutesInclude[]>();
+
+    for (const rawLine of content.split('\n')) {
+      const match = this.stripComment(rawLine).match(INCLUDE_PATTERN);
+      if (!match) continue;
+
+      const router = this.includedRouter(match[2]);
+      collected.set(router, [...(collected.get(router) || []), { prefix: match[1], parent }]);
+    }
+    return collected;
+  }
+
+  applyIncludes(collected: Map<string, RoutesInclude[]>): void {
+    for (const [router, added] of collected) {
+      const includes = this.projectIncludes.get(router) || [];
+      for (const include of added) {
+        if (!includes.some(existing => existing.prefix === include.prefix && existing.parent === include.parent)) {
+          includes.push(include);
+        }
+      }
+      this.projectIncludes.set(router, includes);
+    }
+  }
+
+  indexFingerprint(): string {
+    return fingerprintState(this.projectIncludes);
+  }
+
+  extract(filePath: string, content: string): Endpoint[] {
+    const endpoints: Endpoint[] = [];
+    const prefixes = this.resolvePrefixes(this.routerName(filePath), new Set());
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = this.stripComment(lines[i]).match(ROUTE_PATTERN);
+      if (!match) continue;
+
+      const method = match[1] as HttpMethod;
+      const path = this.normalizeParameters(match[2]);
+      const { className, methodName } = this.splitControllerCall(match[3]);
+      const parameters = this.extractParameters(match[3], path);
+
+      for (const prefix of prefixes) {
+        endpoints.push({
+          method,
+          path: joinPathSegments(prefix, path),
+          filePath,
+          lineNumber: i + 1,
+          className,
+          methodName,
+          parameters
+        });
+      }
+    }
+
+    return endpoints;
+  }
+
+  private resolvePrefixes(router: string, visited: Set<string>): string[] {
+    const includes = this.projectIncludes.get(router);
+    if (!includes || visited.has(router)) {
+      return [''];
+    }
+    const trail = new Set(visited).add(router);
+
+    const prefixes = includes.flatMap(include =>
+      this.resolvePrefixes(include.parent, trail).map(parent => joinPathSegments(parent, include.prefix))
+    );
+    return [...new Set(prefixes)];
+  }
+
+  // `conf/routes` is the default router, `conf/admin.routes` generates `admin.Routes`
+  private routerName(filePath: string): string {
+    const fileName = basename(filePath);
+    return fileName === 'routes' ? '' : fileName.replace(/\.routes$/, '');
+  }
+
+  private includedRouter(reference: string): string {
+    return reference === 'Routes' ? '' : reference.replace(/\.Routes$/, '');
+  }
+
+  /**
+   * Rewrites Play's dynamic parts into the `{name}` / `{name:regex}` form used by
+   * the other extractors: `:id` → `{id}`, `$id<[0-9]+>` → `{id:[0-9]+}`, `*file` → `{file:.+}`.
+   */
+  private normalizeParameters(path: string): string {
+    return path
+      .replace(/\$(\w+)<(.+?)>(?=\/|$)/g, '{$1:$2}')
+      .replace(/:(\w+)/g, (match, name: string, offset: number, full: string) =>
+        full[offset - 1] === '/' ? `{${name}}` : match
+      )
+      .replace(/(^|\/)\*(\w+)/g, '$1{$2:.+}');
+  }
+
+  // `@controllers.UserController.show(id: Long)` → `UserController` / `show`
+  private splitControllerCall(call: string): { className?: string; methodName?: string } {
+    const reference = call.trim().replace(/^@/, '').replace(/\(.*$/s, '').trim();
+    const parts = reference.split('.');
+    const methodName = parts.pop();
+    return { className: parts.pop(), methodName };
+  }
+
+  /**
+   * Reads the parameters of the controller call: names bound by the path are path
+   * parameters, the others come from the query string. `page: Int ?= 1` and
+   * `Option[T]` are optional, `kind = "x"` is a fixed value and not a request parameter.
+   */
+  private extractParameters(call: string, path: string): EndpointParameter[] {
+    const open = call.indexOf('(');
+    const close = call.lastIndexOf(')');
+    if (open === -1 || close <= open) {
+      return [];
+    }
+
+    const pathNames = new Set([...path.matchAll(/\{(\w+)(?::[^}]*)?\}/g)].map(match => match[1]));
+    const parameters: EndpointParameter[] = [];
+
+    for (const declaration of this.splitArguments(call.slice(open + 1, close))) {
+      const match = declaration.match(/^(\w+)\s*(?::\s*([^=?]+))?(\?=|=)?/);
+      if (!match || match[3] === '=') continue;
+
+      const [, name, declaredType, defaultMarker] = match;
+      const type = declaredType?.trim() || 'String';
+      const inPath = pathNames.has(name);
+      parameters.push({
+        name,
+        in: inPath ? 'path' : 'query',
+        type,
+        required: inPath || !(defaultMarker === '?=' || type.startsWith('Option['))
+      });
+    }
+
+    return parameters;
+  }
+
+  private splitArguments(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if (char === '[' || char === '(') depth++;
+      if (char === ']' || char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    parts.push(current.trim());
+
+    return parts.filter(Boolean);
+  }
+
+  private stripComment(line: string): string {
+    const trimmed = line.trim();
+    return trimmed.startsWith('#') ? '' : trimmed;
+  }
+}
@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import type { ScanProgress } from './file-scanner';
+
+// Redraw at most this often; the last file of each phase is always drawn
+const REDRAW_INTERVAL_MS = 100;
+
+/**
+ * One status line on stderr that is redrawn as files are processed. It stays silent
+ * when stderr is not a terminal, so CI logs and redirected output are not cluttered.
+ */
+export class ProgressReporter {
+  private lastDraw = 0;
+  private drawn = false;
+
+  constructor(private stream: NodeJS.WriteStream = process.stderr) {}
+
+  update(progress: ScanProgress): void {
+    if (!this.stream.isTTY || progress.total === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    if (progress.processed < progress.total && now - this.lastDraw < REDRAW_INTERVAL_MS) {
+      return;
+    }
+    this.lastDraw = now;
+
+    const label = progress.phase === 'index' ? 'Indexing' : 'Extracting endpoints from';
+    const percentage = Math.floor((progress.processed / progress.total) * 100);
+    this.stream.write(`\r\x1b[K${chalk.gray(`⏳ ${label} ${progress.processed}/${progress.total} files (${percentage}%)`)}`);
+    this.drawn = true;
+  }
+
+  clear(): void {
+    if (this.drawn) {
+      this.stream.write('\r\x1b[K');
+      this.drawn = false;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProjectConfigLoader } from './project-config';
+
+async function withConfigs(files: Record<string, string>, run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-config-'));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(directory, name), content);
+    }
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('every problem of an invalid config file is listed at once', () => withConfigs({
+  '.endpointscraper.yaml': [
+    'exclude: ["**/{test,it}/**"]',
+    'extractors:',
+    '  enabled: spring',
+    '  plugins: []',
+    'scan: { workers: -1 }',
+    'check:',
+    '  minMethodCoverage: { FETCH: 120 }',
+    'verbose: true'
+  ].join('\n')
+}, async directory => {
+  const filePath = join(directory, '.endpointscraper.yaml');
+
+  await assert.rejects(new ProjectConfigLoader().load(directory), {
+    message: [
+      `Invalid config file ${filePath}:`,
+      '  - exclude pattern "**/{test,it}/**" uses unsupported glob syntax "{" (only *, ? and ** are supported)',
+      '  - extractors.enabled must be a list of non-empty strings',
+      '  - unknown setting "extractors.plugins" (expected enabled, modules)',
+      '  - scan.workers must be a whole number of at least 0',
+      '  - check.minMethodCoverage.FETCH is not an HTTP method (GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS, TRACE, ANY)',
+      '  - check.minMethodCoverage.FETCH must be a number between 0 and 100',
+      '  - unknown setting "verbose" (expected include, exclude, specs, extractors, scan, cache, output, check)'
+    ].join('\n')
+  });
+}));
+
+test('file paths are resolved against the config file and method keys upper-cased', () => withConfigs({
+  'scan.json': JSON.stringify({
+    specs: { files: ['docs/openapi.yaml'] },
+    cache: { directory: '.cache' },
+    check: { minMethodCoverage: { post: 90 } }
+  })
+}, async directory => {
+  const config = await new ProjectConfigLoader().load('/elsewhere', join(directory, 'scan.json'));
+
+  assert.deepEqual(config, {
+    filePath: join(directory, 'scan.json'),
+    specs: { files: [join(directory, 'docs/openapi.yaml')] },
+    cache: { directory: join(directory, '.cache') },
+    check: { minMethodCoverage: { POST: 90 } }
+  });
+}));
+
+test('a directory without a config file has no config, one with several is rejected', async () => {
+  await withConfigs({}, async directory => {
+    assert.equal(await new ProjectConfigLoader().load(directory), undefined);
+  });
+  await withConfigs({ '.endpointscraper.yaml': '', '.endpointscraper.json': '{}' }, async directory => {
+    await assert.rejects(new ProjectConfigLoader().load(directory), {
+      message: `Found several config files in ${directory}: .endpointscraper.yaml, .endpointscraper.json; keep one`
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { parse } from 'yaml';
+import { HTTP_METHODS, type HttpMethod } from '@/models/endpoint';
+import { OUTPUT_FORMATS, type OutputFormat } from '@/models/scan-report';
+import { findUnsupportedGlobSyntax } from './source-reader';
+
+export const CONFIG_FILE_NAMES = ['.endpointscraper.yaml', '.endpointscraper.yml', '.endpointscraper.json'];
+
+/**
+ * Contents of `.endpointscraper.yaml`/`.json`. Globs are relative to the scan root;
+ * file paths are relative to the config file and resolved to absolute paths on load.
+ */
+export interface ProjectConfig {
+  filePath: string;
+  // Only scan source files matching these globs (default: everything the extractors read)
+  include?: string[];
+  // Added to the built-in ignore lists of source and spec discovery
+  exclude?: string[];
+  specs?: {
+    // Use exactly these spec files instead of discovering them
+    files?: string[];
+    exclude?: string[];
+  };
+  extractors?: {
+    // Built-in extractor names to keep, e.g. `spring`, `jax-rs`, `kotlin`, `scala`
+    enabled?: string[];
+    modules?: string[];
+  };
+  scan?: {
+    concurrency?: number;
+    workers?: number;
+  };
+  cache?: {
+    enabled?: boolean;
+    // Instead of the user cache directory
+    directory?: string;
+  };
+  output?: {
+    format?: OutputFormat;
+    directory?: string;
+    csv?: boolean;
+  };
+  check?: {
+    minCoverage?: number;
+    minMethodCoverage?: Record<string, number>;
+    failOnUndocumented?: boolean;
+    failOnSpecDrift?: boolean;
+  };
+}
+
+type Validator = (value: unknown, key: string, errors: string[]) => void;
+
+const stringList: Validator = (value, key, errors) => {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.trim() === '')) {
+    errors.push(`${key} must be a list of non-empty strings`);
+  }
+};
+
+// Globs are matched with `globToRegExp` for `include` and git revisions, so every list keeps to its syntax
+const globList: Validator = (value, key, errors) => {
+  stringList(value, key, errors);
+  if (!Array.isArray(value)) {
+    return;
+  }
+  for (const pattern of value) {
+    const unsupported = typeof pattern === 'string' ? findUnsupportedGlobSyntax(pattern) : undefined;
+    if (unsupported) {
+      errors.push(`${key} pattern "${pattern}" uses unsupported glob syntax "${unsupported}" (only *, ? and ** are supported)`);
+    }
+  }
+};
+
+const boolean: Validator = (value, key, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${key} must be true or false`);
+  }
+};
+
+const integer = (minimum: number): Validator => (value, key, errors) => {
+  if (!Number.isInteger(value) || (value as number) < minimum) {
+    errors.push(`${key} must be a whole number of at least ${minimum}`);
+  }
+};
+
+const nonEmptyString: Validator = (value, key, errors) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${key} must be a non-empty string`);
+  }
+};
+
+const percentage: Validator = (value, key, errors) => {
+  if (typeof value !== 'number' || value < 0 || value > 100) {
+    errors.push(`${key} must be a number between 0 and 100`);
+  }
+};
+
+const SCHEMA: Record<string, Validator | Record<string, Validator>> = {
+  include: globList,
+  exclude: globList,
+  specs: { files: stringList, exclude: globList },
+  extractors: { enabled: stringList, modules: stringList },
+  scan: { concurrency: integer(1), workers: integer(0) },
+  cache: { enabled: boolean, directory: nonEmptyString },
+  output: {
+    format: (value, key, errors) => {
+      if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        errors.push(`${key} must be one of ${OUTPUT_FORMATS.join(', ')}`);
+      }
+    },
+    directory: nonEmptyString,
+    csv: boolean
+  },
+  check: {
+    minCoverage: percentage,
+    minMethodCoverage: (value, key, errors) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key} must map HTTP methods to percentages, e.g. { POST: 90 }`);
+        return;
+      }
+      for (const [method, minimum] of Object.entries(value)) {
+        if (!HTTP_METHODS.includes(method.toUpperCase() as HttpMethod)) {
+          errors.push(`${key}.${method} is not an HTTP method (${HTTP_METHODS.join(', ')})`);
+        }
+        percentage(minimum, `${key}.${method}`, errors);
+      }
+    },
+    failOnUndocumented: boolean,
+    failOnSpecDrift: boolean
+  }
+};
+
+export class ProjectConfigLoader {
+  /**
+   * Loads `configPath`, or the config file in `rootPath` when none is given.
+   * Returns `undefined` when there is no config file; invalid files throw with every problem listed.
+   */
+  async load(rootPath: string, configPath?: string): Promise<ProjectConfig | undefined> {
+    const filePath = configPath ? resolve(configPath) : this.find(rootPath);
+    if (!filePath) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Cannot read config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = filePath.endsWith('.json') ? JSON.parse(content) : parse(content);
+    } catch (error) {
+      throw new Error(`Cannot parse config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // An empty YAML file is a config without settings
+    raw ??= {};
+    const errors = this.validate(raw);
+    if (errors.length > 0) {
+      throw new Error(`Invalid config file ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    return this.resolvePaths(raw as Omit<ProjectConfig, 'filePath'>, filePath);
+  }
+
+  private find(rootPath: string): string | undefined {
+    const found = CONFIG_FILE_NAMES.map(name => join(rootPath, name)).filter(path => existsSync(path));
+    if (found.length > 1) {
+      throw new Error(`Found several config files in ${rootPath}: ${found.map(path => path.slice(rootPath.length + 1)).join(', ')}; keep one`);
+    }
+    return found[0];
+  }
+
+  private validate(raw: unknown): string[] {
+    const errors: string[] = [];
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      return ['the file must contain an object of settings'];
+    }
+
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      const rule = SCHEMA[key];
+      if (!rule) {
+        errors.push(`unknown setting "${key}" (expected ${Object.keys(SCHEMA).join(', ')})`);
+      } else if (typeof rule === 'function') {
+        rule(value, key, errors);
+      } else if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${key} must be an object with ${Object.keys(rule).join(', ')}`);
+      } else {
+        for (const [nestedKey, nestedValue] of Object.entries(value)) {
+          const nestedRule = rule[nestedKey];
+          if (nestedRule) {
+            nestedRule(nestedValue, `${key}.${nestedKey}`, errors);
+          } else {
+            errors.push(`unknown setting "${key}.${nestedKey}" (expected ${Object.keys(rule).join(', ')})`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private resolvePaths(config: Omit<ProjectConfig, 'filePath'>, filePath: string): ProjectConfig {
+    const directory = dirname(filePath);
+    const absolute = (paths?: string[]) => paths?.map(path => resolve(directory, path));
+
+    return {
+      ...config,
+      filePath,
+      ...(config.specs && { specs: { ...config.specs, files: absolute(config.specs.files) } }),
+      ...(config.extractors && { extractors: { ...config.extractors, modules: absolute(config.extractors.modules) } }),
+      ...(config.cache?.directory && { cache: { ...config.cache, directory: resolve(directory, config.cache.directory) } }),
+      ...(config.output && {
+        output: { ...config.output, directory: config.output.directory && resolve(directory, config.output.directory) }
+      }),
+      ...(config.check?.minMethodCoverage && {
+        check: {
+          ...config.check,
+          minMethodCoverage: Object.fromEntries(
+            Object.entries(config.check.minMethodCoverage).map(([method, minimum]) => [method.toUpperCase(), minimum])
+          )
+        }
+      })
+    };
+  }
+}
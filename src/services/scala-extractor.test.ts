@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScalaEndpointExtractor } from './scala-extractor';
+
+const FILES: Record<string, string> = {
+  '/app/conf/routes': '->      /admin                  admin.Routes\n',
+  '/app/conf/admin.routes': 'GET     /users                  controllers.admin.Users.list\n',
+  '/app/src/Server.scala': `
+import org.http4s.server.Router
+
+object Server {
+  val httpApp = Router("/api" -> OrderRoutes.routes).orNotFound
+}
+`,
+  '/app/src/OrderRoutes.scala': `
+import org.http4s.dsl.io._
+
+object OrderRoutes {
+  val routes = HttpRoutes.of[IO] {
+    case GET -> Root / "orders" => Ok()
+  }
+}
+`,
+  '/app/src/BaseEndpoints.scala': `
+import sttp.tapir._
+
+object BaseEndpoints {
+  val v1 = endpoint.in("v1")
+}
+`,
+  '/app/src/UserEndpoints.scala': `
+import sttp.tapir._
+import BaseEndpoints._
+
+object UserEndpoints {
+  val getUser = v1.get.in("users" / path[Long]("id"))
+}
+`
+};
+
+function extractAll(extractor: ScalaEndpointExtractor): string[] {
+  return Object.entries(FILES).flatMap(([filePath, content]) => extractor.extract(filePath, content))
+    .map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.filePath}`);
+}
+
+test('index data of every kind resolves paths across files', () => {
+  const extractor = new ScalaEndpointExtractor();
+  for (const [filePath, content] of Object.entries(FILES)) {
+    const data = extractor.collectIndex(filePath, content);
+    if (data) extractor.applyIndex(data);
+  }
+
+  assert.deepEqual(extractAll(extractor), [
+    'GET /admin/users /app/conf/admin.routes',
+    'GET /api/orders /app/src/OrderRoutes.scala',
+    'GET /v1/users/{id} /app/src/UserEndpoints.scala'
+  ]);
+});
+
+test('index data copied to another instance, as for worker threads, gives the same endpoints', () => {
+  const collector = new ScalaEndpointExtractor();
+  const collected = Object.entries(FILES).map(([filePath, content]) => collector.collectIndex(filePath, content));
+  for (const data of collected) {
+    if (data) collector.applyIndex(data);
+  }
+
+  const worker = new ScalaEndpointExtractor();
+  for (const data of structuredClone(collected)) {
+    if (data) worker.applyIndex(data);
+  }
+
+  assert.deepEqual(extractAll(worker), extractAll(collector));
+  assert.equal(worker.indexFingerprint(), collector.indexFingerprint());
+});
+
+test('Spring controllers in Scala are extracted, test sources are not', () => {
+  const content = `
+@RestController
+class HealthController {
+  @GetMapping("/health")
+  def health(): String = "ok"
+}
+`;
+  const extractor = new ScalaEndpointExtractor();
+
+  assert.deepEqual(extractor.extract('/app/src/main/scala/HealthController.scala', content).map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.className}.${endpoint.methodName}`), [
+    'GET /health HealthController.health'
+  ]);
+  assert.deepEqual(extractor.extract('/app/src/test/scala/HealthControllerSpec.scala', content), []);
+});
@@ -1,6 +1,70 @@
 import type { Endpoint, HttpMethod } from '@/models/endpoint';
+import type { EndpointExtractor } from '@/models/extractor';
+import { AkkaHttpRouteExtractor } from './akka-http-extractor';
+import { Http4sRouteExtractor, type Http4sIndexData } from './http4s-extractor';
+import { PlayRoutesExtractor, type RoutesInclude } from './play-routes-extractor';
+import { TapirEndpointExtractor, type ParsedFile as TapirIndexData } from './tapir-extractor';
+import { combinePaths } from './path-utils';
+import { fingerprintState } from './hashing';
+
+// What one file adds to the indexes of the route DSLs
+interface ScalaIndexData {
+  includes?: Map<string, RoutesInclude[]>;
+  mounts?: Http4sIndexData;
+  definitions?: TapirIndexData;
+}
+
+export class ScalaEndpointExtractor implements EndpointExtractor {
+  readonly name = 'scala';
+  readonly version = '2';
+  readonly filePatterns = ['**/*.scala', '**/routes', '**/*.routes'];
+  // Spring annotations, the DSL imports, http4s `Root` and the verbs of Play routes files
+  readonly routeTokens = ['Mapping', 'akka.http', 'pekko.http', 'http4s', 'Root', 'sttp.tapir', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+  private akkaHttpExtractor = new AkkaHttpRouteExtractor();
+
+  constructor(
+    private http4sExtractor: Http4sRouteExtractor = new Http4sRouteExtractor(),
+    private playRoutesExtractor: PlayRoutesExtractor = new PlayRoutesExtractor(),
+    private tapirExtractor: TapirEndpointExtractor = new TapirEndpointExtractor()
+  ) {}
+
+  canHandle(filePath: string): boolean {
+    return filePath.endsWith('.scala') || this.playRoutesExtractor.isRoutesFile(filePath);
+  }
+
+  /**
+   * Collects what other files need before extraction: Play includes, http4s
+   * Router mounts and Tapir base endpoints.
+   */
+  collectIndex(filePath: string, content: string): ScalaIndexData | undefined {
+    if (this.playRoutesExtractor.isRoutesFile(filePath)) {
+      return content.includes('->') ? { includes: this.playRoutesExtractor.collectIncludes(filePath, content) } : undefined;
+    }
+    const mounts = this.http4sExtractor.canHandle(content) ? this.http4sExtractor.collectMounts(filePath, content) : undefined;
+    const definitions = this.tapirExtractor.canHandle(content) ? this.tapirExtractor.collectDefinitions(content) : undefined;
+    return mounts || definitions ? { mounts, definitions } : undefined;
+  }
+
+  applyIndex({ includes, mounts, definitions }: ScalaIndexData): void {
+    if (includes) {
+      this.playRoutesExtractor.applyIncludes(includes);
+    }
+    if (mounts) {
+      this.http4sExtractor.applyMounts(mounts);
+    }
+    if (definitions) {
+      this.tapirExtractor.applyDefinitions(definitions);
+    }
+  }
+
+  indexFingerprint(): string {
+    return fingerprintState(
+      this.playRoutesExtractor.indexFingerprint(),
+      this.http4sExtractor.indexFingerprint(),
+      this.tapirExtractor.indexFingerprint()
+    );
+  }
 
-export class ScalaEndpointExtractor {
   extract(filePath: string, content: string): Endpoint[] {
     const endpoints: Endpoint[] = [];
     
@@ -8,6 +72,11 @@ export class ScalaEndpointExtractor {
     if (this.isTestFile(filePath)) {
       return endpoints;
     }
+
+    // Play Framework routes files (`conf/routes`, `conf/*.routes`)
+    if (this.playRoutesExtractor.isRoutesFile(filePath)) {
+      return this.playRoutesExtractor.extract(filePath, content);
+    }
     
     const lines = content.split('\n');
     let currentClassName: string | undefined;
@@ -22,15 +91,6 @@ export class ScalaEndpointExtractor {
         continue;
       }
 
-      // Play Framework routes file
-      if (this.isPlayFrameworkRoute(line)) {
-        const endpoint = this.extractPlayRoute(line, filePath, lineNumber);
-        if (endpoint) {
-          endpoints.push(endpoint);
-        }
-        continue;
-      }
-
       // Spring Boot annotations
       if (this.isSpringAnnotation(line)) {
         const method = this.extractHttpMethod(line);
@@ -40,7 +100,7 @@ export class ScalaEndpointExtractor {
         if (method) {
           endpoints.push({
             method,
-            path: this.combinePaths(baseMapping, path),
+            path: combinePaths(baseMapping, path),
             filePath,
             lineNumber,
             className: currentClassName,
@@ -49,24 +109,21 @@ export class ScalaEndpointExtractor {
         }
         continue;
       }
+    }
 
-      // Akka HTTP routes - more precise detection
-      if (this.isAkkaHttpRoute(line)) {
-        const endpoint = this.extractAkkaRoute(line, filePath, lineNumber, currentClassName);
-        if (endpoint) {
-          endpoints.push(endpoint);
-        }
-        continue;
-      }
+    // Akka HTTP / Pekko HTTP routing DSL spans many lines and is parsed as a whole
+    if (this.akkaHttpExtractor.canHandle(content)) {
+      endpoints.push(...this.akkaHttpExtractor.extract(filePath, content));
+    }
 
-      // http4s routes - case GET -> Root / "path" / "segments"
-      if (this.isHttp4sRoute(line)) {
-        const endpoint = this.extractHttp4sRoute(line, filePath, lineNumber, currentClassName);
-        if (endpoint) {
-          endpoints.push(endpoint);
-        }
-        continue;
-      }
+    // http4s `case GET -> Root / ...` patterns may span lines and are mounted by Routers elsewhere
+    if (this.http4sExtractor.canHandle(content)) {
+      endpoints.push(...this.http4sExtractor.extract(filePath, content));
+    }
+
+    // Tapir endpoints are values built from chained combinators, possibly on base endpoints elsewhere
+    if (this.tapirExtractor.canHandle(content)) {
+      endpoints.push(...this.tapirExtractor.extract(filePath, content));
     }
 
     return endpoints;
@@ -96,79 +153,10 @@ export class ScalaEndpointExtractor {
     return match?.[2];
   }
 
-  private isPlayFrameworkRoute(line: string): boolean {
-    // Match lines like: GET /api/path controllers.Controller.method()
-    return /^\s*(GET|POST|PUT|PATCH|DELETE)\s+\/\S+/.test(line) && 
-           /\s+\S+\.\S+/.test(line);
-  }
-
-  private extractPlayRoute(line: string, filePath: string, lineNumber: number): Endpoint | null {
-    const routeMatch = line.match(/^\s*(GET|POST|PUT|PATCH|DELETE)\s+([^\s]+)\s+(.+)/);
-    if (!routeMatch) return null;
-
-    const method = routeMatch[1] as HttpMethod;
-    const path = routeMatch[2];
-    const controller = routeMatch[3];
-
-    return {
-      method,
-      path,
-      filePath,
-      lineNumber,
-      methodName: controller
-    };
-  }
-
   private isSpringAnnotation(line: string): boolean {
     return /@(GetMapping|PostMapping|PutMapping|PatchMapping|DeleteMapping|RequestMapping)/.test(line);
   }
 
-  private isAkkaHttpRoute(line: string): boolean {
-    // Only match if it's actually an Akka HTTP route definition
-    // Look for: path("...") { get { ... } } or pathPrefix("...") { ... }
-    // Or: get(path("...")) { ... }
-    return (
-      // Pattern: path("...") or pathPrefix("...")
-      (/path(Prefix)?\s*\(\s*"[^"]*"/.test(line) && /(get|post|put|patch|delete)/i.test(line)) ||
-      // Pattern: get(path("...")) or similar
-      /(get|post|put|patch|delete)\s*\(\s*path\s*\(/i.test(line) ||
-      // Pattern: (get|post|put|patch|delete) { ... } with path context
-      (/(get|post|put|patch|delete)\s*\{/i.test(line) && line.includes('path'))
-    );
-  }
-
-  private extractAkkaRoute(line: string, filePath: string, lineNumber: number, className?: string): Endpoint | null {
-    // Extract HTTP method
-    const methodMatch = line.match(/(get|post|put|patch|delete)/i);
-    if (!methodMatch) return null;
-
-    const method = methodMatch[1].toUpperCase() as HttpMethod;
-    
-    // Extract path - look for path("...") or pathPrefix("...")
-    const pathMatch = line.match(/path(?:Prefix)?\s*\(\s*"([^"]*)"/);
-    let path = pathMatch?.[1] || '';
-    
-    // If no path found, it might be a route without explicit path
-    if (!path) {
-      // Look for string literals that might be paths
-      const stringMatch = line.match(/"([^"]*\/[^"]*)"/);
-      path = stringMatch?.[1] || '';
-    }
-
-    // Only return endpoint if we have a valid path
-    if (!path || path === '/') {
-      return null;
-    }
-
-    return {
-      method,
-      path: path.startsWith('/') ? path : `/${path}`,
-      filePath,
-      lineNumber,
-      className
-    };
-  }
-
   private extractHttpMethod(line: string): HttpMethod | null {
     if (/@GetMapping/.test(line)) return 'GET';
     if (/@PostMapping/.test(line)) return 'POST';
@@ -180,11 +168,11 @@ export class ScalaEndpointExtractor {
       const methodMatch = line.match(/method\s*=\s*RequestMethod\.(\w+)/);
       if (methodMatch) {
         const method = methodMatch[1].toUpperCase();
-        if (['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+        if (['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE'].includes(method)) {
           return method as HttpMethod;
         }
       }
-      return 'GET';
+      return 'ANY';
     }
     
     return null;
@@ -213,72 +201,4 @@ export class ScalaEndpointExtractor {
     }
     return undefined;
   }
-
-  private isHttp4sRoute(line: string): boolean {
-    // Match http4s route patterns: 
-    // case GET -> Root / "path" / "segments"
-    // case variable @ GET -> Root / "path" / "segments"
-    // case Method.GET -> Root / "path" / "segments"
-    // case variable @ Method.GET -> Root / "path" / "segments"
-    return /case\s+(?:\w+\s*@\s+)?(?:Method\.)?(GET|POST|PUT|PATCH|DELETE)\s*->\s*Root/.test(line);
-  }
-
-  private extractHttp4sRoute(line: string, filePath: string, lineNumber: number, className?: string): Endpoint | null {
-    // Extract HTTP method from: case GET -> Root, case variable @ GET -> Root, case Method.GET -> Root, etc.
-    const methodMatch = line.match(/case\s+(?:\w+\s*@\s+)?(?:Method\.)?(GET|POST|PUT|PATCH|DELETE)\s*->\s*Root/);
-    if (!methodMatch) return null;
-
-    const method = methodMatch[1] as HttpMethod;
-    
-    // Extract path segments from Root / "segment1" / "segment2" / VariableName(param)
-    const pathSegments: string[] = [];
-    
-    // Find all quoted strings and path variables after Root
-    const rootIndex = line.indexOf('Root');
-    if (rootIndex === -1) return null;
-    
-    const pathPart = line.substring(rootIndex + 4); // Skip "Root"
-    
-    // Process path segments in order using a combined regex that matches both quoted strings and path variables
-    // This regex matches either "quoted" strings or PathDecoder(param) patterns separated by /
-    const segmentRegex = /(?:\/\s*("([^"]+)"|([A-Z]\w*(?:PathDecoder|Decoder|Var|Id)?)\(([^)]*)\)))/g;
-    
-    let match;
-    while ((match = segmentRegex.exec(pathPart)) !== null) {
-      if (match[2]) {
-        // It's a quoted string
-        pathSegments.push(match[2]);
-      } else if (match[3] && match[4]) {
-        // It's a path variable like VoIdPathDecoder(voId)
-        pathSegments.push(`:${match[4]}`);
-      } else if (match[3]) {
-        // It's a path variable without parameter name
-        pathSegments.push(':id');
-      }
-    }
-    
-    // Build the final path
-    const path = pathSegments.length > 0 ? `/${pathSegments.join('/')}` : '/';
-    
-    return {
-      method,
-      path,
-      filePath,
-      lineNumber,
-      className
-    };
-  }
-
-  private combinePaths(basePath: string, endpointPath: string): string {
-    if (!basePath && !endpointPath) return '/';
-    if (!basePath) return endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
-    if (!endpointPath) return basePath.startsWith('/') ? basePath : `/${basePath}`;
-    
-    const cleanBase = basePath.startsWith('/') ? basePath : `/${basePath}`;
-    const cleanEndpoint = endpointPath.startsWith('/') ? endpointPath : `/${endpointPath}`;
-    
-    return cleanBase.endsWith('/') ? 
-      `${cleanBase.slice(0, -1)}${cleanEndpoint}` : 
-      `${cleanBase}${cleanEndpoint}`;
-  }
 }
\ No newline at end of file
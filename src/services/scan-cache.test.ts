@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScanCache } from './scan-cache';
+
+async function withCacheDirectory(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-cache-'));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test('index data keeps its maps and sets across runs', () => withCacheDirectory(async directory => {
+  const cache = await ScanCache.open('/project', directory);
+  const data = { constants: new Map([['USERS', { parts: [{ type: 'literal', value: '/users' }] }]]), owners: new Set(['Api.routes']), base: undefined };
+  const stored = cache.setIndex('/project/Paths.java', 'key', [{ extractor: 'spring', data }]);
+  await cache.save();
+
+  const reopened = await ScanCache.open('/project', directory);
+  const replayed = reopened.getIndex('/project/Paths.java', 'key');
+  assert.deepEqual(replayed, stored);
+  assert.deepEqual(replayed, [{ extractor: 'spring', data: { constants: data.constants, owners: data.owners } }]);
+  assert.equal(reopened.getIndex('/project/Paths.java', 'other key'), undefined);
+}));
+
+test('entries of files the scan no longer finds are dropped', () => withCacheDirectory(async directory => {
+  const cache = await ScanCache.open('/project', directory);
+  cache.setEndpoints('/project/Old.java', 'key', []);
+  cache.setIndex('/project/Old.java', 'key', []);
+  cache.setEndpoints('/project/Kept.java', 'key', []);
+  cache.retainSources(['/project/Kept.java', '/project/New.java']);
+  await cache.save();
+
+  const reopened = await ScanCache.open('/project', directory);
+  assert.equal(reopened.getEndpoints('/project/Old.java', 'key'), undefined);
+  assert.equal(reopened.getIndex('/project/Old.java', 'key'), undefined);
+  assert.deepEqual(reopened.getEndpoints('/project/Kept.java', 'key'), []);
+}));
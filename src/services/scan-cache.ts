@@ -0,0 +1,231 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type { Endpoint } from '@/models/endpoint';
+import type { ApiSpec } from './api-spec-finder';
+import type { IndexContribution } from './extractor-registry';
+import { contentHash } from './hashing';
+import type { SourceReader } from './source-reader';
+
+// Bump when the cached data or the way keys are built changes
+export const SCAN_CACHE_VERSION = 2;
+
+interface CachedEndpoints {
+  key: string;
+  endpoints: Endpoint[];
+}
+
+interface CachedIndex {
+  key: string;
+  // `collectIndex` data, with maps and sets encoded for JSON
+  contributions: unknown;
+}
+
+interface CachedSpec {
+  hash: string;
+  // `null`: the file is not an OpenAPI/Swagger document
+  spec: ApiSpec | null;
+  // Content hashes of the `$ref` targets the spec was resolved with; `null` for unreadable files
+  dependencies: Record<string, string | null>;
+}
+
+interface ScanCacheFile {
+  version: number;
+  directory: string;
+  endpoints: Record<string, CachedEndpoints>;
+  index: Record<string, CachedIndex>;
+  specs: Record<string, CachedSpec>;
+}
+
+export interface ScanCacheStats {
+  endpointHits: number;
+  endpointMisses: number;
+  specHits: number;
+  specMisses: number;
+}
+
+/**
+ * Extracted endpoints, index data and parsed specs of one scanned directory, stored
+ * as a single JSON file per directory. Entries are keyed by file path and content
+ * hash, so a stale entry is simply replaced, and entries of files a scan no longer
+ * finds are dropped; `cache clear` removes the files.
+ */
+export class ScanCache {
+  readonly stats: ScanCacheStats = { endpointHits: 0, endpointMisses: 0, specHits: 0, specMisses: 0 };
+  private dirty = false;
+
+  private constructor(private filePath: string, private data: ScanCacheFile) {}
+
+  // `$XDG_CACHE_HOME/endpointscraper`, else `~/.cache/endpointscraper`
+  static defaultDirectory(): string {
+    return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'endpointscraper');
+  }
+
+  static fileFor(projectPath: string, cacheDirectory: string = ScanCache.defaultDirectory()): string {
+    return join(cacheDirectory, `${contentHash(projectPath).slice(0, 16)}.json`);
+  }
+
+  // Missing, unreadable and outdated cache files start an empty cache
+  static async open(projectPath: string, cacheDirectory?: string): Promise<ScanCache> {
+    const filePath = ScanCache.fileFor(projectPath, cacheDirectory);
+    const empty: ScanCacheFile = { version: SCAN_CACHE_VERSION, directory: projectPath, endpoints: {}, index: {}, specs: {} };
+
+    try {
+      const data = JSON.parse(await readFile(filePath, 'utf-8')) as ScanCacheFile;
+      if (data.version === SCAN_CACHE_VERSION && data.directory === projectPath && data.endpoints && data.index && data.specs) {
+        return new ScanCache(filePath, data);
+      }
+    } catch {
+      // Rebuilt on the next save
+    }
+    return new ScanCache(filePath, empty);
+  }
+
+  /**
+   * Removes the cache of one project, or every cache file in the directory.
+   * Returns the number of removed files.
+   */
+  static async clear(cacheDirectory: string = ScanCache.defaultDirectory(), projectPath?: string): Promise<number> {
+    let files: string[];
+    try {
+      files = (await readdir(cacheDirectory)).filter(file => file.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+
+    const targets = projectPath ? files.filter(file => join(cacheDirectory, file) === ScanCache.fileFor(projectPath, cacheDirectory)) : files;
+    await Promise.all(targets.map(file => rm(join(cacheDirectory, file), { force: true })));
+    return targets.length;
+  }
+
+  getEndpoints(filePath: string, key: string): Endpoint[] | undefined {
+    const entry = this.data.endpoints[filePath];
+    if (entry?.key === key) {
+      this.stats.endpointHits++;
+      return entry.endpoints;
+    }
+    this.stats.endpointMisses++;
+    return undefined;
+  }
+
+  setEndpoints(filePath: string, key: string, endpoints: Endpoint[]): void {
+    this.data.endpoints[filePath] = { key, endpoints };
+    this.dirty = true;
+  }
+
+  getIndex(filePath: string, key: string): IndexContribution[] | undefined {
+    const entry = this.data.index[filePath];
+    return entry?.key === key ? decodeIndexData(entry.contributions) as IndexContribution[] : undefined;
+  }
+
+  /**
+   * Stores the index data of a file and returns it as later runs read it back (maps and
+   * sets rebuilt, shared objects copied), so index fingerprints match between runs.
+   */
+  setIndex(filePath: string, key: string, contributions: IndexContribution[]): IndexContribution[] {
+    const encoded = encodeIndexData(contributions);
+    this.data.index[filePath] = { key, contributions: encoded };
+    this.dirty = true;
+    return decodeIndexData(encoded) as IndexContribution[];
+  }
+
+  // Drops the endpoints and index data of files the current scan no longer finds, e.g. deleted or renamed ones
+  retainSources(filePaths: string[]): void {
+    const found = new Set(filePaths);
+    for (const entries of [this.data.endpoints, this.data.index]) {
+      this.dropEntries(entries, found);
+    }
+  }
+
+  // Same for the candidate spec files of the current spec discovery
+  retainSpecs(filePaths: string[]): void {
+    this.dropEntries(this.data.specs, new Set(filePaths));
+  }
+
+  // `undefined` on a miss; `null` when the file is known not to be a spec
+  async getSpec(filePath: string, content: string, reader: SourceReader): Promise<ApiSpec | null | undefined> {
+    const entry = this.data.specs[filePath];
+    if (entry?.hash === contentHash(content) && await this.dependenciesUnchanged(entry.dependencies, reader)) {
+      this.stats.specHits++;
+      return entry.spec;
+    }
+    this.stats.specMisses++;
+    return undefined;
+  }
+
+  async setSpec(filePath: string, content: string, spec: ApiSpec | null, dependencies: string[], reader: SourceReader): Promise<void> {
+    const hashes: Record<string, string | null> = {};
+    for (const dependency of dependencies) {
+      hashes[dependency] = await reader.readFile(dependency).then(contentHash, () => null);
+    }
+    this.data.specs[filePath] = { hash: contentHash(content), spec, dependencies: hashes };
+    this.dirty = true;
+  }
+
+  // Written to a temporary file first, so concurrent runs never read half a cache
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(temporaryPath, JSON.stringify(this.data), 'utf-8');
+    await rename(temporaryPath, this.filePath);
+    this.dirty = false;
+  }
+
+  private dropEntries(entries: Record<string, unknown>, found: Set<string>): void {
+    for (const filePath of Object.keys(entries)) {
+      if (!found.has(filePath)) {
+        delete entries[filePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  private async dependenciesUnchanged(dependencies: Record<string, string | null>, reader: SourceReader): Promise<boolean> {
+    for (const [dependency, hash] of Object.entries(dependencies)) {
+      if (await reader.readFile(dependency).then(contentHash, () => null) !== hash) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+// JSON has no maps and sets, which index data uses; they are stored as tagged entry lists.
+// `undefined` is treated as JSON would: dropped from objects, `null` elsewhere
+function encodeIndexData(value: unknown): unknown {
+  if (value instanceof Map) {
+    return { $map: [...value].map(([key, entry]) => [encodeIndexData(key), encodeIndexData(entry)]) };
+  }
+  if (value instanceof Set) {
+    return { $set: [...value].map(encodeIndexData) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeIndexData);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) => [key, encodeIndexData(entry)]));
+  }
+  return value === undefined ? null : value;
+}
+
+function decodeIndexData(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeIndexData);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const tagged = value as { $map?: [unknown, unknown][]; $set?: unknown[] };
+  if (tagged.$map) {
+    return new Map(tagged.$map.map(([key, entry]) => [decodeIndexData(key), decodeIndexData(entry)]));
+  }
+  if (tagged.$set) {
+    return new Set(tagged.$set.map(decodeIndexData));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decodeIndexData(entry)]));
+}
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Endpoint, HttpMethod } from '@/models/endpoint';
+import type { ScanReport } from '@/models/scan-report';
+import { JsonExporter } from './json-exporter';
+import { ScanDiffer } from './scan-differ';
+
+function report(directory: string, endpoints: Endpoint[]): ScanReport {
+  return new JsonExporter().createScanReport({ totalFiles: 1, scannedFiles: 1, endpoints, errors: [] }, directory);
+}
+
+function endpoint(method: HttpMethod, path: string, fields: Partial<Endpoint> = {}): Endpoint {
+  return { method, path, filePath: '/release-1/src/UserController.java', lineNumber: 10, className: 'UserController', methodName: 'handle', ...fields };
+}
+
+test('endpoints are paired by method and normalised path into added and removed ones', () => {
+  const baseline = report('/release-1', [
+    endpoint('GET', '/users/{id}'),
+    endpoint('DELETE', '/users/{id}'),
+    endpoint('GET', '/health', { lineNumber: 3 })
+  ]);
+  const current = report('/release-2', [
+    endpoint('GET', '/users/:userId', { filePath: '/release-2/src/UserController.java' }),
+    endpoint('POST', '/users', { filePath: '/release-2/src/UserController.java' }),
+    endpoint('GET', '/health', { filePath: '/release-2/src/UserController.java', lineNumber: 40 })
+  ]);
+
+  const diff = new ScanDiffer().diff(baseline, current);
+
+  assert.deepEqual(diff.summary, { added: 1, removed: 1, changed: 1, moved: 0, unchanged: 1 });
+  assert.deepEqual(diff.added.map(added => `${added.method} ${added.path}`), ['POST /users']);
+  assert.deepEqual(diff.removed.map(removed => `${removed.method} ${removed.path}`), ['DELETE /users/{id}']);
+  assert.deepEqual(diff.changed[0].changes, [{ field: 'path', before: '/users/{id}', after: '/users/:userId' }]);
+});
+
+test('handlers moved to another class are reported apart from API changes', () => {
+  const baseline = report('/release-1', [endpoint('GET', '/users', { parameters: [{ name: 'page', in: 'query', type: 'int' }] })]);
+  const current = report('/release-1', [endpoint('GET', '/users', {
+    filePath: '/release-1/src/AccountController.java',
+    className: 'AccountController',
+    parameters: [{ name: 'page', in: 'query', type: 'long' }]
+  })]);
+
+  const diff = new ScanDiffer().diff(baseline, current);
+
+  assert.deepEqual(diff.moved, [{
+    method: 'GET',
+    path: '/users',
+    from: { filePath: 'src/UserController.java', lineNumber: 10, className: 'UserController', methodName: 'handle' },
+    to: { filePath: 'src/AccountController.java', lineNumber: 10, className: 'AccountController', methodName: 'handle' }
+  }]);
+  assert.deepEqual(diff.changed[0].changes, [{ field: 'parameters', before: 'page: int (query)', after: 'page: long (query)' }]);
+});
+
+test('reports of another major schema version are rejected', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'endpointscraper-diff-'));
+  try {
+    const filePath = join(directory, 'baseline.json');
+    await writeFile(filePath, JSON.stringify({ ...report('/release-1', []), schemaVersion: '2.0' }));
+
+    await assert.rejects(new ScanDiffer().loadReport(filePath), { message: `Unsupported scan report schema 2.0 in ${filePath} (expected 1.0)` });
+
+    await writeFile(filePath, JSON.stringify({ endpoints: [] }));
+    await assert.rejects(new ScanDiffer().loadReport(filePath), { message: `Not a JSON scan report: ${filePath}` });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,169 @@
+import { readFile } from 'fs/promises';
+import { relative } from 'path';
+import { PathMatcher } from './path-matcher';
+import { SCAN_REPORT_SCHEMA_VERSION, type ReportEndpoint, type ScanReport } from '@/models/scan-report';
+import {
+  SCAN_DIFF_SCHEMA_VERSION,
+  type DiffField,
+  type EndpointChange,
+  type EndpointMove,
+  type FieldChange,
+  type ScanDiff,
+  type ScanDiffSource,
+  type SourceLocation
+} from '@/models/scan-diff';
+
+/**
+ * Compares two scan reports. Baselines are the JSON reports of `scan --format json`
+ * (or `--save-baseline`), so any saved scan can serve as either side.
+ */
+export class ScanDiffer {
+  private pathMatcher = new PathMatcher();
+
+  async loadReport(filePath: string): Promise<ScanReport> {
+    let report: Partial<ScanReport>;
+    try {
+      report = JSON.parse(await readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read scan report ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (typeof report.schemaVersion !== 'string' || !Array.isArray(report.endpoints) || typeof report.directory !== 'string') {
+      throw new Error(`Not a JSON scan report: ${filePath}`);
+    }
+    // Minor versions only add fields, so any 1.x report can be read
+    if (report.schemaVersion.split('.')[0] !== SCAN_REPORT_SCHEMA_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported scan report schema ${report.schemaVersion} in ${filePath} (expected ${SCAN_REPORT_SCHEMA_VERSION})`);
+    }
+
+    return report as ScanReport;
+  }
+
+  diff(baseline: ScanReport, current: ScanReport): ScanDiff {
+    const baselineByKey = this.groupByKey(baseline);
+    const currentByKey = this.groupByKey(current);
+
+    const added: ReportEndpoint[] = [];
+    const removed: ReportEndpoint[] = [];
+    const changed: EndpointChange[] = [];
+    const moved: EndpointMove[] = [];
+    let unchanged = 0;
+
+    for (const key of new Set([...baselineByKey.keys(), ...currentByKey.keys()])) {
+      const before = baselineByKey.get(key) || [];
+      const after = currentByKey.get(key) || [];
+
+      // Several endpoints may share a route (e.g. one per module); pair them in source order
+      for (let index = 0; index < Math.max(before.length, after.length); index++) {
+        const old = before[index];
+        const now = after[index];
+        if (!old) {
+          added.push(now);
+          continue;
+        }
+        if (!now) {
+          removed.push(old);
+          continue;
+        }
+
+        const changes = this.compareApi(old, now, baseline.apiSpecs !== null && current.apiSpecs !== null);
+        const from = this.location(old, baseline.directory);
+        const to = this.location(now, current.directory);
+        const hasMoved = from.filePath !== to.filePath || from.className !== to.className || from.methodName !== to.methodName;
+
+        if (changes.length > 0) {
+          changed.push({ method: now.method, path: now.path, baseline: old, current: now, changes });
+        }
+        if (hasMoved) {
+          moved.push({ method: now.method, path: now.path, from, to });
+        }
+        if (changes.length === 0 && !hasMoved) {
+          unchanged++;
+        }
+      }
+    }
+
+    return {
+      schemaVersion: SCAN_DIFF_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      baseline: this.source(baseline),
+      current: this.source(current),
+      summary: { added: added.length, removed: removed.length, changed: changed.length, moved: moved.length, unchanged },
+      added: this.sort(added),
+      removed: this.sort(removed),
+      changed,
+      moved
+    };
+  }
+
+  private groupByKey(report: ScanReport): Map<string, ReportEndpoint[]> {
+    const groups = new Map<string, ReportEndpoint[]>();
+    const sorted = [...report.endpoints].sort((a, b) =>
+      relative(report.directory, a.filePath).localeCompare(relative(report.directory, b.filePath)) || a.lineNumber - b.lineNumber
+    );
+
+    for (const endpoint of sorted) {
+      const key = `${endpoint.method} ${this.pathMatcher.normalise(endpoint.path)}`;
+      groups.set(key, [...(groups.get(key) || []), endpoint]);
+    }
+    return groups;
+  }
+
+  private compareApi(old: ReportEndpoint, now: ReportEndpoint, withCoverage: boolean): FieldChange[] {
+    const fields: Array<[DiffField, (endpoint: ReportEndpoint) => string | null]> = [
+      ['path', endpoint => endpoint.path],
+      ['parameters', endpoint => this.describeParameters(endpoint)],
+      ['requestBody', endpoint => endpoint.requestBody],
+      ['returnType', endpoint => endpoint.returnType],
+      ['consumes', endpoint => this.describeList(endpoint.consumes)],
+      ['produces', endpoint => this.describeList(endpoint.produces)]
+    ];
+    if (withCoverage) {
+      fields.push(['coverage', endpoint => endpoint.coverage?.status ?? null]);
+    }
+
+    const changes: FieldChange[] = [];
+    for (const [field, describe] of fields) {
+      const before = describe(old);
+      const after = describe(now);
+      if (before !== after) {
+        changes.push({ field, before, after });
+      }
+    }
+    return changes;
+  }
+
+  // Order-insensitive, so reordering method arguments is not a change
+  private describeParameters(endpoint: ReportEndpoint): string | null {
+    const parameters = endpoint.parameters.map(parameter =>
+      `${parameter.name}${parameter.required === false ? '?' : ''}${parameter.type ? `: ${parameter.type}` : ''} (${parameter.in})`
+    );
+    return this.describeList(parameters);
+  }
+
+  private describeList(values: string[]): string | null {
+    return values.length > 0 ? [...values].sort().join(', ') : null;
+  }
+
+  private location(endpoint: ReportEndpoint, directory: string): SourceLocation {
+    return {
+      filePath: relative(directory, endpoint.filePath) || endpoint.filePath,
+      lineNumber: endpoint.lineNumber,
+      className: endpoint.className,
+      methodName: endpoint.methodName
+    };
+  }
+
+  private source(report: ScanReport): ScanDiffSource {
+    return {
+      directory: report.directory,
+      generatedAt: report.generatedAt,
+      endpointCount: report.endpoints.length,
+      coveragePercentage: report.summary?.coverage?.percentage ?? null
+    };
+  }
+
+  private sort(endpoints: ReportEndpoint[]): ReportEndpoint[] {
+    return [...endpoints].sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+  }
+}
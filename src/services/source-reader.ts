@@ -0,0 +1,52 @@
+import { readFile } from 'fs/promises';
+import glob from 'fast-glob';
+
+/**
+ * Where scanned files come from. The working tree by default; `GitRevisionReader`
+ * serves the files of a git revision under the same absolute paths.
+ */
+export interface SourceReader {
+  // Absolute paths of the files below `directory` matching `patterns` but none of `ignore`
+  glob(patterns: string[], directory: string, ignore: string[]): Promise<string[]>;
+  readFile(filePath: string): Promise<string>;
+}
+
+export class WorkingTreeReader implements SourceReader {
+  async glob(patterns: string[], directory: string, ignore: string[]): Promise<string[]> {
+    return glob(patterns, { cwd: directory, absolute: true, ignore });
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return readFile(filePath, 'utf-8');
+  }
+}
+
+// Braces, character classes, negation and extglobs: fast-glob would accept them in `exclude`, but not `globToRegExp`
+const UNSUPPORTED_GLOB_SYNTAX = /[{}[\]]|^!|[?*+@!]\(/;
+
+// The part of a config glob outside the supported subset, if any
+export function findUnsupportedGlobSyntax(pattern: string): string | undefined {
+  return pattern.match(UNSUPPORTED_GLOB_SYNTAX)?.[0];
+}
+
+// The glob subset used by the scanners and config files: `**/`, `**`, `*` and `?`, matched against `/`-separated relative paths
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
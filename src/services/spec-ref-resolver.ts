@@ -0,0 +1,97 @@
+import { dirname, resolve } from 'path';
+import { WorkingTreeReader, type SourceReader } from './source-reader';
+
+// A resolved node together with the file it was found in, so nested references resolve relative to it
+export interface ResolvedNode {
+  value: any;
+  filePath: string;
+}
+
+const MAX_REFERENCE_DEPTH = 32;
+
+/**
+ * Follows `$ref` values of an OpenAPI/Swagger document: internal pointers such as
+ * `#/components/parameters/Page`, external files such as `./paths/users.yaml` and
+ * pointers into external files (`./paths.yaml#/users`). Loaded files are cached.
+ */
+export class SpecRefResolver {
+  private documents = new Map<string, unknown>();
+  private referencedFiles = new Set<string>();
+
+  constructor(rootFile: string, rootDocument: unknown, private reader: SourceReader = new WorkingTreeReader()) {
+    this.documents.set(resolve(rootFile), rootDocument);
+  }
+
+  // External files the resolved references pointed to, including unreadable ones
+  getReferencedFiles(): string[] {
+    return [...this.referencedFiles];
+  }
+
+  async resolve(value: unknown, filePath: string): Promise<ResolvedNode> {
+    let current: ResolvedNode = { value, filePath: resolve(filePath) };
+    const seen = new Set<string>();
+
+    while (this.isReference(current.value)) {
+      const reference = current.value.$ref;
+      const [target, pointer = ''] = reference.split('#', 2);
+      const targetFile = target ? resolve(dirname(current.filePath), decodeURI(target)) : current.filePath;
+      const key = `${targetFile}#${pointer}`;
+
+      if (seen.has(key) || seen.size >= MAX_REFERENCE_DEPTH) {
+        throw new Error(`Circular $ref "${reference}" in ${current.filePath}`);
+      }
+      seen.add(key);
+
+      const document = await this.loadDocument(targetFile);
+      current = { value: this.evaluatePointer(document, pointer, reference), filePath: targetFile };
+    }
+
+    return current;
+  }
+
+  private isReference(value: unknown): value is { $ref: string } {
+    return typeof value === 'object' && value !== null && typeof (value as { $ref?: unknown }).$ref === 'string';
+  }
+
+  private async loadDocument(filePath: string): Promise<unknown> {
+    if (this.documents.has(filePath)) {
+      return this.documents.get(filePath);
+    }
+
+    this.referencedFiles.add(filePath);
+    let content: string;
+    try {
+      content = await this.reader.readFile(filePath);
+    } catch (error) {
+      throw new Error(`Cannot read referenced file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let document: unknown;
+    if (filePath.endsWith('.json')) {
+      document = JSON.parse(content);
+    } else {
+      const yaml = await import('yaml');
+      document = yaml.parse(content);
+    }
+
+    this.documents.set(filePath, document);
+    return document;
+  }
+
+  // JSON pointer as in RFC 6901: `/paths/~1users~1{id}` addresses the `/users/{id}` key
+  private evaluatePointer(document: unknown, pointer: string, reference: string): unknown {
+    const tokens = pointer.split('/').slice(1).map(token =>
+      decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+
+    let node: any = document;
+    for (const token of tokens) {
+      if (typeof node !== 'object' || node === null || !(token in node)) {
+        throw new Error(`Unresolvable $ref "${reference}"`);
+      }
+      node = node[token];
+    }
+
+    return node;
+  }
+}
@@ -0,0 +1,33 @@
+import { NAMED_HTTP_METHODS, type HttpMethod } from '@/models/endpoint';
+import type { JavaAnnotation } from './java-source-parser';
+
+// `null`: the methods come from the `method` argument
+export const SPRING_MAPPING_ANNOTATIONS: Record<string, HttpMethod | null> = {
+  GetMapping: 'GET',
+  PostMapping: 'POST',
+  PutMapping: 'PUT',
+  PatchMapping: 'PATCH',
+  DeleteMapping: 'DELETE',
+  RequestMapping: null
+};
+
+export function isSpringMapping(annotation: JavaAnnotation): boolean {
+  return annotation.name in SPRING_MAPPING_ANNOTATIONS;
+}
+
+// Shared by the Java and Kotlin extractors, which parse annotations with the same token model
+export function extractSpringHttpMethods(annotation: JavaAnnotation): HttpMethod[] {
+  const mapped = SPRING_MAPPING_ANNOTATIONS[annotation.name];
+  if (mapped) {
+    return [mapped];
+  }
+
+  const methods = (annotation.args.get('method') || [])
+    .flatMap(value => value.parts)
+    .map(part => part.type === 'reference' ? part.name.split('.').pop() || '' : part.value)
+    .map(method => method.toUpperCase())
+    .filter((method): method is HttpMethod => NAMED_HTTP_METHODS.includes(method as HttpMethod));
+
+  // Without `method`, Spring maps the handler to every HTTP method
+  return methods.length > 0 ? [...new Set(methods)] : ['ANY'];
+}
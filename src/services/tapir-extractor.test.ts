@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TapirEndpointExtractor } from './tapir-extractor';
+
+const BASE_ENDPOINTS = `
+import sttp.tapir._
+
+object BaseEndpoints {
+  val userId = path[Long]("userId")
+  val securedEndpoint = endpoint.securityIn(auth.bearer[String]()).in("api" / "v1")
+}
+`;
+
+const USER_ENDPOINTS = `
+import sttp.tapir._
+import BaseEndpoints._
+
+object UserEndpoints {
+  val getUser = securedEndpoint.get
+    .in("users" / userId)
+    .in(query[Option[String]]("fields"))
+    .out(jsonBody[User])
+
+  val createUser = securedEndpoint.post.in("users").in(jsonBody[CreateUser]).out(jsonBody[User])
+
+  val deleteOrder = securedEndpoint.delete.in("orders" / path[UUID]("orderId"))
+
+  val getUserLogic = getUser.serverLogic(token => id => fields => ???)
+}
+`;
+
+function indexedExtractor(...files: string[]): TapirEndpointExtractor {
+  const extractor = new TapirEndpointExtractor();
+  for (const content of files) {
+    extractor.applyDefinitions(extractor.collectDefinitions(content));
+  }
+  return extractor;
+}
+
+test('endpoints built on a base endpoint in another file inherit its path', () => {
+  const extractor = indexedExtractor(BASE_ENDPOINTS, USER_ENDPOINTS);
+
+  const endpoints = extractor.extract('/project/UserEndpoints.scala', USER_ENDPOINTS);
+
+  assert.deepEqual(endpoints.map(endpoint => `${endpoint.method} ${endpoint.path} ${endpoint.methodName}`), [
+    'GET /api/v1/users/{userId} getUser',
+    'POST /api/v1/users createUser',
+    'DELETE /api/v1/orders/{orderId} deleteOrder'
+  ]);
+});
+
+test('inputs and outputs become parameters, request body and return type', () => {
+  const extractor = indexedExtractor(BASE_ENDPOINTS, USER_ENDPOINTS);
+
+  const [getUser, createUser, deleteOrder] = extractor.extract('/project/UserEndpoints.scala', USER_ENDPOINTS);
+
+  assert.deepEqual(getUser.parameters, [{ name: 'fields', in: 'query', type: 'Option[String]', required: false }]);
+  assert.equal(getUser.returnType, 'User');
+  assert.equal(createUser.requestBody, 'CreateUser');
+  assert.deepEqual(deleteOrder.parameters, [{ name: 'orderId', in: 'path', type: 'UUID', required: true }]);
+});
+
+test('base endpoints without a method are not endpoints themselves', () => {
+  const extractor = indexedExtractor(BASE_ENDPOINTS);
+
+  assert.deepEqual(extractor.extract('/project/BaseEndpoints.scala', BASE_ENDPOINTS), []);
+});
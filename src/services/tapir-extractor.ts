@@ -0,0 +1,439 @@
+import { NAMED_HTTP_METHODS, type Endpoint, type EndpointParameter, type HttpMethod } from '@/models/endpoint';
+import { JavaSourceParser, type JavaToken } from './java-source-parser';
+import { fingerprintState } from './hashing';
+
+const ROOT_ENDPOINTS = ['endpoint', 'infallibleEndpoint'];
+
+const METHOD_SELECTORS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS'
+};
+
+const PARAMETER_INPUTS: Record<string, EndpointParameter['in']> = {
+  path: 'path',
+  query: 'query',
+  header: 'header'
+};
+
+// Body inputs/outputs and the type they carry when no type argument is given
+const BODY_CODECS: Record<string, string | undefined> = {
+  jsonBody: undefined,
+  xmlBody: undefined,
+  formBody: undefined,
+  multipartBody: undefined,
+  customCodecJsonBody: undefined,
+  stringBody: 'String',
+  byteArrayBody: 'Array[Byte]',
+  streamBinaryBody: 'Stream'
+};
+
+// One `val`/`def` whose right-hand side is a chain of endpoint combinators
+interface EndpointDefinition {
+  name: string;
+  line: number;
+  className?: string;
+  // Another definition this one builds on, e.g. `securedEndpoint` in `securedEndpoint.get.in("users")`
+  base?: string;
+  isRoot: boolean;
+  securitySegments: string[];
+  segments: string[];
+  method?: HttpMethod;
+  parameters: EndpointParameter[];
+  requestBody?: string;
+  returnType?: string;
+}
+
+interface ResolvedEndpoint {
+  securitySegments: string[];
+  segments: string[];
+  method?: HttpMethod;
+  parameters: EndpointParameter[];
+  requestBody?: string;
+  returnType?: string;
+}
+
+// Also what one file adds to the index
+export interface ParsedFile {
+  definitions: EndpointDefinition[];
+  // `val userId = path[Long]("userId")` captures reused inside `.in(...)`
+  pathInputs: Map<string, string>;
+}
+
+export class TapirEndpointExtractor {
+  private parser = new JavaSourceParser();
+  private projectDefinitions = new Map<string, EndpointDefinition>();
+  private projectPathInputs = new Map<string, string>();
+
+  canHandle(content: string): boolean {
+    return content.includes('sttp.tapir');
+  }
+
+  /**
+   * The endpoint definitions of a source file, so that base endpoints declared
+   * in one file can be extended in another.
+   */
+  collectDefinitions(content: string): ParsedFile {
+    return this.parseFile(content);
+  }
+
+  applyDefinitions({ definitions, pathInputs }: ParsedFile): void {
+    for (const definition of definitions) {
+      if (!this.projectDefinitions.has(definition.name)) {
+        this.projectDefinitions.set(definition.name, definition);
+      }
+    }
+    for (const [name, segment] of pathInputs) {
+      if (!this.projectPathInputs.has(name)) {
+        this.projectPathInputs.set(name, segment);
+      }
+    }
+  }
+
+  indexFingerprint(): string {
+    return fingerprintState(this.projectDefinitions, this.projectPathInputs);
+  }
+
+  extract(filePath: string, content: string): Endpoint[] {
+    const { definitions } = this.parseFile(content);
+    const localDefinitions = new Map(definitions.map(definition => [definition.name, definition]));
+    const endpoints: Endpoint[] = [];
+
+    for (const definition of definitions) {
+      const resolved = this.resolve(definition, localDefinitions, new Set());
+      if (!resolved?.method) {
+        continue;
+      }
+
+      endpoints.push({
+        method: resolved.method,
+        path: `/${[...resolved.securitySegments, ...resolved.segments].join('/')}`,
+        filePath,
+        lineNumber: definition.line,
+        className: definition.className,
+        methodName: definition.name,
+        parameters: resolved.parameters,
+        requestBody: resolved.requestBody,
+        returnType: resolved.returnType
+      });
+    }
+
+    return endpoints;
+  }
+
+  // Applies a definition on top of the endpoint it extends; undefined when the chain is not rooted in Tapir
+  private resolve(
+    definition: EndpointDefinition,
+    localDefinitions: Map<string, EndpointDefinition>,
+    visited: Set<string>
+  ): ResolvedEndpoint | undefined {
+    if (visited.has(definition.name)) {
+      return undefined;
+    }
+
+    let base: ResolvedEndpoint | undefined;
+    if (definition.isRoot) {
+      base = { securitySegments: [], segments: [], parameters: [] };
+    } else if (definition.base) {
+      const baseDefinition = localDefinitions.get(definition.base) || this.projectDefinitions.get(definition.base);
+      base = baseDefinition && this.resolve(baseDefinition, localDefinitions, new Set(visited).add(definition.name));
+    }
+
+    if (!base) {
+      return undefined;
+    }
+
+    return {
+      securitySegments: [...base.securitySegments, ...definition.securitySegments],
+      segments: [...base.segments, ...definition.segments],
+      method: definition.method ?? base.method,
+      parameters: [...base.parameters, ...definition.parameters],
+      requestBody: definition.requestBody ?? base.requestBody,
+      returnType: definition.returnType ?? base.returnType
+    };
+  }
+
+  private parseFile(content: string): ParsedFile {
+    const tokens = this.parser.tokenize(content);
+    const definitions: EndpointDefinition[] = [];
+    const pathInputs = new Map<string, string>();
+    const classes: Array<{ name: string; depth: number }> = [];
+    let depth = 0;
+
+    // Captures are collected first so that `.in("users" / userId)` can use them wherever they are declared
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].value === 'val' && tokens[i + 1]?.type === 'identifier') {
+        const start = this.findDefinitionBody(tokens, i + 2);
+        const capture = start === -1 ? undefined : this.readPathInput(tokens, start, tokens.length, new Map());
+        if (capture) pathInputs.set(tokens[i + 1].value, capture);
+      }
+    }
+    const knownInputs = new Map([...this.projectPathInputs, ...pathInputs]);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.value === '(' || token.value === '{' || token.value === '[') {
+        depth++;
+        continue;
+      }
+
+      if (token.value === ')' || token.value === '}' || token.value === ']') {
+        depth--;
+        while (token.value === '}' && classes.length > 0 && classes[classes.length - 1].depth >= depth) classes.pop();
+        continue;
+      }
+
+      if (token.type !== 'identifier' || tokens[i - 1]?.value === '.') {
+        continue;
+      }
+
+      if (['class', 'object', 'trait'].includes(token.value) && tokens[i + 1]?.type === 'identifier') {
+        while (classes.length > 0 && classes[classes.length - 1].depth >= depth) classes.pop();
+        classes.push({ name: tokens[i + 1].value, depth });
+        i++;
+        continue;
+      }
+
+      if ((token.value === 'val' || token.value === 'def') && tokens[i + 1]?.type === 'identifier') {
+        const start = this.findDefinitionBody(tokens, i + 2);
+        if (start === -1) continue;
+
+        const definition = this.parseChain(tokens, start, knownInputs);
+        if (definition) {
+          definitions.push({
+            ...definition,
+            name: tokens[i + 1].value,
+            line: token.line,
+            className: classes[classes.length - 1]?.name
+          });
+        }
+      }
+    }
+
+    return { definitions, pathInputs };
+  }
+
+  // Skips type parameters, parameter lists and the type ascription up to the `=` of a definition
+  private findDefinitionBody(tokens: JavaToken[], index: number): number {
+    let i = index;
+    while (i < tokens.length) {
+      const value = tokens[i].value;
+      if (value === '(' || value === '[') {
+        i = this.findClosing(tokens, i) + 1;
+        continue;
+      }
+      if (value === '=' && tokens[i + 1]?.value !== '>') {
+        return i + 1;
+      }
+      if (value === '{' || value === '}' || ['val', 'def', 'var'].includes(value)) {
+        return -1;
+      }
+      i++;
+    }
+    return -1;
+  }
+
+  /**
+   * Reads `endpoint.get.in("users" / path[Long]("id")).out(jsonBody[User])` or
+   * `securedEndpoint.post.in("users")`. Combinators other than paths and methods are skipped.
+   */
+  private parseChain(
+    tokens: JavaToken[],
+    start: number,
+    pathInputs: Map<string, string>
+  ): Omit<EndpointDefinition, 'name' | 'line' | 'className'> | undefined {
+    const definition: Omit<EndpointDefinition, 'name' | 'line' | 'className'> = {
+      isRoot: false,
+      securitySegments: [],
+      segments: [],
+      parameters: []
+    };
+    let i = start;
+
+    // `endpoint`, `sttp.tapir.endpoint`, `baseEndpoint` or `Endpoints.baseEndpoint`
+    while (tokens[i]?.type === 'identifier') {
+      const name = tokens[i].value;
+      if (ROOT_ENDPOINTS.includes(name)) {
+        definition.isRoot = true;
+        definition.base = undefined;
+      } else if (!definition.isRoot) {
+        definition.base = name;
+      }
+
+      if (tokens[i + 1]?.value !== '.' || tokens[i + 2]?.type !== 'identifier') {
+        i++;
+        break;
+      }
+      i += 2;
+      // A method selector or a call such as `.in(...)` starts the combinators
+      if (METHOD_SELECTORS[tokens[i].value] || tokens[i + 1]?.value === '(' || tokens[i + 1]?.value === '[') {
+        i--;
+        break;
+      }
+    }
+
+    if (!definition.isRoot && !definition.base) {
+      return undefined;
+    }
+
+    let touched = definition.isRoot;
+    while (tokens[i]?.value === '.' && tokens[i + 1]?.type === 'identifier') {
+      const member = tokens[i + 1].value;
+      i += 2;
+
+      let argsStart = -1;
+      let argsEnd = -1;
+      if (tokens[i]?.value === '[') {
+        i = this.findClosing(tokens, i) + 1;
+      }
+      if (tokens[i]?.value === '(') {
+        argsStart = i + 1;
+        argsEnd = this.findClosing(tokens, i);
+        i = argsEnd + 1;
+      }
+
+      if (METHOD_SELECTORS[member]) {
+        definition.method = METHOD_SELECTORS[member];
+        touched = true;
+      } else if (member === 'method' && argsStart !== -1) {
+        const methodName = tokens.slice(argsStart, argsEnd).map(token => token.value.toUpperCase())
+          .find(value => NAMED_HTTP_METHODS.includes(value as HttpMethod));
+        if (methodName) definition.method = methodName as HttpMethod;
+        touched = true;
+      } else if ((member === 'in' || member === 'securityIn') && argsStart !== -1) {
+        const segments = this.readPathSegments(tokens, argsStart, argsEnd, pathInputs);
+        (member === 'in' ? definition.segments : definition.securitySegments).push(...segments);
+        const inputs = this.readInputs(tokens, argsStart, argsEnd);
+        definition.parameters.push(...inputs.parameters);
+        definition.requestBody = inputs.body ?? definition.requestBody;
+        touched = true;
+      } else if (member === 'out' && argsStart !== -1) {
+        definition.returnType = this.readInputs(tokens, argsStart, argsEnd).body ?? definition.returnType;
+        touched = true;
+      }
+    }
+
+    return touched ? definition : undefined;
+  }
+
+  // `"users" / path[Long]("id") / "posts"`; inputs such as `query[Int]("page")` or `jsonBody[T]` yield no segments
+  private readPathSegments(tokens: JavaToken[], start: number, end: number, pathInputs: Map<string, string>): string[] {
+    const segments: string[] = [];
+
+    for (const [partStart, partEnd] of this.splitPathParts(tokens, start, end)) {
+      const token = tokens[partStart];
+      if (token?.type === 'string') {
+        segments.push(...token.value.split('/').filter(Boolean));
+        continue;
+      }
+
+      const capture = this.readPathInput(tokens, partStart, partEnd, pathInputs);
+      if (!capture) {
+        return segments;
+      }
+      segments.push(capture);
+    }
+
+    return segments;
+  }
+
+  // `path[Long]("id")` → `{id}`, `path[UUID]` → `{uuid}`, `paths` → `{paths:.+}`, or a known capture val
+  private readPathInput(tokens: JavaToken[], start: number, end: number, pathInputs: Map<string, string>): string | undefined {
+    const token = tokens[start];
+    if (token?.type !== 'identifier') {
+      return undefined;
+    }
+
+    if (token.value === 'paths') {
+      return '{paths:.+}';
+    }
+
+    if (token.value !== 'path') {
+      return pathInputs.get(token.value);
+    }
+
+    let i = start + 1;
+    let typeName: string | undefined;
+    if (tokens[i]?.value === '[') {
+      const close = this.findClosing(tokens, i);
+      typeName = tokens.slice(i + 1, close).filter(part => part.type === 'identifier').pop()?.value;
+      i = close + 1;
+    }
+
+    if (i < end && tokens[i]?.value === '(' && tokens[i + 1]?.type === 'string') {
+      return `{${tokens[i + 1].value}}`;
+    }
+    return `{${typeName ? typeName.toLowerCase() : 'param'}}`;
+  }
+
+  // `path[Long]("id")`, `query[Option[Int]]("page")`, `header[String]("X-Request-Id")` and body codecs such as `jsonBody[User]`
+  private readInputs(tokens: JavaToken[], start: number, end: number): { parameters: EndpointParameter[]; body?: string } {
+    const parameters: EndpointParameter[] = [];
+    let body: string | undefined;
+
+    for (let i = start; i < end; i++) {
+      const token = tokens[i];
+      const isBody = BODY_CODECS.hasOwnProperty(token.value);
+      if (token.type !== 'identifier' || (!isBody && !PARAMETER_INPUTS.hasOwnProperty(token.value))) {
+        continue;
+      }
+
+      let next = i + 1;
+      let type: string | undefined;
+      if (tokens[next]?.value === '[') {
+        const close = this.findClosing(tokens, next);
+        type = tokens.slice(next + 1, close).map(part => part.value).join('');
+        next = close + 1;
+      }
+
+      if (isBody) {
+        body ??= type ?? BODY_CODECS[token.value];
+      } else if (tokens[next]?.value === '(' && tokens[next + 1]?.type === 'string') {
+        const location = PARAMETER_INPUTS[token.value];
+        parameters.push({
+          name: tokens[next + 1].value,
+          in: location,
+          type,
+          required: location === 'path' || !(type?.startsWith('Option[') || type?.startsWith('List['))
+        });
+      }
+      i = next - 1;
+    }
+
+    return { parameters, body };
+  }
+
+  private splitPathParts(tokens: JavaToken[], start: number, end: number): Array<[number, number]> {
+    const parts: Array<[number, number]> = [];
+    let partStart = start;
+    let depth = 0;
+
+    for (let i = start; i < end; i++) {
+      const value = tokens[i].value;
+      if (value === '(' || value === '{' || value === '[') depth++;
+      if (value === ')' || value === '}' || value === ']') depth--;
+      if (depth === 0 && value === '/') {
+        parts.push([partStart, i]);
+        partStart = i + 1;
+      }
+    }
+    parts.push([partStart, end]);
+
+    return parts.filter(([from, to]) => from < to);
+  }
+
+  private findClosing(tokens: JavaToken[], openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < tokens.length; i++) {
+      if (tokens[i].value === '(' || tokens[i].value === '{' || tokens[i].value === '[') depth++;
+      if (tokens[i].value === ')' || tokens[i].value === '}' || tokens[i].value === ']') depth--;
+      if (depth === 0) return i;
+    }
+    return tokens.length - 1;
+  }
+}